@@ -0,0 +1,294 @@
+/**
+ * Client allowlist management
+ *
+ * The allowlist checked on every tool call is the union of:
+ * - APPROVED_KEY (static, from .env)
+ * - keys added at runtime with the allowlist_add admin tool, persisted in
+ *   ALLOWLIST_FILE (default data/allowlist.json)
+ * - the `p` tags of an operator-published NIP-51 list (ALLOWLIST_NIP51, e.g. a
+ *   kind 30000 follow set), kept up to date from the relays
+ * - the admin keys (ADMIN_PUBKEYS), so admins can always reach the admin tools
+ * With none of these configured the server stays open to any client. Once a
+ * key has been added at runtime the allowlist stays enforced, even if emptied.
+ *
+ * The check runs in the server's own request path (the tool registry), against
+ * the caller pubkey the transport injects, so changes apply to the next call.
+ */
+
+import type { SimpleRelayPool } from '@contextvm/sdk';
+import { nip19, type Event as NostrEvent, type Filter } from 'nostr-tools';
+import { createJsonStore, dataFilePath, type JsonStore } from '../utils/jsonStore.util.js';
+import { getPoolQueries, getPoolRelayUrls } from '../utils/publish.util.js';
+
+export type AllowlistSource = 'env' | 'runtime' | 'nip51' | 'admin';
+
+/**
+ * An allowed key and where it comes from
+ */
+export interface AllowlistEntry {
+  pubkey: string;
+  sources: AllowlistSource[];
+  note?: string;
+  addedBy?: string;
+  addedAt?: number;
+}
+
+/**
+ * Address of a replaceable NIP-51 list event
+ */
+export interface ListAddress {
+  kind: number;
+  pubkey: string;
+  identifier?: string;
+}
+
+export interface AccessControl {
+  /** Keys allowed to call tools (empty and not enforcing = open access) */
+  allowedKeys(): string[];
+  /** Whether clients are restricted at all */
+  isEnforced(): boolean;
+  /** Whether a client may call tools (always true while not enforcing) */
+  isAllowed(pubkey: string | undefined): boolean;
+  isAdmin(pubkey: string | undefined): boolean;
+  list(): AllowlistEntry[];
+  /** Adds a runtime key; returns false if it was already added at runtime */
+  add(pubkey: string, addedBy: string, note?: string): Promise<boolean>;
+  /** Removes a runtime key; returns false if it was not a runtime key */
+  remove(pubkey: string): Promise<boolean>;
+  /** Starts following the NIP-51 list (no-op without ALLOWLIST_NIP51) */
+  startListSync(relayPool: SimpleRelayPool): void;
+  stop(): void;
+  /** The NIP-51 list being followed, if any */
+  listAddress?: ListAddress;
+}
+
+interface AllowlistDocument {
+  keys: Record<string, { addedBy: string; addedAt: number; note?: string }>;
+  /** Set by the first runtime add, so removing the last key doesn't reopen the server */
+  enforced?: boolean;
+}
+
+export interface AccessControlOptions {
+  /** Static keys (APPROVED_KEY) */
+  envKeys?: string[];
+  /** Admin keys (ADMIN_PUBKEYS) */
+  adminKeys?: string[];
+  /** Runtime allowlist file (default ALLOWLIST_FILE or data/allowlist.json) */
+  filePath?: string;
+  /** NIP-51 list address (default parsed from ALLOWLIST_NIP51) */
+  listAddress?: ListAddress;
+  /** Periodic re-fetch of the list (default ALLOWLIST_REFRESH_MS or 300000) */
+  refreshMs?: number;
+}
+
+/**
+ * Normalises a pubkey given as hex or npub
+ * @param value Hex pubkey or npub
+ * @returns Lowercase hex pubkey
+ * @throws Error if the value is neither
+ */
+export function normalizePubkey(value: string): string {
+  const trimmed = value.trim();
+  if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  if (trimmed.startsWith('npub1')) {
+    const decoded = nip19.decode(trimmed);
+    if (decoded.type === 'npub') return decoded.data;
+  }
+  throw new Error(`Invalid pubkey "${value}": expected 64 hex characters or an npub`);
+}
+
+/**
+ * Parses a comma-separated list of hex pubkeys / npubs, skipping invalid ones
+ * @param value Raw env value
+ * @param label Name used in warnings
+ * @returns Hex pubkeys
+ */
+export function parsePubkeyList(value: string | undefined, label: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(key => key.length > 0)
+    .flatMap(key => {
+      try {
+        return [normalizePubkey(key)];
+      } catch (error) {
+        console.warn(`⚠️  Ignoring ${label} entry: ${error instanceof Error ? error.message : error}`);
+        return [];
+      }
+    });
+}
+
+/**
+ * Parses a NIP-51 list address: an naddr, or "<kind>:<hex pubkey or npub>[:<d tag>]"
+ * @param value Raw value (e.g. ALLOWLIST_NIP51)
+ * @returns ListAddress, or undefined if unset
+ * @throws Error if the value can't be parsed
+ */
+export function parseListAddress(value: string | undefined): ListAddress | undefined {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return undefined;
+
+  if (trimmed.startsWith('naddr1')) {
+    const decoded = nip19.decode(trimmed);
+    if (decoded.type !== 'naddr') throw new Error('ALLOWLIST_NIP51 is not an naddr');
+    return { kind: decoded.data.kind, pubkey: decoded.data.pubkey, identifier: decoded.data.identifier || undefined };
+  }
+
+  const [kind, pubkey, ...identifier] = trimmed.split(':');
+  if (!/^\d+$/.test(kind) || !pubkey) {
+    throw new Error('ALLOWLIST_NIP51 must be an naddr or "<kind>:<pubkey>[:<d tag>]"');
+  }
+  return {
+    kind: parseInt(kind, 10),
+    pubkey: normalizePubkey(pubkey),
+    identifier: identifier.length > 0 ? identifier.join(':') : undefined
+  };
+}
+
+/**
+ * Extracts the public `p` entries of a list event
+ * @param event NIP-51 list event
+ * @returns Hex pubkeys
+ */
+export function listMembers(event: NostrEvent): string[] {
+  return event.tags
+    .filter(tag => tag[0] === 'p' && /^[0-9a-fA-F]{64}$/.test(tag[1] || ''))
+    .map(tag => tag[1].toLowerCase());
+}
+
+/**
+ * Creates the access control
+ * @param options Static keys, admin keys, storage and list settings
+ * @returns AccessControl
+ */
+export function createAccessControl(options: AccessControlOptions = {}): AccessControl {
+  const envKeys = options.envKeys || [];
+  const adminKeys = options.adminKeys || [];
+  const listAddress = options.listAddress;
+  const refreshMs = options.refreshMs ?? parseInt(process.env.ALLOWLIST_REFRESH_MS || '300000', 10);
+  const store: JsonStore<AllowlistDocument> = createJsonStore<AllowlistDocument>(
+    options.filePath || process.env.ALLOWLIST_FILE || dataFilePath('allowlist.json'),
+    () => ({ keys: {} })
+  );
+
+  let listKeys: string[] = [];
+  let listCreatedAt = 0;
+  let closeSubscription: (() => void) | undefined;
+  let refreshTimer: NodeJS.Timeout | undefined;
+
+  const entries = (): AllowlistEntry[] => {
+    const byKey = new Map<string, AllowlistEntry>();
+    const addSource = (pubkey: string, source: AllowlistSource) => {
+      const entry = byKey.get(pubkey) || { pubkey, sources: [] };
+      if (!entry.sources.includes(source)) entry.sources.push(source);
+      byKey.set(pubkey, entry);
+      return entry;
+    };
+
+    envKeys.forEach(key => addSource(key, 'env'));
+    Object.entries(store.read().keys).forEach(([key, meta]) => {
+      Object.assign(addSource(key, 'runtime'), meta);
+    });
+    listKeys.forEach(key => addSource(key, 'nip51'));
+    // Admins only count when there is an allowlist to enforce; on their own
+    // they would turn an open server into a closed one
+    if (enforcing()) {
+      adminKeys.forEach(key => addSource(key, 'admin'));
+    }
+    return [...byKey.values()];
+  };
+
+  // A configured NIP-51 list keeps the server closed even before it has loaded
+  const enforcing = () => envKeys.length > 0 || Boolean(store.read().enforced) || Boolean(listAddress);
+
+  const allowedKeys = () => entries().map(entry => entry.pubkey);
+
+  const applyListEvent = (event: NostrEvent) => {
+    if (!listAddress || event.pubkey !== listAddress.pubkey || event.kind !== listAddress.kind) return;
+    if (listAddress.identifier !== undefined) {
+      const d = event.tags.find(tag => tag[0] === 'd')?.[1] || '';
+      if (d !== listAddress.identifier) return;
+    }
+    if (event.created_at <= listCreatedAt) return;
+
+    listCreatedAt = event.created_at;
+    listKeys = listMembers(event);
+    console.log(`📜 Allowlist NIP-51 list updated: ${listKeys.length} key(s) (event ${event.id.substring(0, 16)}...)`);
+  };
+
+  return {
+    listAddress,
+
+    allowedKeys,
+
+    isEnforced: enforcing,
+
+    // An enforced but empty allowlist admits nobody
+    isAllowed: (pubkey) => !enforcing() || (Boolean(pubkey) && allowedKeys().includes(pubkey!.toLowerCase())),
+
+    isAdmin: (pubkey) => Boolean(pubkey) && adminKeys.includes(pubkey!.toLowerCase()),
+
+    list: entries,
+
+    async add(pubkey, addedBy, note) {
+      const key = normalizePubkey(pubkey);
+      if (store.read().keys[key]) return false;
+      await store.update(doc => {
+        doc.keys[key] = { addedBy, addedAt: Date.now(), ...(note ? { note } : {}) };
+        doc.enforced = true;
+      });
+      console.log(`🔓 Allowlist: added ${key.substring(0, 16)}... (by ${addedBy.substring(0, 16)}...)`);
+      return true;
+    },
+
+    async remove(pubkey) {
+      const key = normalizePubkey(pubkey);
+      if (!store.read().keys[key]) return false;
+      await store.update(doc => {
+        delete doc.keys[key];
+      });
+      console.log(`🔒 Allowlist: removed ${key.substring(0, 16)}...`);
+      return true;
+    },
+
+    startListSync(relayPool) {
+      if (!listAddress || closeSubscription) return;
+
+      const pool = getPoolQueries(relayPool);
+      const relayUrls = getPoolRelayUrls(relayPool);
+      if (!pool || relayUrls.length === 0) {
+        console.warn('⚠️  Allowlist NIP-51 sync unavailable: relay pool is not ready');
+        return;
+      }
+
+      const filter: Filter = { kinds: [listAddress.kind], authors: [listAddress.pubkey] };
+      if (listAddress.identifier !== undefined) {
+        filter['#d'] = [listAddress.identifier];
+      }
+
+      // Live updates, plus a periodic re-fetch in case a relay dropped the subscription
+      const subscription = pool.subscribeMany(relayUrls, filter, {
+        onevent: (event: NostrEvent) => applyListEvent(event)
+      });
+      closeSubscription = () => subscription.close();
+
+      const refresh = () => {
+        pool.querySync(relayUrls, filter, { maxWait: 5000 })
+          .then((events: NostrEvent[]) => events.forEach(applyListEvent))
+          .catch((error: unknown) => console.warn('⚠️  Allowlist NIP-51 refresh failed:', error instanceof Error ? error.message : error));
+      };
+      if (refreshMs > 0) {
+        refreshTimer = setInterval(refresh, refreshMs);
+      }
+    },
+
+    stop() {
+      closeSubscription?.();
+      closeSubscription = undefined;
+      if (refreshTimer) clearInterval(refreshTimer);
+      refreshTimer = undefined;
+    }
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Blossom stand-in check (`npm run check:blossom`)
+ *
+ * Starts three local Blossom stand-ins and runs the server's own client
+ * against them: uploadToBlossom must upload to the first, mirror to the second
+ * (BUD-04) and fall back to a direct upload on the third, which doesn't
+ * support mirroring. The stand-ins verify the kind 24242 authorization like a
+ * real server would. Every URL is then fetched back through fetchMedia and
+ * checked against the blob's hash, and the resulting imeta tag is printed.
+ *
+ * The stand-ins listen on 127.0.0.1, so fetchMedia refuses them unless
+ * MEDIA_ALLOW_PRIVATE=true; the check confirms the refusal first, then sets it.
+ */
+
+import axios from 'axios';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { generateSecretKey, verifyEvent, type Event as NostrEvent } from 'nostr-tools';
+import { BLOSSOM_AUTH_KIND, blobHashFromUrl, imetaTag, sha256Hex, uploadToBlossom } from './utils/blossom.util.js';
+import { fetchMedia } from './utils/media.util.js';
+
+interface StandIn {
+  url: string;
+  server: Server;
+}
+
+/**
+ * Reads a request body
+ */
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Checks a request's Blossom authorization for uploading a blob
+ * @returns Why the request is refused, or undefined if it is authorised
+ */
+function authProblem(req: IncomingMessage, sha256: string): string | undefined {
+  const header = req.headers.authorization || '';
+  if (!header.startsWith('Nostr ')) return 'missing authorization';
+  let event: NostrEvent;
+  try {
+    event = JSON.parse(Buffer.from(header.slice(6), 'base64').toString('utf8'));
+  } catch {
+    return 'malformed authorization';
+  }
+  const tag = (name: string) => event.tags.find(entry => entry[0] === name)?.[1];
+  if (event.kind !== BLOSSOM_AUTH_KIND || !verifyEvent(event)) return 'invalid auth event';
+  if (tag('t') !== 'upload') return 'auth event is not for upload';
+  if (Number(tag('expiration')) <= Math.floor(Date.now() / 1000)) return 'auth event expired';
+  if (tag('x') !== sha256) return 'auth event is for a different blob';
+  return undefined;
+}
+
+/**
+ * Starts a stand-in Blossom server on a free local port
+ * @param mirror Whether it supports PUT /mirror
+ * @returns Promise with its base URL
+ */
+function startStandIn(mirror: boolean): Promise<StandIn> {
+  const blobs = new Map<string, { data: Buffer; type: string }>();
+  let base = '';
+
+  const refuse = (res: ServerResponse, status: number, reason: string) => {
+    res.writeHead(status, { 'X-Reason': reason }).end();
+  };
+  const store = (res: ServerResponse, data: Buffer, type: string) => {
+    const sha256 = sha256Hex(data);
+    blobs.set(sha256, { data, type });
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      url: `${base}/${sha256}`,
+      sha256,
+      size: data.length,
+      type,
+      uploaded: Math.floor(Date.now() / 1000)
+    }));
+  };
+
+  const server = createServer(async (req, res) => {
+    try {
+      const path = new URL(req.url || '/', base).pathname;
+      if (req.method === 'GET') {
+        const blob = blobs.get(blobHashFromUrl(`${base}${path}`) || '');
+        if (!blob) return refuse(res, 404, 'blob not found');
+        res.writeHead(200, { 'Content-Type': blob.type, 'Content-Length': blob.data.length }).end(blob.data);
+      } else if (req.method === 'PUT' && path === '/upload') {
+        const data = await readBody(req);
+        const problem = authProblem(req, sha256Hex(data));
+        if (problem) return refuse(res, 401, problem);
+        store(res, data, req.headers['content-type'] || 'application/octet-stream');
+      } else if (req.method === 'PUT' && path === '/mirror' && mirror) {
+        const { url } = JSON.parse((await readBody(req)).toString('utf8'));
+        const source = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer' });
+        const data = Buffer.from(source.data);
+        const problem = authProblem(req, sha256Hex(data));
+        if (problem) return refuse(res, 401, problem);
+        store(res, data, String(source.headers['content-type'] || 'application/octet-stream'));
+      } else {
+        refuse(res, 404, 'not supported');
+      }
+    } catch (error) {
+      refuse(res, 500, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve({ url: base, server });
+    });
+  });
+}
+
+/**
+ * Throws if a condition doesn't hold
+ */
+function check(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+  console.log(`   ✅ ${message}`);
+}
+
+async function main() {
+  const standIns = [await startStandIn(true), await startStandIn(true), await startStandIn(false)];
+  try {
+    // A small blob that sniffs as PNG
+    const blob = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from(`stand-in ${Date.now()}`)]);
+    const upload = await uploadToBlossom(blob, {
+      privateKey: Buffer.from(generateSecretKey()).toString('hex'),
+      mime: 'image/png',
+      servers: standIns.map(standIn => standIn.url),
+      description: 'Blossom stand-in check'
+    });
+
+    console.log('🔎 Checking the upload');
+    check(upload.sha256 === sha256Hex(blob) && upload.size === blob.length, 'hash and size match the blob');
+    check(upload.results.map(result => result.via).join(',') === 'upload,mirror,upload', 'uploaded, mirrored, then uploaded where mirroring is unsupported');
+    check(upload.urls.length === standIns.length, `stored on all ${standIns.length} stand-ins`);
+
+    console.log('🔎 Fetching the blob back');
+    delete process.env.MEDIA_ALLOW_PRIVATE;
+    const refused = await fetchMedia(upload.urls[0]).then(() => false, () => true);
+    check(refused, 'local URLs are refused without MEDIA_ALLOW_PRIVATE');
+    process.env.MEDIA_ALLOW_PRIVATE = 'true';
+    for (const url of upload.urls) {
+      const data = await fetchMedia(url);
+      check(sha256Hex(data) === upload.sha256, `${url} serves the blob`);
+    }
+
+    const tag = imetaTag(upload, { alt: 'Blossom stand-in check' });
+    check(tag.filter(entry => entry.startsWith('fallback ')).length === upload.urls.length - 1, 'imeta tag lists the other servers as fallbacks');
+    console.log(`🏷️  ${JSON.stringify(tag)}`);
+    console.log('🌸 Blossom stand-in check passed');
+  } finally {
+    standIns.forEach(standIn => standIn.server.close());
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Blossom stand-in check failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,145 @@
+/**
+ * Credit ledger for paid tool calls
+ *
+ * Sats redeemed through cashu_access are credited to the calling client's
+ * pubkey. Tools with a price (TOOL_PRICE_<TOOL>, in sats) debit the caller's
+ * balance before they run; calls that fail are refunded. Balances and a
+ * bounded transaction history are persisted in a JSON file store
+ * (CREDITS_FILE, default data/credits.json).
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createJsonStore, dataFilePath, type JsonStore } from '../utils/jsonStore.util.js';
+
+/**
+ * A ledger entry
+ */
+export interface CreditTransaction {
+  pubkey: string;
+  /** Positive for credits and refunds, negative for debits */
+  amount: number;
+  balance: number;
+  reason: string;
+  at: number;
+}
+
+export interface CreditLedger {
+  /** Price of a tool call in sats (0 = free) */
+  priceOf(tool: string): number;
+  /** Tools with a non-zero price */
+  prices(): Record<string, number>;
+  balanceOf(pubkey: string): number;
+  credit(pubkey: string, amount: number, reason: string): Promise<number>;
+  /** Debits the price of a call; throws an "insufficient credit" McpError if the balance is too low */
+  charge(pubkey: string, tool: string): Promise<number>;
+  refund(pubkey: string, amount: number, reason: string): Promise<number>;
+  history(pubkey: string, limit?: number): CreditTransaction[];
+}
+
+interface CreditDocument {
+  balances: Record<string, number>;
+  transactions: CreditTransaction[];
+}
+
+export interface CreditLedgerOptions {
+  /** Tool names to read prices for */
+  tools: string[];
+  /** JSON file backing the ledger (default CREDITS_FILE or data/credits.json) */
+  filePath?: string;
+  /** Transactions kept in the history (default 1000) */
+  maxTransactions?: number;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Reads per-tool prices from TOOL_PRICE_<TOOL> (tool name upper-cased,
+ * non-alphanumerics -> "_"), in sats
+ * @param tools Tool names
+ * @param env Environment (default process.env)
+ * @returns Prices of the tools that cost something
+ */
+export function readToolPrices(tools: string[], env: NodeJS.ProcessEnv = process.env): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const tool of tools) {
+    const raw = env[`TOOL_PRICE_${tool.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`];
+    const price = raw ? parseInt(raw, 10) : 0;
+    if (Number.isFinite(price) && price > 0) {
+      prices[tool] = price;
+    }
+  }
+  return prices;
+}
+
+/**
+ * Creates the credit ledger
+ * @param options Tool names (for pricing) and storage settings
+ * @returns CreditLedger
+ */
+export function createCreditLedger(options: CreditLedgerOptions): CreditLedger {
+  const filePath = options.filePath || options.env?.CREDITS_FILE || process.env.CREDITS_FILE || dataFilePath('credits.json');
+  const maxTransactions = options.maxTransactions ?? 1000;
+  const priceTable = readToolPrices(options.tools, options.env);
+
+  const store: JsonStore<CreditDocument> = createJsonStore<CreditDocument>(filePath, () => ({ balances: {}, transactions: [] }));
+
+  const balanceOf = (pubkey: string) => store.read().balances[pubkey] || 0;
+
+  // Applies a balance change and records it; runs synchronously inside the
+  // store update so a check-then-debit can't race another call
+  const apply = async (pubkey: string, amount: number, reason: string, check?: (balance: number) => void) => {
+    let balance = 0;
+    await store.update(doc => {
+      const current = doc.balances[pubkey] || 0;
+      check?.(current);
+      balance = current + amount;
+      doc.balances[pubkey] = balance;
+      doc.transactions.push({ pubkey, amount, balance, reason, at: Date.now() });
+      if (doc.transactions.length > maxTransactions) {
+        doc.transactions.splice(0, doc.transactions.length - maxTransactions);
+      }
+    });
+    return balance;
+  };
+
+  return {
+    priceOf: (tool) => priceTable[tool] || 0,
+
+    prices: () => ({ ...priceTable }),
+
+    balanceOf,
+
+    async credit(pubkey, amount, reason) {
+      const balance = await apply(pubkey, Math.floor(amount), reason);
+      console.log(`💰 Credited ${amount} sats to ${pubkey.substring(0, 16)}... (${reason}); balance ${balance}`);
+      return balance;
+    },
+
+    async charge(pubkey, tool) {
+      const price = priceTable[tool] || 0;
+      if (price === 0) return balanceOf(pubkey);
+
+      const balance = await apply(pubkey, -price, `call ${tool}`, current => {
+        if (current < price) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Insufficient credit: ${tool} costs ${price} sats but your balance is ${current} sats. Redeem a Cashu token with cashu_access to top up.`,
+            { reason: 'insufficient_credit', tool, price, balance: current }
+          );
+        }
+      });
+      console.log(`💸 Charged ${price} sats to ${pubkey.substring(0, 16)}... for ${tool}; balance ${balance}`);
+      return balance;
+    },
+
+    async refund(pubkey, amount, reason) {
+      if (amount <= 0) return balanceOf(pubkey);
+      const balance = await apply(pubkey, amount, reason);
+      console.log(`↩️  Refunded ${amount} sats to ${pubkey.substring(0, 16)}... (${reason}); balance ${balance}`);
+      return balance;
+    },
+
+    history(pubkey, limit = 20) {
+      return store.read().transactions.filter(entry => entry.pubkey === pubkey).slice(-limit);
+    }
+  };
+}
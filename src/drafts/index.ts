@@ -0,0 +1,108 @@
+/**
+ * Draft store for persona notes awaiting human review
+ *
+ * summarise, weekly_summary and roastNpub called with `publish: false`
+ * generate their note but don't publish it. The unsigned note is stored here
+ * under a draft id until someone releases it with publish_draft (optionally
+ * with edited text) or drops it with discard_draft. Drafts are persisted in a
+ * JSON file store (DRAFTS_FILE, default data/drafts.json) and expire after
+ * DRAFT_RETENTION_HOURS.
+ */
+
+import { randomUUID } from 'crypto';
+import { createJsonStore, dataFilePath, type JsonStore } from '../utils/jsonStore.util.js';
+import type { NoteTemplate } from '../utils/summarise.util.js';
+
+/**
+ * A stored draft
+ */
+export interface Draft {
+  id: string;
+  /** Tool that generated the note */
+  tool: string;
+  /** Persona the note will be signed as */
+  persona: string;
+  /** Hex pubkey of the person the note is about */
+  subjectPubkey: string;
+  /** Generated text, before the persona's header/footer are applied */
+  text: string;
+  /** The exact unsigned note that publish_draft signs */
+  note: NoteTemplate;
+  /** Why content moderation held the note, if it did */
+  moderationReasons?: string[];
+  /** Hex pubkey of the client that created the draft; only it can release it */
+  clientPubkey?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface DraftStore {
+  create(draft: Omit<Draft, 'id' | 'createdAt' | 'expiresAt'>): Promise<Draft>;
+  get(id: string): Draft | undefined;
+  /** Removes a draft and returns it, so only one caller can release it */
+  take(id: string): Promise<Draft | undefined>;
+  /** Puts back a draft taken for a publish that failed */
+  restore(draft: Draft): Promise<void>;
+}
+
+interface DraftDocument {
+  drafts: Draft[];
+}
+
+export interface DraftStoreOptions {
+  /** JSON file backing the store (default DRAFTS_FILE or data/drafts.json) */
+  filePath?: string;
+  /** How long drafts are kept (default DRAFT_RETENTION_HOURS or 72) */
+  retentionMs?: number;
+}
+
+/**
+ * Creates the draft store
+ * @param options Storage settings
+ * @returns DraftStore
+ */
+export function createDraftStore(options: DraftStoreOptions = {}): DraftStore {
+  const filePath = options.filePath || process.env.DRAFTS_FILE || dataFilePath('drafts.json');
+  const retentionMs = options.retentionMs ?? parseFloat(process.env.DRAFT_RETENTION_HOURS || '72') * 60 * 60 * 1000;
+
+  const store: JsonStore<DraftDocument> = createJsonStore<DraftDocument>(filePath, () => ({ drafts: [] }));
+
+  const find = (id: string) => store.read().drafts.find(draft => draft.id === id && draft.expiresAt > Date.now());
+
+  const prune = () =>
+    store.update(doc => {
+      doc.drafts = doc.drafts.filter(draft => draft.expiresAt > Date.now());
+    });
+
+  return {
+    async create(input) {
+      const now = Date.now();
+      const draft: Draft = { ...input, id: randomUUID(), createdAt: now, expiresAt: now + retentionMs };
+      await prune();
+      await store.update(doc => { doc.drafts.push(draft); });
+      console.log(`📝 Draft ${draft.id} saved (${draft.tool} as ${draft.persona})`);
+      return draft;
+    },
+
+    get: find,
+
+    async take(id) {
+      let taken: Draft | undefined;
+      await store.update(doc => {
+        const index = doc.drafts.findIndex(draft => draft.id === id && draft.expiresAt > Date.now());
+        if (index >= 0) {
+          taken = doc.drafts.splice(index, 1)[0];
+        }
+      });
+      return taken;
+    },
+
+    async restore(draft) {
+      await store.update(doc => {
+        if (!doc.drafts.some(existing => existing.id === draft.id)) {
+          doc.drafts.push(draft);
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * Persistent job queue for long-running tools
+ *
+ * Tools that can outlive a client's request timeout (LLM generation followed by
+ * PoW mining, remote montage jobs, ...) can be called with `async: true`. The
+ * call is then recorded as a job in a JSON file store and answered with a job
+ * id straight away; a worker runs the tool in the background and stores the
+ * result. Clients poll with job_status / job_result and can stop a job with
+ * job_cancel. Jobs that were queued or running when the server stopped are
+ * picked up again on the next start, except those that had already sent an
+ * event to relays: running them again would publish a second note.
+ */
+
+import { randomUUID } from 'crypto';
+import { createJsonStore, dataFilePath, type JsonStore } from '../utils/jsonStore.util.js';
+import { textResult, type ToolResult } from '../tools/types.js';
+import type { CreditLedger } from '../credits/index.js';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A persisted job record
+ */
+export interface Job {
+  id: string;
+  tool: string;
+  /** Validated tool arguments (without the `async` flag) */
+  args: Record<string, unknown>;
+  /** Hex pubkey of the client that queued the job; only it can see the job */
+  clientPubkey?: string;
+  /** Sats charged when the job was queued */
+  charged?: number;
+  status: JobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** How many times a worker has started this job (restarts included) */
+  attempts: number;
+  progress?: { progress: number; total?: number; message?: string };
+  /** Id of the event the job sent to relays, recorded before sending */
+  publishedEventId?: string;
+  result?: ToolResult;
+  error?: string;
+}
+
+/**
+ * Hooks handed to the executor while a job runs
+ */
+export interface JobRunHooks {
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+  /** Records progress on the job record */
+  onProgress: (progress: number, total?: number, message?: string) => Promise<void>;
+  /** Records the id of an event about to be sent to relays */
+  onPublishing: (eventId: string) => Promise<void>;
+}
+
+export type JobExecutor = (job: Job, hooks: JobRunHooks) => Promise<ToolResult>;
+
+export interface JobQueueOptions {
+  /** Runs a job's tool; normally dispatches through the tool registry */
+  execute: JobExecutor;
+  /** JSON file backing the queue (default JOBS_FILE or data/jobs.json) */
+  filePath?: string;
+  /** Jobs run at the same time (default JOB_CONCURRENCY or 1) */
+  concurrency?: number;
+  /** How long finished jobs are kept (default JOB_RETENTION_HOURS or 24) */
+  retentionMs?: number;
+  /** Attempts before a job interrupted by restarts is failed (default JOB_MAX_ATTEMPTS or 3) */
+  maxAttempts?: number;
+  /** Ledger that jobs given up after too many restarts are refunded to */
+  credits?: CreditLedger;
+}
+
+/**
+ * Who queued a job and what it was charged
+ */
+export interface JobOwner {
+  clientPubkey?: string;
+  charged?: number;
+}
+
+export interface JobQueue {
+  enqueue(tool: string, args: Record<string, unknown>, owner?: JobOwner): Promise<Job>;
+  get(id: string): Job | undefined;
+  cancel(id: string): Promise<Job | undefined>;
+  /** Resumes jobs left over from a previous run and starts the worker */
+  start(): void;
+  /** Stops starting new jobs; running jobs keep their persisted state */
+  stop(): void;
+}
+
+interface JobDocument {
+  jobs: Job[];
+}
+
+const FINISHED: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+/**
+ * Whether a job has reached a final state
+ * @param job The job
+ * @returns true for succeeded, failed and cancelled jobs
+ */
+export function isFinished(job: Job): boolean {
+  return FINISHED.includes(job.status);
+}
+
+/**
+ * Renders a job's status as a compact JSON-friendly summary (no result body)
+ * @param job The job
+ * @returns Summary object
+ */
+export function describeJob(job: Job) {
+  return {
+    jobId: job.id,
+    tool: job.tool,
+    status: job.status,
+    createdAt: new Date(job.createdAt).toISOString(),
+    ...(job.startedAt ? { startedAt: new Date(job.startedAt).toISOString() } : {}),
+    ...(job.finishedAt ? { finishedAt: new Date(job.finishedAt).toISOString() } : {}),
+    attempts: job.attempts,
+    ...(job.progress ? { progress: job.progress } : {}),
+    ...(job.publishedEventId ? { publishedEventId: job.publishedEventId } : {}),
+    ...(job.error ? { error: job.error } : {})
+  };
+}
+
+/**
+ * Creates the job queue
+ * @param options Executor and storage/concurrency settings
+ * @returns JobQueue
+ */
+export function createJobQueue(options: JobQueueOptions): JobQueue {
+  const filePath = options.filePath || process.env.JOBS_FILE || dataFilePath('jobs.json');
+  const concurrency = Math.max(1, options.concurrency ?? parseInt(process.env.JOB_CONCURRENCY || '1', 10));
+  const retentionMs = options.retentionMs ?? parseFloat(process.env.JOB_RETENTION_HOURS || '24') * 60 * 60 * 1000;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10));
+
+  const store: JsonStore<JobDocument> = createJsonStore<JobDocument>(filePath, () => ({ jobs: [] }));
+  const running = new Map<string, AbortController>();
+  let started = false;
+
+  const find = (id: string) => store.read().jobs.find(job => job.id === id);
+
+  const patch = (id: string, changes: Partial<Job>) =>
+    store.update(doc => {
+      const job = doc.jobs.find(candidate => candidate.id === id);
+      if (job) Object.assign(job, changes);
+    });
+
+  const prune = () =>
+    store.update(doc => {
+      const cutoff = Date.now() - retentionMs;
+      doc.jobs = doc.jobs.filter(job => !isFinished(job) || (job.finishedAt ?? job.createdAt) >= cutoff);
+    });
+
+  const run = async (job: Job, controller: AbortController) => {
+    await patch(job.id, { status: 'running', startedAt: Date.now(), attempts: job.attempts + 1 });
+    console.log(`⚙️  Job ${job.id} started (${job.tool}, attempt ${job.attempts})`);
+
+    const hooks: JobRunHooks = {
+      signal: controller.signal,
+      onProgress: async (progress, total, message) => {
+        if (controller.signal.aborted) return;
+        await patch(job.id, { progress: { progress, ...(typeof total === 'number' ? { total } : {}), ...(message ? { message } : {}) } });
+      },
+      onPublishing: async eventId => {
+        await patch(job.id, { publishedEventId: eventId });
+      }
+    };
+
+    try {
+      const result = await options.execute(job, hooks);
+      if (controller.signal.aborted) return;
+      await patch(job.id, {
+        status: result.isError ? 'failed' : 'succeeded',
+        finishedAt: Date.now(),
+        result,
+        ...(result.isError ? { error: result.content.map(item => item.text).join('\n') } : {})
+      });
+      console.log(`✅ Job ${job.id} ${result.isError ? 'failed' : 'succeeded'}`);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const message = error instanceof Error ? error.message : String(error);
+      await patch(job.id, { status: 'failed', finishedAt: Date.now(), error: message });
+      console.error(`❌ Job ${job.id} failed:`, message);
+    } finally {
+      running.delete(job.id);
+    }
+  };
+
+  const pump = () => {
+    if (!started) return;
+    while (running.size < concurrency) {
+      const next = store.read().jobs.find(job => job.status === 'queued' && !running.has(job.id));
+      if (!next) return;
+      // Reserve the slot synchronously so the loop does not pick the same job twice
+      const controller = new AbortController();
+      running.set(next.id, controller);
+      run(next, controller).finally(() => pump());
+    }
+  };
+
+  return {
+    async enqueue(tool, args, owner = {}) {
+      const job: Job = {
+        id: randomUUID(),
+        tool,
+        args,
+        ...(owner.clientPubkey ? { clientPubkey: owner.clientPubkey } : {}),
+        ...(owner.charged ? { charged: owner.charged } : {}),
+        status: 'queued',
+        createdAt: Date.now(),
+        attempts: 0
+      };
+      await prune();
+      await store.update(doc => { doc.jobs.push(job); });
+      console.log(`📥 Job ${job.id} queued (${tool})`);
+      pump();
+      return find(job.id)!;
+    },
+
+    get: find,
+
+    async cancel(id) {
+      const job = find(id);
+      if (!job || isFinished(job)) return job;
+
+      running.get(id)?.abort();
+      await patch(id, { status: 'cancelled', finishedAt: Date.now() });
+      console.log(`🛑 Job ${id} cancelled`);
+      return find(id);
+    },
+
+    start() {
+      if (started) return;
+      started = true;
+
+      // Jobs interrupted by a restart go back on the queue, unless they keep failing
+      // or already sent their event (a re-run would publish it a second time)
+      const interrupted = store.read().jobs.filter(job => job.status === 'running' && !job.publishedEventId);
+      const queued = store.read().jobs.filter(job => job.status === 'queued').length;
+      const abandoned: Job[] = [];
+      store.update(doc => {
+        doc.jobs.forEach(job => {
+          if (job.status !== 'running') return;
+          if (job.publishedEventId) {
+            Object.assign(job, {
+              status: 'succeeded',
+              finishedAt: Date.now(),
+              result: textResult(`Event ${job.publishedEventId} was sent to relays before the server restarted; the job was not run again so it is not published twice. Relay receipts were not collected.`)
+            });
+            console.log(`⏭️  Job ${job.id} already published ${job.publishedEventId}; not resuming`);
+          } else if (job.attempts >= maxAttempts) {
+            Object.assign(job, { status: 'failed', finishedAt: Date.now(), error: `Interrupted ${job.attempts} times by server restarts` });
+            abandoned.push({ ...job });
+          } else {
+            job.status = 'queued';
+          }
+        });
+      }).then(async () => {
+        // Nothing was published, so the failure is refunded like any other
+        for (const job of abandoned) {
+          if (job.charged && job.clientPubkey && options.credits) {
+            await options.credits.refund(job.clientPubkey, job.charged, `${job.tool} job interrupted by restarts`);
+          }
+        }
+      }).then(prune).then(() => {
+        if (interrupted.length + queued > 0) {
+          console.log(`🔁 Resuming ${interrupted.length + queued} job(s) from ${filePath}`);
+        }
+        pump();
+      });
+    },
+
+    stop() {
+      started = false;
+    }
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * LLM provider configuration
+ *
+ * Picks the provider (and optional model) for each tool from the environment:
+ *
+ *   LLM_PROVIDER=openrouter|openai-compatible|mock   default for all tools
+ *   LLM_PROVIDER_<TOOL>=...                          per-tool provider
+ *   LLM_MODEL_<TOOL>=...                             per-tool model override
+ *
+ * <TOOL> is the tool name upper-cased with non-alphanumerics replaced by "_",
+ * e.g. LLM_PROVIDER_WEEKLY_SUMMARY or LLM_MODEL_ROASTNPUB.
+ *
+ * openrouter:         OPEN_ROUTER_KEY
+ * openai-compatible:  OPENAI_COMPAT_BASE_URL, OPENAI_COMPAT_MODEL,
+ *                     OPENAI_COMPAT_VISION_MODEL (optional), OPENAI_COMPAT_API_KEY (optional)
+ * mock:               LLM_MOCK_RESPONSE (optional fixed response)
+ */
+
+import { createOpenRouterProvider } from './openrouter.provider.js';
+import { createOpenAICompatibleProvider } from './openaiCompatible.provider.js';
+import { createMockProvider } from './mock.provider.js';
+import type { LLMProvider, LLMSelection } from './types.js';
+
+export const PROVIDER_KINDS = ['openrouter', 'openai-compatible', 'mock'] as const;
+export type ProviderKind = typeof PROVIDER_KINDS[number];
+
+export interface LLMConfig {
+  /** Provider used by tools without a per-tool override */
+  defaultKind: ProviderKind;
+  /** Resolves the provider and model override configured for a tool */
+  forTool(tool: string): LLMSelection;
+  /** Provider kind configured for a tool */
+  kindForTool(tool: string): ProviderKind;
+}
+
+/**
+ * Converts a tool name into its environment variable suffix
+ * @param tool Tool name, e.g. "weekly_summary"
+ * @returns Suffix, e.g. "WEEKLY_SUMMARY"
+ */
+export function toolEnvSuffix(tool: string): string {
+  return tool.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+function parseKind(value: string | undefined, source: string): ProviderKind | undefined {
+  if (!value || value.trim().length === 0) return undefined;
+  const kind = value.trim().toLowerCase();
+  if (!(PROVIDER_KINDS as readonly string[]).includes(kind)) {
+    throw new Error(`Invalid ${source} "${value}". Expected one of: ${PROVIDER_KINDS.join(', ')}`);
+  }
+  return kind as ProviderKind;
+}
+
+/**
+ * Builds the LLM configuration from environment variables
+ * @param env Environment (defaults to process.env)
+ * @returns LLMConfig
+ */
+export function createLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const defaultKind = parseKind(env.LLM_PROVIDER, 'LLM_PROVIDER') || 'openrouter';
+  const providers = new Map<ProviderKind, LLMProvider>();
+
+  // Providers are created on first use so a missing key only breaks the tools that need it
+  const getProvider = (kind: ProviderKind): LLMProvider => {
+    const existing = providers.get(kind);
+    if (existing) return existing;
+
+    let provider: LLMProvider;
+    switch (kind) {
+      case 'openrouter': {
+        if (!env.OPEN_ROUTER_KEY) {
+          throw new Error("OPEN_ROUTER_KEY not configured. Please set it in .env file");
+        }
+        provider = createOpenRouterProvider({ apiKey: env.OPEN_ROUTER_KEY });
+        break;
+      }
+      case 'openai-compatible': {
+        if (!env.OPENAI_COMPAT_BASE_URL || !env.OPENAI_COMPAT_MODEL) {
+          throw new Error("OPENAI_COMPAT_BASE_URL and OPENAI_COMPAT_MODEL must be set to use the openai-compatible provider");
+        }
+        provider = createOpenAICompatibleProvider({
+          baseUrl: env.OPENAI_COMPAT_BASE_URL,
+          apiKey: env.OPENAI_COMPAT_API_KEY || undefined,
+          model: env.OPENAI_COMPAT_MODEL,
+          visionModel: env.OPENAI_COMPAT_VISION_MODEL || undefined
+        });
+        break;
+      }
+      case 'mock': {
+        provider = createMockProvider({ response: env.LLM_MOCK_RESPONSE || undefined });
+        break;
+      }
+    }
+
+    providers.set(kind, provider);
+    return provider;
+  };
+
+  const kindForTool = (tool: string): ProviderKind => {
+    const suffix = toolEnvSuffix(tool);
+    return parseKind(env[`LLM_PROVIDER_${suffix}`], `LLM_PROVIDER_${suffix}`) || defaultKind;
+  };
+
+  return {
+    defaultKind,
+    kindForTool,
+    forTool(tool: string): LLMSelection {
+      const model = env[`LLM_MODEL_${toolEnvSuffix(tool)}`];
+      return {
+        tool,
+        provider: getProvider(kindForTool(tool)),
+        model: model && model.trim().length > 0 ? model.trim() : undefined
+      };
+    }
+  };
+}
+
+export type { LLMProvider, LLMSelection, ChatMessage, MessageContent, CompletionRequest, CompletionResult } from './types.js';
@@ -0,0 +1,63 @@
+/**
+ * Deterministic mock provider
+ *
+ * Returns a canned response derived from a hash of the request, so the same
+ * input always produces the same output. Used to exercise tool flows
+ * (generation, signing, PoW, publishing) without spending tokens.
+ */
+
+import { createHash } from 'crypto';
+import type { CompletionRequest, CompletionResult, LLMProvider, ModelHint } from './types.js';
+
+export interface MockOptions {
+  /** Fixed response text; when unset a response is derived from the input */
+  response?: string;
+}
+
+/**
+ * Extracts the text of the last user message
+ * @param request The completion request
+ * @returns Plain text of the last user message
+ */
+function lastUserText(request: CompletionRequest): string {
+  const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+  if (!lastUser) return '';
+  if (typeof lastUser.content === 'string') return lastUser.content;
+  return lastUser.content
+    .map(part => (part.type === 'text' ? part.text : `[image ${part.image_url.url}]`))
+    .join(' ');
+}
+
+/**
+ * Creates the mock provider
+ * @param options Optional fixed response
+ * @returns LLMProvider
+ */
+export function createMockProvider(options: MockOptions = {}): LLMProvider {
+  return {
+    name: 'mock',
+
+    resolveModel(hint: ModelHint): string {
+      return hint.override || (hint.tool ? `mock/${hint.tool}` : 'mock/default');
+    },
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const digest = createHash('sha256')
+        .update(JSON.stringify({ model: request.model, messages: request.messages }))
+        .digest('hex')
+        .substring(0, 12);
+
+      const input = lastUserText(request).replace(/\s+/g, ' ').trim();
+      const content = options.response
+        ?? `[mock ${digest}] ${input.length > 120 ? `${input.substring(0, 120)}...` : input}`;
+
+      console.log(`🧪 Mock LLM response (${request.model}): ${content.substring(0, 80)}`);
+
+      return {
+        content,
+        model: request.model,
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+      };
+    }
+  };
+}
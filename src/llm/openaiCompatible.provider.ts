@@ -0,0 +1,127 @@
+/**
+ * Generic OpenAI-compatible chat/completions provider
+ *
+ * Works against any server exposing POST {baseUrl}/chat/completions, such as
+ * a self-hosted llama.cpp server or Ollama (http://localhost:11434/v1).
+ * OpenRouter is built on top of this with its own headers and routing.
+ */
+
+import axios from 'axios';
+import type { CompletionRequest, CompletionResult, LLMProvider, ModelHint } from './types.js';
+
+// Interface for the chat/completions API response
+interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface OpenAICompatibleOptions {
+  /** Provider name used in logs and selection */
+  name?: string;
+  /** Base URL including the API prefix, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  /** Model used for text-only requests */
+  model: string;
+  /** Model used when the request carries images (defaults to `model`) */
+  visionModel?: string;
+  /** Per-tool default models, e.g. { weekly_summary: 'x-ai/grok-4' } */
+  toolModels?: Record<string, string>;
+  /** Extra HTTP headers sent with every request */
+  headers?: Record<string, string>;
+  /** Extra body fields for a given model (e.g. provider routing) */
+  extraBody?: (model: string) => Record<string, unknown> | undefined;
+  /** Request timeout in ms (default 120000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Creates a provider for an OpenAI-compatible chat/completions endpoint
+ * @param options Endpoint, credentials and model configuration
+ * @returns LLMProvider
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const name = options.name || 'openai-compatible';
+  const endpoint = `${options.baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  return {
+    name,
+
+    resolveModel(hint: ModelHint): string {
+      if (hint.override) return hint.override;
+      if (hint.tool && options.toolModels?.[hint.tool]) return options.toolModels[hint.tool];
+      return hint.hasImages ? (options.visionModel || options.model) : options.model;
+    },
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const requestPayload: Record<string, unknown> = {
+        model: request.model,
+        messages: request.messages,
+        ...(options.extraBody?.(request.model) || {})
+      };
+
+      console.log(`🚀 Calling ${name} API`);
+      console.log(`   URL: ${endpoint}`);
+      console.log(`   Model: ${request.model}`);
+
+      try {
+        const response = await axios.post<ChatCompletionResponse>(
+          endpoint,
+          requestPayload,
+          {
+            headers: {
+              ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+              'Content-Type': 'application/json',
+              ...(options.headers || {})
+            },
+            timeout: options.timeoutMs ?? 120000
+          }
+        );
+
+        console.log(`✅ ${name} API Response received`);
+        console.log(`   Model: ${response.data.model}`);
+        console.log(`   Finish Reason: ${response.data.choices?.[0]?.finish_reason}`);
+        console.log(`   Usage: ${JSON.stringify(response.data.usage)}`);
+
+        const responseContent = response.data.choices?.[0]?.message?.content;
+        if (!responseContent) {
+          throw new Error(`No content received from ${name} API`);
+        }
+
+        return {
+          content: responseContent,
+          model: response.data.model || request.model,
+          usage: response.data.usage
+        };
+      } catch (error) {
+        console.error(`❌ Error calling ${name} API:`, axios.isAxiosError(error) ? error.message : error);
+
+        // Log more details if it's an axios error
+        if (axios.isAxiosError(error)) {
+          console.error('   Status:', error.response?.status);
+          console.error('   Status Text:', error.response?.statusText);
+          console.error('   Response Data:', JSON.stringify(error.response?.data, null, 2));
+          console.error('   Request URL:', error.config?.url);
+        }
+
+        // Re-throw the error for the caller to handle
+        throw error;
+      }
+    }
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * OpenRouter provider
+ *
+ * OpenRouter speaks the OpenAI chat/completions format; on top of that we add
+ * attribution headers and upstream provider routing (e.g. gpt-oss via Groq).
+ */
+
+import { createOpenAICompatibleProvider } from './openaiCompatible.provider.js';
+import type { LLMProvider } from './types.js';
+
+export interface OpenRouterOptions {
+  apiKey: string;
+  baseUrl?: string;
+  /** Default text-only model */
+  model?: string;
+  /** Default model when images are present */
+  visionModel?: string;
+  /** Per-tool default models */
+  toolModels?: Record<string, string>;
+  /** Upstream provider order per model id */
+  routing?: Record<string, string[]>;
+}
+
+export const OPENROUTER_DEFAULTS = {
+  baseUrl: 'https://openrouter.ai/api/v1',
+  model: 'openai/gpt-oss-120b',
+  visionModel: 'google/gemini-2.0-flash-001',
+  // Per-tool models normally come from the persona definitions (personas.json)
+  toolModels: {} as Record<string, string>,
+  routing: {
+    'openai/gpt-oss-120b': ['Groq'],
+    'x-ai/grok-2-1212': ['x-ai'],
+  } as Record<string, string[]>,
+};
+
+/**
+ * Creates an OpenRouter provider
+ * @param options API key and optional model/routing overrides
+ * @returns LLMProvider
+ */
+export function createOpenRouterProvider(options: OpenRouterOptions): LLMProvider {
+  const routing = options.routing || OPENROUTER_DEFAULTS.routing;
+
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: options.baseUrl || OPENROUTER_DEFAULTS.baseUrl,
+    apiKey: options.apiKey,
+    model: options.model || OPENROUTER_DEFAULTS.model,
+    visionModel: options.visionModel || OPENROUTER_DEFAULTS.visionModel,
+    toolModels: { ...OPENROUTER_DEFAULTS.toolModels, ...(options.toolModels || {}) },
+    headers: {
+      'HTTP-Referer': 'https://cvm-nostr-server',
+      'X-Title': 'CVM Nostr Server'
+    },
+    extraBody: (model) => routing[model] ? { provider: { order: routing[model] } } : undefined
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Shared types for the LLM provider layer
+ *
+ * Providers speak the OpenAI chat/completions message shape (which OpenRouter,
+ * llama.cpp and Ollama all accept). Tools never talk to a provider directly;
+ * they ask the LLM config for the selection configured for that tool.
+ */
+
+// Content types for multimodal messages
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContent {
+  type: 'image_url';
+  image_url: {
+    url: string;
+  };
+}
+
+export type MessageContent = TextContent | ImageContent;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | MessageContent[];
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Options used by a provider to pick a model for a call
+ */
+export interface ModelHint {
+  /** Tool the call is made for, e.g. "weekly_summary" */
+  tool?: string;
+  /** Whether the request carries image content */
+  hasImages: boolean;
+  /** Explicit model id, wins over everything else */
+  override?: string;
+}
+
+export interface LLMProvider {
+  /** Provider kind, e.g. "openrouter", "openai-compatible", "mock" */
+  readonly name: string;
+  resolveModel(hint: ModelHint): string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * The provider (and optional model override) configured for one tool
+ */
+export interface LLMSelection {
+  tool: string;
+  provider: LLMProvider;
+  model?: string;
+}
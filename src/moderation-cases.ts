@@ -0,0 +1,47 @@
+/**
+ * Moderation rule cases (`npm run check:moderation`)
+ *
+ * Runs the local doxxing rules over text that must be flagged (phone numbers,
+ * email and IP addresses) and text that ordinary summaries contain and must
+ * pass (year ranges, dates, scores, grouped amounts, timestamps).
+ */
+
+import { checkLocalRules, type ModerationRules } from './moderation/index.js';
+
+const rules: ModerationRules = { blockedTerms: [], blockedPatterns: [], doxxing: true };
+
+const FLAGGED = [
+  'Call me on +44 20 7946 0958 tonight',
+  'Ring 555-123-4567 for the details',
+  'Their number is (555) 123-4567',
+  'DM +15551234567 for alpha',
+  'Office: 020 7946 0958',
+  'Appelez le 01 23 45 67 89',
+  'Lives at 192.168.1.20',
+  'Mail them at someone@example.com'
+];
+
+const PASSING = [
+  'From 2023-2024 they zapped everyone',
+  'They scored 120 300 points this week',
+  'Posted on 2024-01-15 at 12:30',
+  'Stacked 10 000 000 000 sats',
+  'Block 850 123 was mined',
+  'Timestamp 1700000000 says hi',
+  'Version 1.2.3 shipped, 4.5 stars'
+];
+
+function main() {
+  const failures = [
+    ...FLAGGED.filter(text => !checkLocalRules(text, rules).flagged).map(text => `not flagged: "${text}"`),
+    ...PASSING.filter(text => checkLocalRules(text, rules).flagged).map(text => `flagged: "${text}" (${checkLocalRules(text, rules).reasons.join('; ')})`)
+  ];
+  console.log(`🛡️  ${FLAGGED.length} texts that must be flagged, ${PASSING.length} that must pass`);
+  if (failures.length > 0) {
+    failures.forEach(failure => console.error(`   ❌ ${failure}`));
+    process.exit(1);
+  }
+  console.log('✅ Moderation cases passed');
+}
+
+main();
@@ -0,0 +1,315 @@
+/**
+ * Pre-publish content moderation for generated notes
+ *
+ * Persona notes are checked after generation and before anything is signed:
+ * - local rules: blocked terms, blocked regexes, a maximum length and doxxing
+ *   patterns (email addresses, phone numbers, IP addresses)
+ * - optionally an LLM classifier (MODERATION_CLASSIFIER=true), using the
+ *   provider configured for the "moderation" tool (LLM_PROVIDER_MODERATION, ...)
+ *
+ * What happens to flagged text is set per tool with MODERATION_ACTION[_<TOOL>]:
+ * - regenerate (default): generate again, up to MODERATION_MAX_REGENERATIONS
+ *   times, and reject if every attempt is flagged
+ * - draft: keep the note as a draft for a human to review (see src/drafts)
+ * - reject: publish nothing
+ *
+ * Rules come from the environment and, optionally, a JSON file
+ * (MODERATION_RULES_FILE: { blockedTerms, blockedPatterns, maxLength, doxxing }).
+ * Every decision that involved flagged text is recorded with its reasons in
+ * MODERATION_LOG_FILE (default data/moderation.json).
+ */
+
+import fs from 'fs';
+import { createJsonStore, dataFilePath, type JsonStore } from '../utils/jsonStore.util.js';
+import { toolEnvSuffix, type LLMConfig } from '../llm/index.js';
+
+export type ModerationAction = 'regenerate' | 'draft' | 'reject';
+
+export type ModerationDecision = 'passed' | 'regenerated' | 'draft' | 'rejected';
+
+/**
+ * Result of checking one piece of text
+ */
+export interface ModerationVerdict {
+  flagged: boolean;
+  /** Why the text was flagged, one entry per rule hit */
+  reasons: string[];
+}
+
+/**
+ * Final decision for a generated note
+ */
+export interface ModerationOutcome {
+  decision: ModerationDecision;
+  /** Text to publish (or hold as a draft); empty when rejected */
+  text: string;
+  /** Reasons from every flagged attempt */
+  reasons: string[];
+  /** Generations made, including regenerations */
+  attempts: number;
+}
+
+/**
+ * A recorded moderation decision
+ */
+export interface ModerationRecord {
+  tool: string;
+  persona?: string;
+  subjectPubkey?: string;
+  decision: ModerationDecision;
+  reasons: string[];
+  attempts: number;
+  at: number;
+}
+
+/**
+ * Local moderation rules
+ */
+export interface ModerationRules {
+  blockedTerms: string[];
+  blockedPatterns: RegExp[];
+  maxLength?: number;
+  /** Flag email addresses, phone numbers and IP addresses */
+  doxxing: boolean;
+}
+
+export interface Moderator {
+  rules: ModerationRules;
+  actionFor(tool: string): ModerationAction;
+  /** Checks text against the local rules and, if enabled, the classifier */
+  check(text: string): Promise<ModerationVerdict>;
+  /**
+   * Generates text until it passes or the tool's action says otherwise,
+   * and records the decision
+   */
+  review(tool: string, generate: () => Promise<string>, context?: { persona?: string; subjectPubkey?: string }): Promise<ModerationOutcome>;
+  history(limit?: number): ModerationRecord[];
+}
+
+export interface ModeratorOptions {
+  /** LLM configuration for the optional classifier */
+  llm?: LLMConfig;
+  env?: NodeJS.ProcessEnv;
+  /** Decision log (default MODERATION_LOG_FILE or data/moderation.json) */
+  logFile?: string;
+  /** Records kept in the log (default 500) */
+  maxRecords?: number;
+}
+
+/**
+ * Whether a run of digit groups is shaped like a phone number rather than a
+ * year range, a score or a grouped amount: a `+` country code and 8-15 digits,
+ * or 10-13 digits in at least three groups that aren't all thousands groups
+ */
+function isPhoneShaped(match: string): boolean {
+  const digits = match.replace(/\D/g, '').length;
+  if (match.startsWith('+')) {
+    return digits >= 8 && digits <= 15;
+  }
+  const groups = match.split(/[\s.()-]+/).filter(Boolean);
+  return digits >= 10 && digits <= 13 && groups.length >= 3 && !groups.slice(1).every(group => group.length === 3);
+}
+
+// Global patterns: every match is offered to `accept` before it counts
+const DOXXING_PATTERNS: Array<{ label: string; pattern: RegExp; accept?: (match: string) => boolean }> = [
+  { label: 'an email address', pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi },
+  {
+    label: 'a phone number',
+    pattern: /(?<![\w.+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{1,15}(?:[\s.-]\d{1,5})*(?![\w.])/g,
+    accept: isPhoneShaped
+  },
+  { label: 'an IP address', pattern: /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)(?![\w.])/g }
+];
+
+const CLASSIFIER_PROMPT = `You are a content moderator for public social media posts written by a comedy bot about a real person.
+Flag the post if it contains any of: hate or harassment, attacks on protected characteristics (race, religion, gender, sexuality, disability, ...),
+sexual content, threats or encouragement of self-harm, comments on physical appearance, private personal information, or anything that is not family-friendly.
+Reply with JSON only: {"flagged": true|false, "reason": "<short reason, empty if not flagged>"}`;
+
+/**
+ * Reads the local rules from MODERATION_RULES_FILE and the environment
+ * @param env Environment (default process.env)
+ * @returns ModerationRules
+ * @throws Error if the rules file or a pattern is invalid
+ */
+export function readModerationRules(env: NodeJS.ProcessEnv = process.env): ModerationRules {
+  let file: { blockedTerms?: unknown; blockedPatterns?: unknown; maxLength?: unknown; doxxing?: unknown } = {};
+  if (env.MODERATION_RULES_FILE) {
+    try {
+      file = JSON.parse(fs.readFileSync(env.MODERATION_RULES_FILE, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not read MODERATION_RULES_FILE ${env.MODERATION_RULES_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const strings = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  const blockedTerms = [
+    ...strings(file.blockedTerms),
+    ...(env.MODERATION_BLOCKED_TERMS || '').split(',')
+  ].map(term => term.trim().toLowerCase()).filter(Boolean);
+
+  const blockedPatterns = strings(file.blockedPatterns).map(source => {
+    try {
+      return new RegExp(source, 'i');
+    } catch (error) {
+      throw new Error(`Invalid moderation pattern /${source}/: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+  const maxLength = parseInt(env.MODERATION_MAX_LENGTH || String(file.maxLength ?? ''), 10);
+  const doxxing = env.MODERATION_DOXXING !== undefined ? env.MODERATION_DOXXING !== 'false' : file.doxxing !== false;
+
+  return {
+    blockedTerms,
+    blockedPatterns,
+    maxLength: Number.isFinite(maxLength) && maxLength > 0 ? maxLength : undefined,
+    doxxing
+  };
+}
+
+/**
+ * Checks text against the local rules
+ * @param text Generated text
+ * @param rules Local rules
+ * @returns Verdict
+ */
+export function checkLocalRules(text: string, rules: ModerationRules): ModerationVerdict {
+  const reasons: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const term of rules.blockedTerms) {
+    // Whole words/phrases only, so "class" doesn't trip on "ass"
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(lower)) {
+      reasons.push(`blocked term "${term}"`);
+    }
+  }
+  for (const pattern of rules.blockedPatterns) {
+    if (pattern.test(text)) {
+      reasons.push(`matches blocked pattern ${pattern}`);
+    }
+  }
+  if (rules.maxLength && text.length > rules.maxLength) {
+    reasons.push(`too long (${text.length} > ${rules.maxLength} characters)`);
+  }
+  if (rules.doxxing) {
+    for (const { label, pattern, accept } of DOXXING_PATTERNS) {
+      if ((text.match(pattern) || []).some(match => !accept || accept(match))) {
+        reasons.push(`contains what looks like ${label}`);
+      }
+    }
+  }
+
+  return { flagged: reasons.length > 0, reasons };
+}
+
+function parseAction(value: string | undefined): ModerationAction | undefined {
+  const action = (value || '').trim().toLowerCase();
+  return action === 'regenerate' || action === 'draft' || action === 'reject' ? action : undefined;
+}
+
+/**
+ * Creates the moderator
+ * @param options LLM config for the classifier, environment and log settings
+ * @returns Moderator
+ */
+export function createModerator(options: ModeratorOptions = {}): Moderator {
+  const env = options.env || process.env;
+  const rules = readModerationRules(env);
+  const classifierEnabled = env.MODERATION_CLASSIFIER === 'true';
+  const maxRegenerations = Math.max(0, parseInt(env.MODERATION_MAX_REGENERATIONS || '2', 10));
+  const maxRecords = options.maxRecords ?? 500;
+  const log: JsonStore<{ records: ModerationRecord[] }> = createJsonStore(
+    options.logFile || env.MODERATION_LOG_FILE || dataFilePath('moderation.json'),
+    () => ({ records: [] })
+  );
+
+  const actionFor = (tool: string): ModerationAction =>
+    parseAction(env[`MODERATION_ACTION_${toolEnvSuffix(tool)}`]) || parseAction(env.MODERATION_ACTION) || 'regenerate';
+
+  const classify = async (text: string): Promise<ModerationVerdict> => {
+    // Fail closed: text the classifier couldn't judge is treated as flagged
+    try {
+      const llm = options.llm!.forTool('moderation');
+      const model = llm.provider.resolveModel({ tool: llm.tool, hasImages: false, override: llm.model });
+      const result = await llm.provider.complete({
+        model,
+        messages: [
+          { role: 'system', content: CLASSIFIER_PROMPT },
+          { role: 'user', content: text }
+        ]
+      });
+      const json = result.content.match(/\{[\s\S]*\}/);
+      const parsed = json ? JSON.parse(json[0]) : undefined;
+      if (typeof parsed?.flagged !== 'boolean') {
+        return { flagged: true, reasons: ['classifier returned an unreadable verdict'] };
+      }
+      return parsed.flagged
+        ? { flagged: true, reasons: [`classifier: ${String(parsed.reason || 'flagged').substring(0, 200)}`] }
+        : { flagged: false, reasons: [] };
+    } catch (error) {
+      return { flagged: true, reasons: [`classifier unavailable: ${error instanceof Error ? error.message : error}`] };
+    }
+  };
+
+  const check = async (text: string): Promise<ModerationVerdict> => {
+    const local = checkLocalRules(text, rules);
+    // Don't spend classifier tokens on text the local rules already flagged
+    if (local.flagged || !classifierEnabled || !options.llm) {
+      return local;
+    }
+    return classify(text);
+  };
+
+  const record = async (entry: Omit<ModerationRecord, 'at'>) => {
+    await log.update(doc => {
+      doc.records.push({ ...entry, at: Date.now() });
+      if (doc.records.length > maxRecords) {
+        doc.records.splice(0, doc.records.length - maxRecords);
+      }
+    });
+  };
+
+  return {
+    rules,
+
+    actionFor,
+
+    check,
+
+    async review(tool, generate, context = {}) {
+      const action = actionFor(tool);
+      const reasons: string[] = [];
+      let attempts = 0;
+
+      while (true) {
+        const text = await generate();
+        attempts++;
+        const verdict = await check(text);
+
+        if (!verdict.flagged) {
+          const decision: ModerationDecision = attempts > 1 ? 'regenerated' : 'passed';
+          if (decision === 'regenerated') {
+            console.log(`🛡️  Moderation: ${tool} passed after ${attempts} attempt(s)`);
+            await record({ tool, ...context, decision, reasons, attempts });
+          }
+          return { decision, text, reasons, attempts };
+        }
+
+        reasons.push(...verdict.reasons.map(reason => attempts > 1 ? `attempt ${attempts}: ${reason}` : reason));
+        console.warn(`🛡️  Moderation flagged ${tool} output (attempt ${attempts}): ${verdict.reasons.join('; ')}`);
+
+        if (action === 'regenerate' && attempts <= maxRegenerations) {
+          continue;
+        }
+
+        const decision: ModerationDecision = action === 'draft' ? 'draft' : 'rejected';
+        console.warn(`🛡️  Moderation: ${tool} output ${decision === 'draft' ? 'held as a draft for review' : 'rejected'}`);
+        await record({ tool, ...context, decision, reasons, attempts });
+        return { decision, text: decision === 'draft' ? text : '', reasons, attempts };
+      }
+    },
+
+    history: (limit = 50) => log.read().records.slice(-limit)
+  };
+}
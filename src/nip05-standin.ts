@@ -0,0 +1,97 @@
+/**
+ * NIP-05 stand-in check (`npm run check:nip05`)
+ *
+ * Without NIP05_BASE_URL, identifiers whose domain is or resolves to a private
+ * address must be refused before any request is made. With NIP05_BASE_URL
+ * pointing at a local stand-in, identifiers must resolve through it (with
+ * their relay hints), unknown names must be reported as not found, and
+ * redirects must not be followed.
+ */
+
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { generateSecretKey, getPublicKey } from 'nostr-tools';
+import { clearIdentityCache, IdentityError, resolveIdentity } from './utils/identity.util.js';
+
+/**
+ * Throws if a condition doesn't hold
+ */
+function check(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+  console.log(`   ✅ ${message}`);
+}
+
+/**
+ * Resolves an identifier and returns the IdentityError it fails with
+ */
+async function failure(value: string): Promise<IdentityError | undefined> {
+  try {
+    await resolveIdentity(value);
+    return undefined;
+  } catch (error) {
+    if (error instanceof IdentityError) return error;
+    throw error;
+  }
+}
+
+async function main() {
+  const alice = getPublicKey(generateSecretKey());
+  const root = getPublicKey(generateSecretKey());
+  const paths: string[] = [];
+
+  const server = createServer((req, res) => {
+    paths.push(req.url || '/');
+    const url = new URL(req.url || '/', 'http://stand-in');
+    const name = url.searchParams.get('name');
+    if (url.pathname === '/moved') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ names: { redirect: alice } }));
+    } else if (url.pathname !== '/.well-known/nostr.json') {
+      res.writeHead(404).end();
+    } else if (name === 'redirect') {
+      res.writeHead(302, { Location: '/moved' }).end();
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        names: { alice, _: root },
+        relays: { [alice]: ['wss://relay.example', 'https://not-a-relay.example'] }
+      }));
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  try {
+    console.log('🔎 Private domains without NIP05_BASE_URL');
+    delete process.env.NIP05_BASE_URL;
+    clearIdentityCache();
+    for (const identifier of [`alice@127.0.0.1:${port}`, `alice@localhost:${port}`, `alice@10.0.0.1:${port}`]) {
+      const error = await failure(identifier);
+      check(error?.code === 'lookup_failed' && /private address/.test(error.message), `${identifier} is refused (${error?.message.split(': ').pop()})`);
+    }
+    check(paths.length === 0, 'no request reached the stand-in');
+
+    console.log('🔎 Lookups through NIP05_BASE_URL');
+    process.env.NIP05_BASE_URL = `http://127.0.0.1:${port}`;
+    clearIdentityCache();
+    const identity = await resolveIdentity('alice@example.com');
+    check(identity.pubkey === alice && identity.source === 'nip05' && identity.nip05 === 'alice@example.com', 'alice@example.com resolves through the stand-in');
+    check(paths[0] === '/.well-known/nostr.json?name=alice&domain=example.com', 'the domain is passed as a query parameter');
+    check(identity.relays.length === 1 && identity.relays[0] === 'wss://relay.example', 'relay hints are kept, non-relay URLs dropped');
+    check((await resolveIdentity('example.com')).pubkey === root, 'a bare domain resolves as _@domain');
+
+    const requests = paths.length;
+    await resolveIdentity('alice@example.com');
+    check(paths.length === requests, 'lookups are cached');
+
+    check((await failure('bob@example.com'))?.code === 'not_found', 'unknown names are reported as not found');
+    check((await failure('redirect@example.com'))?.code === 'lookup_failed' && !paths.includes('/moved'), 'redirects are not followed');
+
+    console.log('🪪 NIP-05 stand-in check passed');
+  } finally {
+    server.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ NIP-05 stand-in check failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+/**
+ * NIP-11 stand-in check (`npm run check:nip11`)
+ *
+ * Serves relay information documents from a local HTTP stand-in
+ * (NIP11_BASE_URL) and runs the relay-aware PoW planning against it: the
+ * event must be mined to the highest min_pow_difficulty within the cap,
+ * relays above the cap skipped with a `pow` receipt, relays without a usable
+ * document treated as asking for nothing, and documents served from the cache
+ * until it is cleared.
+ */
+
+import { createServer, type IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { clearRelayInformationCache, fetchRelayInformation, planRelayPow, relayInfoUrl } from './utils/nip11.util.js';
+
+// What the stand-in serves for each relay: a document, or a raw response
+const RELAYS: Record<string, { status?: number; type?: string; body: string }> = {
+  'wss://free.example': { body: JSON.stringify({ name: 'free', supported_nips: [1, 11] }) },
+  'wss://pow12.example': { body: JSON.stringify({ name: 'pow12', limitation: { min_pow_difficulty: 12 } }) },
+  'wss://pow30.example': { body: JSON.stringify({ name: 'pow30', limitation: { min_pow_difficulty: 30 } }) },
+  // Some relays send the document as text/plain
+  'wss://plain.example': { type: 'text/plain', body: JSON.stringify({ name: 'plain', limitation: { min_pow_difficulty: 8 } }) },
+  'wss://broken.example': { status: 500, body: 'oops' }
+};
+
+/**
+ * Throws if a condition doesn't hold
+ */
+function check(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+  console.log(`   ✅ ${message}`);
+}
+
+async function main() {
+  const requests: IncomingMessage[] = [];
+  const server = createServer((req, res) => {
+    requests.push(req);
+    const relay = new URL(req.url || '/', 'http://stand-in').searchParams.get('relay') || '';
+    const entry = RELAYS[relay];
+    if (!entry) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(entry.status ?? 200, { 'Content-Type': entry.type ?? 'application/nostr+json' }).end(entry.body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    console.log('🔎 Relay information URLs');
+    delete process.env.NIP11_BASE_URL;
+    check(relayInfoUrl('wss://nos.lol') === 'https://nos.lol' && relayInfoUrl('ws://relay.local:7777') === 'http://relay.local:7777', 'relay URLs map to http(s) without NIP11_BASE_URL');
+    process.env.NIP11_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    check(relayInfoUrl('wss://nos.lol') === `${process.env.NIP11_BASE_URL}/?relay=wss%3A%2F%2Fnos.lol`, 'NIP11_BASE_URL passes the relay as a query parameter');
+
+    console.log('🔎 Planning PoW against the stand-in');
+    clearRelayInformationCache();
+    const relays = [...Object.keys(RELAYS), 'wss://unknown.example'];
+    const plan = await planRelayPow(relays, 4, 20);
+    check(requests.every(req => req.headers.accept === 'application/nostr+json'), 'documents are requested with Accept: application/nostr+json');
+    check(plan.requirements['wss://pow12.example'] === 12 && plan.requirements['wss://plain.example'] === 8, 'min_pow_difficulty is read, text/plain documents included');
+    check(plan.requirements['wss://broken.example'] === 0 && plan.requirements['wss://unknown.example'] === 0, 'relays without a usable document require nothing');
+    check(plan.difficulty === 12, 'the event is mined to the highest requirement within the cap');
+    check(!plan.relays.includes('wss://pow30.example') && plan.relays.length === relays.length - 1, 'every other relay is published to');
+    check(plan.skipped.length === 1 && plan.skipped[0].relay === 'wss://pow30.example' && plan.skipped[0].prefix === 'pow' && plan.skipped[0].skipped === true, 'the relay above the cap is skipped with a pow receipt');
+
+    const uncapped = await planRelayPow(['wss://free.example'], 4);
+    check(uncapped.difficulty === 4, 'the base difficulty applies when relays ask for less');
+    check((await planRelayPow(['wss://pow30.example'], 0)).difficulty === 30, 'without a cap the highest requirement is mined');
+
+    console.log('🔎 Caching');
+    const served = requests.length;
+    await fetchRelayInformation('wss://pow12.example');
+    check(requests.length === served, 'cached documents are not fetched again');
+    clearRelayInformationCache();
+    await fetchRelayInformation('wss://pow12.example');
+    check(requests.length === served + 1, 'clearing the cache fetches them again');
+
+    console.log('📜 NIP-11 stand-in check passed');
+  } finally {
+    server.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ NIP-11 stand-in check failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
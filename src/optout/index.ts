@@ -0,0 +1,257 @@
+/**
+ * Subject opt-out registry
+ *
+ * People can ask not to be roasted or summarised. A subject opts out by
+ * sending one of the persona accounts a DM (NIP-04, kind 4) or a mention
+ * (kind 1 with the persona in a `p` tag) containing an opt-out keyword
+ * (OPTOUT_KEYWORDS), and opts back in the same way with an opt-in keyword
+ * (OPTIN_KEYWORDS). Admins can add and remove subjects with the optout_* tools;
+ * only an admin can lift an opt-out an admin added. Publishing tools check the
+ * registry before generating anything about a subject and either refuse or
+ * keep the output private (OPTOUT_POLICY). Entries, plus how often each one
+ * was enforced, are persisted in OPTOUT_FILE (default data/optouts.json).
+ */
+
+import type { SimpleRelayPool } from '@contextvm/sdk';
+import { nip04, type Event as NostrEvent, type Filter } from 'nostr-tools';
+import { createJsonStore, dataFilePath, type JsonStore } from '../utils/jsonStore.util.js';
+import { getPoolQueries, getPoolRelayUrls } from '../utils/publish.util.js';
+
+export type OptOutSource = 'dm' | 'mention' | 'admin';
+
+export type OptOutPolicy = 'refuse' | 'private';
+
+/**
+ * A subject who opted out
+ */
+export interface OptOutEntry {
+  pubkey: string;
+  source: OptOutSource;
+  /** When the opt-out was requested (ms) */
+  at: number;
+  /** DM or mention that requested it */
+  eventId?: string;
+  /** Admin who added it */
+  addedBy?: string;
+  reason?: string;
+  /** Calls refused (or kept private) because of this opt-out */
+  refusals: number;
+  lastRefusedAt?: number;
+  lastRefusedTool?: string;
+}
+
+/**
+ * A persona account whose DMs and mentions are watched
+ */
+export interface OptOutInbox {
+  pubkey: string;
+  /** Hex private key, used to decrypt NIP-04 DMs */
+  privateKey: string;
+  label: string;
+}
+
+export interface OptOutRegistry {
+  policy: OptOutPolicy;
+  isOptedOut(pubkey: string): boolean;
+  get(pubkey: string): OptOutEntry | undefined;
+  list(): OptOutEntry[];
+  /** Adds an opt-out; returns false if the subject had already opted out */
+  add(pubkey: string, entry: Pick<OptOutEntry, 'source'> & Partial<Pick<OptOutEntry, 'at' | 'eventId' | 'addedBy' | 'reason'>>): Promise<boolean>;
+  /** Lifts an opt-out; returns false if the subject had not opted out */
+  remove(pubkey: string): Promise<boolean>;
+  /** Records that a call was refused or kept private for a subject */
+  recordRefusal(pubkey: string, tool: string): Promise<void>;
+  /** Applies a DM or mention addressed to one of the inboxes */
+  handleEvent(event: NostrEvent, inbox: OptOutInbox): Promise<void>;
+  /** Starts watching the inboxes for opt-out / opt-in messages */
+  startListening(relayPool: SimpleRelayPool, inboxes: OptOutInbox[]): void;
+  stop(): void;
+}
+
+interface OptOutDocument {
+  optOuts: Record<string, Omit<OptOutEntry, 'pubkey'>>;
+  /** created_at of the newest message processed, so restarts catch up */
+  cursor?: number;
+}
+
+export interface OptOutRegistryOptions {
+  /** Registry file (default OPTOUT_FILE or data/optouts.json) */
+  filePath?: string;
+  /** Default OPTOUT_POLICY or "refuse" */
+  policy?: OptOutPolicy;
+  /** Default OPTOUT_KEYWORDS or "opt out, optout, opt-out, unsubscribe" */
+  optOutKeywords?: string[];
+  /** Default OPTIN_KEYWORDS or "opt in, optin, opt-in" */
+  optInKeywords?: string[];
+  /** Periodic catch-up query (default OPTOUT_REFRESH_MS or 300000) */
+  refreshMs?: number;
+}
+
+/**
+ * Parses a comma-separated keyword list
+ * @param value Raw env value
+ * @param defaults Keywords used when unset
+ * @returns Lowercase keywords
+ */
+export function parseKeywords(value: string | undefined, defaults: string[]): string[] {
+  const keywords = (value || '').split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+  return keywords.length > 0 ? keywords : defaults;
+}
+
+/**
+ * Whether a message contains one of the keywords as whole words
+ * @param text Message text
+ * @param keywords Lowercase keywords
+ * @returns true on a match
+ */
+export function matchesKeyword(text: string, keywords: string[]): boolean {
+  const normalised = ` ${text.toLowerCase().replace(/[^a-z0-9-]+/g, ' ')} `;
+  return keywords.some(keyword => normalised.includes(` ${keyword.replace(/[^a-z0-9-]+/g, ' ').trim()} `));
+}
+
+/**
+ * Creates the opt-out registry
+ * @param options Storage, policy and keyword settings
+ * @returns OptOutRegistry
+ */
+export function createOptOutRegistry(options: OptOutRegistryOptions = {}): OptOutRegistry {
+  const policy = options.policy || (process.env.OPTOUT_POLICY === 'private' ? 'private' : 'refuse');
+  const optOutKeywords = options.optOutKeywords || parseKeywords(process.env.OPTOUT_KEYWORDS, ['opt out', 'optout', 'opt-out', 'unsubscribe']);
+  const optInKeywords = options.optInKeywords || parseKeywords(process.env.OPTIN_KEYWORDS, ['opt in', 'optin', 'opt-in']);
+  const refreshMs = options.refreshMs ?? parseInt(process.env.OPTOUT_REFRESH_MS || '300000', 10);
+  const store: JsonStore<OptOutDocument> = createJsonStore<OptOutDocument>(
+    options.filePath || process.env.OPTOUT_FILE || dataFilePath('optouts.json'),
+    () => ({ optOuts: {} })
+  );
+
+  let closeSubscription: (() => void) | undefined;
+  let refreshTimer: NodeJS.Timeout | undefined;
+
+  const get = (pubkey: string): OptOutEntry | undefined => {
+    const key = pubkey.toLowerCase();
+    const entry = store.read().optOuts[key];
+    return entry ? { pubkey: key, ...entry } : undefined;
+  };
+
+  const add: OptOutRegistry['add'] = async (pubkey, entry) => {
+    const key = pubkey.toLowerCase();
+    if (store.read().optOuts[key]) return false;
+    await store.update(doc => {
+      doc.optOuts[key] = { at: Date.now(), ...entry, refusals: 0 };
+    });
+    console.log(`🙅 Opt-out: ${key.substring(0, 16)}... (${entry.source}${entry.reason ? `: ${entry.reason}` : ''})`);
+    return true;
+  };
+
+  const remove = async (pubkey: string) => {
+    const key = pubkey.toLowerCase();
+    if (!store.read().optOuts[key]) return false;
+    await store.update(doc => {
+      delete doc.optOuts[key];
+    });
+    console.log(`🙆 Opt-out lifted: ${key.substring(0, 16)}...`);
+    return true;
+  };
+
+  const handleEvent: OptOutRegistry['handleEvent'] = async (event, inbox) => {
+    if (event.pubkey === inbox.pubkey || !event.tags.some(tag => tag[0] === 'p' && tag[1] === inbox.pubkey)) return;
+
+    let text = event.content;
+    if (event.kind === 4) {
+      try {
+        text = nip04.decrypt(inbox.privateKey, event.pubkey, event.content);
+      } catch {
+        return;
+      }
+    } else if (event.kind !== 1) {
+      return;
+    }
+
+    const source: OptOutSource = event.kind === 4 ? 'dm' : 'mention';
+    const existing = get(event.pubkey);
+    // Opting out wins when a message contains both
+    if (matchesKeyword(text, optOutKeywords)) {
+      await add(event.pubkey, { source, at: event.created_at * 1000, eventId: event.id, reason: `${source} to ${inbox.label}` });
+    } else if (matchesKeyword(text, optInKeywords) && existing && existing.source !== 'admin' && event.created_at * 1000 > existing.at) {
+      await remove(event.pubkey);
+    }
+
+    if (event.created_at > (store.read().cursor || 0)) {
+      await store.update(doc => { doc.cursor = Math.max(doc.cursor || 0, event.created_at); });
+    }
+  };
+
+  return {
+    policy,
+
+    isOptedOut: (pubkey) => Boolean(get(pubkey)),
+
+    get,
+
+    list: () => Object.keys(store.read().optOuts).map(pubkey => get(pubkey)!),
+
+    add,
+
+    remove,
+
+    async recordRefusal(pubkey, tool) {
+      const key = pubkey.toLowerCase();
+      await store.update(doc => {
+        const entry = doc.optOuts[key];
+        if (!entry) return;
+        entry.refusals = (entry.refusals || 0) + 1;
+        entry.lastRefusedAt = Date.now();
+        entry.lastRefusedTool = tool;
+      });
+      console.log(`🙅 ${tool}: subject ${key.substring(0, 16)}... has opted out (${policy})`);
+    },
+
+    handleEvent,
+
+    startListening(relayPool, inboxes) {
+      if (closeSubscription || inboxes.length === 0) return;
+
+      const pool = getPoolQueries(relayPool);
+      const relayUrls = getPoolRelayUrls(relayPool);
+      if (!pool || relayUrls.length === 0) {
+        console.warn('⚠️  Opt-out inbox unavailable: relay pool is not ready');
+        return;
+      }
+
+      const byPubkey = new Map(inboxes.map(inbox => [inbox.pubkey, inbox]));
+      const filter = (): Filter => ({
+        kinds: [1, 4],
+        '#p': [...byPubkey.keys()],
+        // Catch up on messages sent while the server was down
+        since: store.read().cursor ?? Math.floor(Date.now() / 1000)
+      });
+      const dispatch = (event: NostrEvent) => {
+        event.tags
+          .filter(tag => tag[0] === 'p' && byPubkey.has(tag[1]))
+          .forEach(tag => {
+            handleEvent(event, byPubkey.get(tag[1])!)
+              .catch(error => console.warn('⚠️  Could not apply opt-out message:', error instanceof Error ? error.message : error));
+          });
+      };
+
+      const subscription = pool.subscribeMany(relayUrls, filter(), { onevent: dispatch });
+      closeSubscription = () => subscription.close();
+      console.log(`📬 Watching ${byPubkey.size} persona inbox(es) for opt-out requests`);
+
+      if (refreshMs > 0) {
+        refreshTimer = setInterval(() => {
+          pool.querySync(relayUrls, filter(), { maxWait: 5000 })
+            .then((events: NostrEvent[]) => events.forEach(dispatch))
+            .catch((error: unknown) => console.warn('⚠️  Opt-out inbox refresh failed:', error instanceof Error ? error.message : error));
+        }, refreshMs);
+      }
+    },
+
+    stop() {
+      closeSubscription?.();
+      closeSubscription = undefined;
+      if (refreshTimer) clearInterval(refreshTimer);
+      refreshTimer = undefined;
+    }
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Persona definitions
+ *
+ * A persona is a Nostr identity the server publishes as (e.g. Craig David or
+ * the Roast Bot). Personas are defined in a JSON file (personas.json, or the
+ * path in PERSONAS_FILE) rather than in code:
+ *
+ * - keyEnv:      name of the env var holding the persona's private key (hex)
+ * - displayName: substituted for {displayName} in header/footer templates
+ *                ({subject} is the NIP-27 mention of the person the note is about)
+ * - clientTag:   value of the ['client', ...] tag on published notes
+ * - model:       optional model id, either a string or a map of provider name -> model
+ * - tools:       per-tool system prompt, model, topic (t) tags, hashtags and header/footer
+ *
+ * A persona may only be used for the tools it defines. `defaults` names the
+ * persona used when a tool call does not pass one.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { getPublicKey } from 'nostr-tools';
+
+const modelSchema = z.union([z.string().min(1), z.record(z.string().min(1))]);
+
+const personaToolSchema = z.object({
+  systemPrompt: z.string().min(1),
+  model: modelSchema.optional(),
+  topics: z.array(z.string().min(1)).default([]),
+  hashtags: z.array(z.string().min(1)).default([]),
+  header: z.string().optional(),
+  footer: z.string().optional()
+});
+
+const personaSchema = z.object({
+  displayName: z.string().min(1),
+  keyEnv: z.string().min(1),
+  clientTag: z.string().min(1).optional(),
+  model: modelSchema.optional(),
+  tools: z.record(personaToolSchema)
+});
+
+const personaFileSchema = z.object({
+  defaults: z.record(z.string().min(1)).default({}),
+  personas: z.record(personaSchema)
+});
+
+export type PersonaToolConfig = z.infer<typeof personaToolSchema>;
+
+/**
+ * A persona resolved for one tool: everything needed to generate and publish
+ */
+export interface PersonaForTool {
+  id: string;
+  tool: string;
+  displayName: string;
+  clientTag: string;
+  /** Hex private key used to sign (falls back to the server key) */
+  privateKey: string;
+  pubkey: string;
+  /** True when the persona's own key is configured (not the server fallback) */
+  hasOwnKey: boolean;
+  systemPrompt: string;
+  topics: string[];
+  hashtags: string[];
+  header?: string;
+  footer?: string;
+  /** Model for a given provider name, if the persona pins one */
+  modelFor(providerName: string): string | undefined;
+}
+
+export interface PersonaSummary {
+  id: string;
+  displayName: string;
+  pubkey: string;
+  hasOwnKey: boolean;
+  tools: string[];
+}
+
+export interface PersonaRegistry {
+  /** All personas with their tools */
+  list(): PersonaSummary[];
+  /** Persona ids allowed for a tool (default first) */
+  allowedFor(tool: string): string[];
+  /** Default persona id for a tool, if any */
+  defaultFor(tool: string): string | undefined;
+  /** Resolves a persona for a tool; throws if the persona is unknown or not allowed */
+  forTool(tool: string, personaId?: string): PersonaForTool;
+}
+
+/**
+ * Default location of the persona definition file
+ * @returns Absolute path (PERSONAS_FILE or ./personas.json)
+ */
+export function defaultPersonasPath(): string {
+  return path.resolve(process.env.PERSONAS_FILE || 'personas.json');
+}
+
+function pickModel(model: z.infer<typeof modelSchema> | undefined, providerName: string): string | undefined {
+  if (!model) return undefined;
+  if (typeof model === 'string') return model;
+  return model[providerName];
+}
+
+/**
+ * Loads and validates the persona definition file
+ * @param filePath Path to the JSON definition file
+ * @param serverPrivateKey Key used for personas whose keyEnv is not set
+ * @param env Environment holding the persona keys (defaults to process.env)
+ * @returns PersonaRegistry
+ */
+export function loadPersonas(
+  filePath: string,
+  serverPrivateKey: string,
+  env: NodeJS.ProcessEnv = process.env
+): PersonaRegistry {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read persona file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = personaFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid persona file ${filePath}: ${issues}`);
+  }
+  const file = parsed.data;
+
+  // Resolve signing keys once
+  const keys = new Map<string, { privateKey: string; pubkey: string; hasOwnKey: boolean }>();
+  for (const [id, persona] of Object.entries(file.personas)) {
+    const envKey = (env[persona.keyEnv] || '').trim();
+    if (envKey && !/^[0-9a-fA-F]{64}$/.test(envKey)) {
+      throw new Error(`Invalid ${persona.keyEnv} key format for persona "${id}": expected 64 hexadecimal characters, got ${envKey.length}`);
+    }
+    const privateKey = envKey || serverPrivateKey;
+    keys.set(id, {
+      privateKey,
+      pubkey: getPublicKey(Buffer.from(privateKey, 'hex')),
+      hasOwnKey: Boolean(envKey)
+    });
+  }
+
+  // Every default must exist and define the tool it is the default for
+  for (const [tool, id] of Object.entries(file.defaults)) {
+    if (!file.personas[id]?.tools[tool]) {
+      throw new Error(`Invalid persona file ${filePath}: default persona "${id}" for ${tool} does not define that tool`);
+    }
+  }
+
+  const allowedFor = (tool: string): string[] => {
+    const ids = Object.keys(file.personas).filter(id => Boolean(file.personas[id].tools[tool]));
+    const def = file.defaults[tool];
+    return def ? [def, ...ids.filter(id => id !== def)] : ids;
+  };
+
+  return {
+    list: () => Object.entries(file.personas).map(([id, persona]) => ({
+      id,
+      displayName: persona.displayName,
+      pubkey: keys.get(id)!.pubkey,
+      hasOwnKey: keys.get(id)!.hasOwnKey,
+      tools: Object.keys(persona.tools)
+    })),
+
+    allowedFor,
+
+    defaultFor: (tool: string) => allowedFor(tool)[0],
+
+    forTool(tool: string, personaId?: string): PersonaForTool {
+      const allowed = allowedFor(tool);
+      const id = personaId || allowed[0];
+      if (!id) {
+        throw new Error(`No persona is configured for ${tool}`);
+      }
+      if (!allowed.includes(id)) {
+        throw new Error(`Persona "${id}" is not available for ${tool}. Allowed: ${allowed.join(', ')}`);
+      }
+
+      const persona = file.personas[id];
+      const toolConfig = persona.tools[tool];
+      const key = keys.get(id)!;
+
+      return {
+        id,
+        tool,
+        displayName: persona.displayName,
+        clientTag: persona.clientTag || persona.displayName,
+        privateKey: key.privateKey,
+        pubkey: key.pubkey,
+        hasOwnKey: key.hasOwnKey,
+        systemPrompt: toolConfig.systemPrompt,
+        topics: toolConfig.topics,
+        hashtags: toolConfig.hashtags,
+        header: toolConfig.header,
+        footer: toolConfig.footer,
+        modelFor: (providerName: string) =>
+          pickModel(toolConfig.model, providerName) ?? pickModel(persona.model, providerName)
+      };
+    }
+  };
+}
+
+/**
+ * Stand-in persona for a tool that publishes without one configured (montage
+ * file events): signs with the server key and adds no prompt or tags
+ * @param tool Tool name
+ * @param serverPrivateKey Server's hex private key
+ * @returns PersonaForTool with id "server"
+ */
+export function serverPersona(tool: string, serverPrivateKey: string): PersonaForTool {
+  return {
+    id: 'server',
+    tool,
+    displayName: 'CVM Nostr Server',
+    clientTag: 'CVM Nostr Server',
+    privateKey: serverPrivateKey,
+    pubkey: getPublicKey(Buffer.from(serverPrivateKey, 'hex')),
+    hasOwnKey: false,
+    systemPrompt: '',
+    topics: [],
+    hashtags: [],
+    modelFor: () => undefined
+  };
+}
+
+/**
+ * Renders a persona note: header, generated text and footer (hashtags by default)
+ * @param persona Persona resolved for the tool
+ * @param text Generated text
+ * @param subjectMention NIP-27 mention of the subject; placed where a template
+ *   has {subject}, otherwise on its own line above the text
+ * @returns Note content
+ */
+export function renderPersonaContent(persona: PersonaForTool, text: string, subjectMention: string = ''): string {
+  const hashtags = persona.hashtags.map(tag => `#${tag}`).join(' ');
+  const fill = (template: string) => template
+    .replace(/\{displayName\}/g, persona.displayName)
+    .replace(/\{hashtags\}/g, hashtags)
+    .replace(/\{subject\}/g, subjectMention);
+
+  const header = persona.header ? fill(persona.header) : '';
+  const footer = persona.footer !== undefined ? fill(persona.footer) : hashtags;
+  const templated = [persona.header, persona.footer].some(template => template?.includes('{subject}'));
+  const mention = templated ? '' : subjectMention;
+
+  return [header, mention, text, footer].filter(part => part.length > 0).join('\n\n');
+}
+
+/**
+ * Builds the optional `persona` tool argument for a tool
+ * @param personas Persona registry
+ * @param tool Tool name
+ * @returns zod schema restricted to the personas allowed for the tool
+ */
+export function personaArgument(personas: PersonaRegistry, tool: string) {
+  const allowed = personas.allowedFor(tool);
+  const description = `Persona to publish as (default: ${allowed[0] || 'none'}). Allowed: ${allowed.join(', ') || 'none'}`;
+  if (allowed.length === 0) {
+    return z.never().optional().describe(description);
+  }
+  return z.enum(allowed as [string, ...string[]]).optional().describe(description);
+}
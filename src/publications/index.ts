@@ -0,0 +1,122 @@
+/**
+ * Log of notes the server has published
+ *
+ * Every persona note that reaches the relays is recorded with the client that
+ * requested it, the subject it tags, the relays that accepted it and the PoW
+ * it was mined to. Admins query the log with list_publications, and notes can
+ * be withdrawn with delete_publication (NIP-09). Stored in a JSON file store
+ * (PUBLICATIONS_FILE, default data/publications.json).
+ */
+
+import { createJsonStore, dataFilePath, type JsonStore } from '../utils/jsonStore.util.js';
+
+/**
+ * A published note
+ */
+export interface Publication {
+  eventId: string;
+  kind: number;
+  /** `<kind>:<pubkey>:<d>` for addressable events (NIP-23 articles) */
+  address?: string;
+  tool: string;
+  persona: string;
+  /** Key the note was signed with */
+  personaPubkey: string;
+  /** Hex pubkey tagged as the subject */
+  subjectPubkey?: string;
+  /** Hex pubkey of the client that requested it */
+  clientPubkey?: string;
+  /** Relays that accepted the note */
+  relays: string[];
+  /** PoW difficulty the note was mined to */
+  powDifficulty?: number;
+  publishedAt: number;
+  /** Set once a NIP-09 deletion has been issued */
+  deletion?: {
+    eventId: string;
+    requestedBy?: string;
+    reason?: string;
+    at: number;
+    /** Relays that acknowledged the deletion */
+    relays: string[];
+  };
+}
+
+/**
+ * Filter for PublicationLog.list; every field given must match
+ */
+export interface PublicationFilter {
+  subjectPubkey?: string;
+  tool?: string;
+  persona?: string;
+  clientPubkey?: string;
+  /** Published at or after (ms) */
+  since?: number;
+  /** Published at or before (ms) */
+  until?: number;
+  /** Most recent matches returned (default 50) */
+  limit?: number;
+}
+
+export interface PublicationLog {
+  record(publication: Omit<Publication, 'publishedAt'>): Promise<void>;
+  get(eventId: string): Publication | undefined;
+  /** Matching publications, newest first, and how many matched in total */
+  list(filter?: PublicationFilter): { total: number; publications: Publication[] };
+  markDeleted(eventId: string, deletion: NonNullable<Publication['deletion']>): Promise<void>;
+}
+
+export interface PublicationLogOptions {
+  /** JSON file backing the log (default PUBLICATIONS_FILE or data/publications.json) */
+  filePath?: string;
+  /** Publications kept (default 5000, oldest dropped first) */
+  maxEntries?: number;
+}
+
+/**
+ * Opens the publication log
+ * @param options Storage settings
+ * @returns PublicationLog
+ */
+export function createPublicationLog(options: PublicationLogOptions = {}): PublicationLog {
+  const maxEntries = options.maxEntries ?? 5000;
+  const store: JsonStore<{ publications: Publication[] }> = createJsonStore(
+    options.filePath || process.env.PUBLICATIONS_FILE || dataFilePath('publications.json'),
+    () => ({ publications: [] })
+  );
+
+  return {
+    async record(publication) {
+      await store.update(doc => {
+        doc.publications.push({ ...publication, publishedAt: Date.now() });
+        if (doc.publications.length > maxEntries) {
+          doc.publications.splice(0, doc.publications.length - maxEntries);
+        }
+      });
+    },
+
+    get: (eventId) => store.read().publications.find(publication => publication.eventId === eventId),
+
+    list(filter = {}) {
+      const matches = store.read().publications.filter(publication =>
+        (!filter.subjectPubkey || publication.subjectPubkey === filter.subjectPubkey) &&
+        (!filter.tool || publication.tool === filter.tool) &&
+        (!filter.persona || publication.persona === filter.persona) &&
+        (!filter.clientPubkey || publication.clientPubkey === filter.clientPubkey) &&
+        (filter.since === undefined || publication.publishedAt >= filter.since) &&
+        (filter.until === undefined || publication.publishedAt <= filter.until)
+      );
+      return {
+        total: matches.length,
+        publications: matches.slice(-(filter.limit ?? 50)).reverse()
+      };
+    },
+
+    async markDeleted(eventId, deletion) {
+      await store.update(doc => {
+        const publication = doc.publications.find(candidate => candidate.eventId === eventId);
+        if (publication) publication.deletion = deletion;
+      });
+    }
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Per-client and per-tool rate limiting
+ *
+ * Every tool call is checked against three kinds of limit, each configured per
+ * tool (tool name upper-cased, non-alphanumerics -> "_") with a server-wide
+ * fallback:
+ * - RATE_LIMIT_<TOOL> / RATE_LIMIT: token bucket per client, e.g. "5/hour"
+ *   (burst of 5, refilled at 5 per hour)
+ * - DAILY_QUOTA_<TOOL> / DAILY_QUOTA: calls per client per UTC day, persisted
+ *   in QUOTAS_FILE (default data/quotas.json) so restarts don't reset them
+ * - MAX_CONCURRENT_<TOOL> / MAX_CONCURRENT: calls running at once across all
+ *   clients
+ * A call over any limit fails with an InvalidRequest McpError whose data says
+ * which limit was hit and when to retry. Background jobs are rate limited when
+ * queued and wait for a concurrency slot when they start. The job polling
+ * tools only get limits set for them by name: clients call them often, and the
+ * server-wide defaults are sized for the tools that do work.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createJsonStore, dataFilePath, type JsonStore } from '../utils/jsonStore.util.js';
+
+/**
+ * Limits applied to one tool
+ */
+export interface ToolLimits {
+  /** Token bucket: burst size and refill period */
+  rate?: { capacity: number; periodMs: number; label: string };
+  /** Calls per client per UTC day */
+  dailyQuota?: number;
+  /** Calls running at once across all clients */
+  maxConcurrent?: number;
+}
+
+export type LimitKind = 'rate' | 'daily_quota' | 'concurrency';
+
+/**
+ * Structured data attached to rate limit errors
+ */
+export interface RateLimitErrorData {
+  reason: 'rate_limited';
+  limit: LimitKind;
+  tool: string;
+  retryAfterSeconds: number;
+  retryAt: string;
+}
+
+export interface RateLimiter {
+  limitsFor(tool: string): ToolLimits;
+  /**
+   * Checks and consumes the caller's allowance for a call; throws a rate limit
+   * McpError if any limit is hit. Returns a function that releases the
+   * concurrency slot once the call has finished.
+   */
+  acquire(tool: string, client: string | undefined, options?: { concurrency?: boolean }): Promise<() => void>;
+  /**
+   * Waits for a concurrency slot (background jobs queue rather than fail).
+   * Returns a function that releases the slot; rejects if the signal aborts first.
+   */
+  waitForSlot(tool: string, signal?: AbortSignal): Promise<() => void>;
+}
+
+/** Tools the server-wide defaults don't apply to */
+const POLLING_TOOLS = new Set(['job_status', 'job_result']);
+
+const PERIODS: Record<string, number> = {
+  s: 1000, sec: 1000, second: 1000,
+  m: 60_000, min: 60_000, minute: 60_000,
+  h: 3_600_000, hour: 3_600_000,
+  d: 86_400_000, day: 86_400_000
+};
+
+/**
+ * Parses a rate such as "5/hour", "10/min" or "30/60s"
+ * @param value Rate specification
+ * @returns Bucket capacity and refill period, or undefined if unset/invalid
+ */
+export function parseRate(value: string | undefined): ToolLimits['rate'] {
+  const match = (value || '').trim().toLowerCase().match(/^(\d+)\s*\/\s*(\d*)\s*([a-z]+?)s?$/);
+  if (!match) return undefined;
+  const capacity = parseInt(match[1], 10);
+  const unit = PERIODS[match[3]];
+  if (!capacity || !unit) return undefined;
+  const periodMs = (match[2] ? parseInt(match[2], 10) : 1) * unit;
+  return { capacity, periodMs, label: value!.trim() };
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const n = parseInt(value || '', 10);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Reads the limits configured for a tool
+ * @param tool Tool name
+ * @param env Environment (default process.env)
+ * @returns ToolLimits (empty when the tool is unlimited)
+ */
+export function readToolLimits(tool: string, env: NodeJS.ProcessEnv = process.env): ToolLimits {
+  const key = tool.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  const defaults: NodeJS.ProcessEnv = POLLING_TOOLS.has(tool) ? {} : env;
+  return {
+    rate: parseRate(env[`RATE_LIMIT_${key}`] ?? defaults.RATE_LIMIT),
+    dailyQuota: positiveInt(env[`DAILY_QUOTA_${key}`] ?? defaults.DAILY_QUOTA),
+    maxConcurrent: positiveInt(env[`MAX_CONCURRENT_${key}`] ?? defaults.MAX_CONCURRENT)
+  };
+}
+
+function rateLimitError(tool: string, limit: LimitKind, retryAfterMs: number, detail: string): McpError {
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  const data: RateLimitErrorData = {
+    reason: 'rate_limited',
+    limit,
+    tool,
+    retryAfterSeconds,
+    retryAt: new Date(Date.now() + retryAfterSeconds * 1000).toISOString()
+  };
+  return new McpError(ErrorCode.InvalidRequest, `Rate limit exceeded for ${tool}: ${detail}. Retry in ${retryAfterSeconds}s.`, data);
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().substring(0, 10);
+}
+
+interface QuotaDocument {
+  day: string;
+  counts: Record<string, number>;
+}
+
+export interface RateLimiterOptions {
+  /** JSON file for daily quota counters (default QUOTAS_FILE or data/quotas.json) */
+  filePath?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Creates the rate limiter
+ * @param options Storage and environment overrides
+ * @returns RateLimiter
+ */
+export function createRateLimiter(options: RateLimiterOptions = {}): RateLimiter {
+  const env = options.env || process.env;
+  const filePath = options.filePath || env.QUOTAS_FILE || dataFilePath('quotas.json');
+  const quotas: JsonStore<QuotaDocument> = createJsonStore<QuotaDocument>(filePath, () => ({ day: utcDay(Date.now()), counts: {} }));
+
+  const limitCache = new Map<string, ToolLimits>();
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const running = new Map<string, number>();
+  // Background jobs waiting for a slot, woken whenever one is released
+  const waiters = new Map<string, Set<() => void>>();
+
+  const limitsFor = (tool: string) => {
+    if (!limitCache.has(tool)) limitCache.set(tool, readToolLimits(tool, env));
+    return limitCache.get(tool)!;
+  };
+
+  const refill = (key: string, rate: NonNullable<ToolLimits['rate']>, now: number) => {
+    const bucket = buckets.get(key) || { tokens: rate.capacity, updatedAt: now };
+    const refillPerMs = rate.capacity / rate.periodMs;
+    bucket.tokens = Math.min(rate.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+    return bucket;
+  };
+
+  const occupy = (tool: string) => {
+    running.set(tool, (running.get(tool) || 0) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      running.set(tool, Math.max(0, (running.get(tool) || 1) - 1));
+      waiters.get(tool)?.forEach(wake => wake());
+    };
+  };
+
+  return {
+    limitsFor,
+
+    async acquire(tool, client, acquireOptions = {}) {
+      const limits = limitsFor(tool);
+      const useConcurrency = acquireOptions.concurrency !== false && limits.maxConcurrent !== undefined;
+      if (!limits.rate && !limits.dailyQuota && !useConcurrency) {
+        return () => {};
+      }
+
+      const now = Date.now();
+      const key = `${client || 'anonymous'}:${tool}`;
+
+      // Check everything before consuming anything
+      if (useConcurrency && (running.get(tool) || 0) >= limits.maxConcurrent!) {
+        throw rateLimitError(tool, 'concurrency', 5000, `${limits.maxConcurrent} call(s) already running`);
+      }
+
+      const bucket = limits.rate ? refill(key, limits.rate, now) : undefined;
+      if (limits.rate && bucket!.tokens < 1) {
+        const waitMs = (1 - bucket!.tokens) * (limits.rate.periodMs / limits.rate.capacity);
+        throw rateLimitError(tool, 'rate', waitMs, `limit is ${limits.rate.label}`);
+      }
+
+      let quotaUsed = false;
+      if (limits.dailyQuota) {
+        const doc = quotas.read();
+        const used = doc.day === utcDay(now) ? doc.counts[key] || 0 : 0;
+        if (used >= limits.dailyQuota) {
+          const midnight = new Date(utcDay(now) + 'T00:00:00Z').getTime() + 86_400_000;
+          throw rateLimitError(tool, 'daily_quota', midnight - now, `daily quota of ${limits.dailyQuota} call(s) used`);
+        }
+        quotaUsed = true;
+      }
+
+      // Consume synchronously so concurrent calls see each other's usage
+      if (bucket) bucket.tokens -= 1;
+      const release = useConcurrency ? occupy(tool) : () => {};
+      if (quotaUsed) {
+        await quotas.update(current => {
+          if (current.day !== utcDay(now)) {
+            current.day = utcDay(now);
+            current.counts = {};
+          }
+          current.counts[key] = (current.counts[key] || 0) + 1;
+        });
+      }
+
+      return release;
+    },
+
+    async waitForSlot(tool, signal) {
+      const maxConcurrent = limitsFor(tool).maxConcurrent;
+      if (maxConcurrent === undefined) {
+        return () => {};
+      }
+      while ((running.get(tool) || 0) >= maxConcurrent) {
+        if (signal?.aborted) {
+          throw new Error(`Cancelled while waiting for a free ${tool} slot`);
+        }
+        const queue = waiters.get(tool) ?? new Set<() => void>();
+        waiters.set(tool, queue);
+        await new Promise<void>(resolve => {
+          const wake = () => {
+            queue.delete(wake);
+            signal?.removeEventListener('abort', wake);
+            resolve();
+          };
+          queue.add(wake);
+          signal?.addEventListener('abort', wake);
+        });
+      }
+      if (signal?.aborted) {
+        throw new Error(`Cancelled while waiting for a free ${tool} slot`);
+      }
+      return occupy(tool);
+    }
+  };
+}
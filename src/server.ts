@@ -20,11 +20,22 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { NostrServerTransport } from "@contextvm/sdk";
 import { PrivateKeySigner } from "@contextvm/sdk";
 import { SimpleRelayPool } from "@contextvm/sdk";
-import { generateSecretKey, getPublicKey } from "nostr-tools";
+import { generateSecretKey } from "nostr-tools";
 import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { callOpenRouterAgent } from "./utils/callAgent.util.js";
-import { createAndPublishSummary, createAndPublishWeeklyRap, createAndPublishRoast } from "./utils/summarise.util.js";
-import { createMontage } from "./utils/montage.util.js";
+import { tools, createToolRegistry, createToolContext, createJobToolContext } from "./tools/index.js";
+import { createJobQueue } from "./jobs/index.js";
+import { createCreditLedger } from "./credits/index.js";
+import { createSeenProofStore } from "./utils/cashu.util.js";
+import { createRateLimiter } from "./ratelimit/index.js";
+import { createDraftStore } from "./drafts/index.js";
+import { createOptOutRegistry, type OptOutInbox } from "./optout/index.js";
+import { createModerator } from "./moderation/index.js";
+import { createPublicationLog } from "./publications/index.js";
+import { createAccessControl, parseListAddress, parsePubkeyList } from "./access/index.js";
+import { createLLMConfig } from "./llm/index.js";
+import { parseQuorumPolicy } from "./utils/publish.util.js";
+import { defaultPersonasPath, loadPersonas } from "./personas/index.js";
+import type { ServerDeps } from "./tools/index.js";
 
 // ==================== Configuration Section ====================
 /**
@@ -84,17 +95,23 @@ const RELAYS = [
 ];
 
 /**
- * OpenRouter API Configuration
+ * LLM Provider Configuration
  * 
- * API token for calling the OpenRouter API for funny responses
- * This should be stored in the .env file as OPEN_ROUTER_KEY
+ * Tools call an LLM through a pluggable provider layer (src/llm):
+ * - LLM_PROVIDER selects the default provider: openrouter (default), openai-compatible or mock
+ * - LLM_PROVIDER_<TOOL> / LLM_MODEL_<TOOL> override the provider or model per tool
+ * - OpenRouter needs OPEN_ROUTER_KEY in the .env file
+ * - openai-compatible (llama.cpp/Ollama) needs OPENAI_COMPAT_BASE_URL and OPENAI_COMPAT_MODEL
  */
 const OPEN_ROUTER_KEY = process.env.OPEN_ROUTER_KEY;
+const llmConfig = createLLMConfig();
 
-if (!OPEN_ROUTER_KEY) {
+if (llmConfig.defaultKind === 'openrouter' && !OPEN_ROUTER_KEY) {
   console.warn("⚠️  OPEN_ROUTER_KEY not found in environment!");
-  console.warn("   The funny_agent tool will not work without it.");
-  console.warn("   Add OPEN_ROUTER_KEY=your_token to .env file");
+  console.warn("   Tools using the openrouter provider will not work without it.");
+  console.warn("   Add OPEN_ROUTER_KEY=your_token to .env file, or set LLM_PROVIDER");
+} else {
+  console.log(`🤖 Default LLM provider: ${llmConfig.defaultKind}`);
 }
 
 /**
@@ -103,6 +120,10 @@ if (!OPEN_ROUTER_KEY) {
  * POW_DIFFICULTY sets the number of leading zero bits required for Nostr events
  * Higher values = more computational work but better spam resistance
  * Default: 0 (disabled), Recommended: 16-20 for production
+ * 
+ * Published notes are also mined to the highest min_pow_difficulty advertised
+ * by the relays (NIP-11). POW_MAX_DIFFICULTY / POW_MAX_DIFFICULTY_<TOOL> cap
+ * that cost; relays requiring more are skipped and listed in the tool response.
  */
 const POW_DIFFICULTY = parseInt(process.env.POW_DIFFICULTY || '0');
 
@@ -112,86 +133,93 @@ if (POW_DIFFICULTY > 0) {
     console.warn("   ⚠️  High PoW difficulty may cause long mining times");
   }
 } else {
-  console.log("⛏️  Proof of Work disabled (POW_DIFFICULTY=0)");
+  console.log("⛏️  Proof of Work disabled (POW_DIFFICULTY=0) unless relays require it");
+}
+if (process.env.POW_MAX_DIFFICULTY) {
+  console.log(`   PoW cost cap: ${process.env.POW_MAX_DIFFICULTY} bits (relays requiring more are skipped)`);
 }
 
 /**
- * Craig David Publishing Configuration
+ * Publish Quorum Configuration
  * 
- * CRAIG_DAVID contains the private key for the Craig David persona
- * This key will be used to sign and publish summary events
+ * PUBLISH_QUORUM sets how many relays must accept (NIP-20 OK) a published note
+ * before a tool reports it as published. Accepts a number, "majority" or "all".
+ * Default: 1
  */
-const CRAIG_DAVID_KEY = process.env.CRAIG_DAVID;
-
-if (!CRAIG_DAVID_KEY) {
-  console.warn("⚠️  CRAIG_DAVID private key not found in environment!");
-  console.warn("   Summary events will be published from server key instead.");
-  console.warn("   Add CRAIG_DAVID=private_key_hex to .env file");
-} else {
-  // Validate the key format (should be 64 hex characters)
-  if (!/^[0-9a-fA-F]{64}$/.test(CRAIG_DAVID_KEY.trim())) {
-    console.error("❌ Invalid CRAIG_DAVID key format in .env file!");
-    console.error("   Expected: 64 hexadecimal characters");
-    console.error("   Got:", CRAIG_DAVID_KEY.length, "characters");
-    process.exit(1);
-  }
-  
-  // Get Craig David's public key for display
-  const craigDavidSecretKey = Buffer.from(CRAIG_DAVID_KEY, 'hex');
-  const craigDavidPubkey = getPublicKey(craigDavidSecretKey);
-  console.log(`🎵 Craig David key configured: ${craigDavidPubkey}`);
-}
+const PUBLISH_QUORUM = parseQuorumPolicy(process.env.PUBLISH_QUORUM);
+console.log(`📡 Publish quorum: ${PUBLISH_QUORUM}${typeof PUBLISH_QUORUM === 'number' ? ' relay(s)' : ''}`);
 
 /**
- * Roast Account Configuration
+ * Persona Configuration
  * 
- * ROAST_PRIV contains the private key for the roasting account
- * This key will be used to sign and publish roast events
+ * Personas (Craig David, Roast Bot, ...) are defined in personas.json, or the
+ * file named by PERSONAS_FILE. Each persona names the env var holding its
+ * private key (e.g. CRAIG_DAVID, ROAST_PRIV) and its per-tool prompts, model,
+ * client tag, hashtags and content template. Personas without a configured
+ * key publish from the server key instead.
  */
-const ROAST_PRIV = process.env.ROAST_PRIV;
-
-if (!ROAST_PRIV) {
-  console.warn("⚠️  ROAST_PRIV private key not found in environment!");
-  console.warn("   Roast events will be published from server key instead.");
-  console.warn("   Add ROAST_PRIV=private_key_hex to .env file");
-} else {
-  // Validate the key format (should be 64 hex characters)
-  if (!/^[0-9a-fA-F]{64}$/.test(ROAST_PRIV.trim())) {
-    console.error("❌ Invalid ROAST_PRIV key format in .env file!");
-    console.error("   Expected: 64 hexadecimal characters");
-    console.error("   Got:", ROAST_PRIV.length, "characters");
+const personas = (() => {
+  const personasPath = defaultPersonasPath();
+  try {
+    return loadPersonas(personasPath, SERVER_PRIVATE_KEY_HEX);
+  } catch (error) {
+    console.error("❌ Failed to load personas:", error instanceof Error ? error.message : error);
     process.exit(1);
   }
-  
-  // Get Roast account's public key for display
-  const roastSecretKey = Buffer.from(ROAST_PRIV, 'hex');
-  const roastPubkey = getPublicKey(roastSecretKey);
-  console.log(`🔥 Roast account key configured: ${roastPubkey}`);
-}
+})();
+
+personas.list().forEach(persona => {
+  if (persona.hasOwnKey) {
+    console.log(`🎭 Persona ${persona.id} (${persona.displayName}) key configured: ${persona.pubkey} [${persona.tools.join(', ')}]`);
+  } else {
+    console.warn(`⚠️  Persona ${persona.id} (${persona.displayName}) has no private key in environment!`);
+    console.warn(`   ${persona.tools.join(', ')} events will be published from server key instead.`);
+  }
+});
 
 /**
  * Whitelisting Configuration
  * 
  * APPROVED_KEY contains comma-separated public keys that are allowed to access the server
- * Format: "key1,key2,key3" or just "key1"
+ * Format: "key1,key2,key3" or just "key1" (hex or npub)
  * If not provided, any client can connect
+ * 
+ * ADMIN_PUBKEYS may manage the allowlist at runtime (allowlist_add / _remove / _list);
+ * runtime keys are persisted in ALLOWLIST_FILE. ALLOWLIST_NIP51 follows a NIP-51
+ * list published by the operator (naddr or "<kind>:<pubkey>[:<d tag>]").
  */
-const APPROVED_KEY = process.env.APPROVED_KEY;
-const allowedPublicKeys = APPROVED_KEY 
-  ? APPROVED_KEY.split(',').map(key => key.trim()).filter(key => key.length > 0)
-  : undefined;
+const adminPubkeys = parsePubkeyList(process.env.ADMIN_PUBKEYS, 'ADMIN_PUBKEYS');
+const access = (() => {
+  try {
+    return createAccessControl({
+      envKeys: parsePubkeyList(process.env.APPROVED_KEY, 'APPROVED_KEY'),
+      adminKeys: adminPubkeys,
+      listAddress: parseListAddress(process.env.ALLOWLIST_NIP51)
+    });
+  } catch (error) {
+    console.error("❌ Invalid allowlist configuration:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+})();
+const allowedPublicKeys = access.allowedKeys();
 
-if (allowedPublicKeys && allowedPublicKeys.length > 0) {
+if (access.isEnforced()) {
   console.log("🔒 Whitelisting enabled");
   console.log(`   Approved keys (${allowedPublicKeys.length}):`);
-  allowedPublicKeys.forEach((key, index) => {
-    const displayKey = key.length > 16 ? `${key.substring(0, 16)}...` : key;
-    console.log(`   ${index + 1}. ${displayKey}`);
+  access.list().forEach((entry, index) => {
+    console.log(`   ${index + 1}. ${entry.pubkey.substring(0, 16)}... (${entry.sources.join(', ')})`);
   });
+  if (access.listAddress) {
+    const { kind, pubkey, identifier } = access.listAddress;
+    console.log(`   Following NIP-51 list ${kind}:${pubkey.substring(0, 16)}...${identifier !== undefined ? `:${identifier}` : ''}`);
+  }
 } else {
   console.log("🌐 Open access - no whitelisting configured");
   console.log("   Add APPROVED_KEY=key1,key2 to .env file for whitelisting");
 }
+if (adminPubkeys.length > 0) {
+  console.log(`🛡️  Admin keys (${adminPubkeys.length}): ${adminPubkeys.map(key => `${key.substring(0, 16)}...`).join(', ')}`);
+}
 
 // ==================== Main Server Logic ====================
 async function main() {
@@ -255,123 +283,89 @@ async function main() {
   );
 
   // -------------------- Step 4: Register Server Request Handlers --------------------
+  // Paid tools: TOOL_PRICE_<TOOL> sats per call, debited from credit topped up via cashu_access
+  const credits = createCreditLedger({ tools: tools.map(tool => tool.name) });
+  const pricedTools = Object.entries(credits.prices());
+  if (pricedTools.length > 0) {
+    console.log(`💰 Paid tools: ${pricedTools.map(([tool, price]) => `${tool}=${price} sats`).join(', ')}`);
+  }
+
   /**
    * Request handlers process incoming requests from clients.
    * We need to handle:
    * - tools/list: Returns available tools
    * - tools/call: Executes a specific tool
+   *
+   * Each tool lives in its own module under src/tools; the registry turns
+   * their zod schemas into the tools/list output and validates call arguments.
+   *
+   * Long-running tools accept `async: true`: the call is stored on the job
+   * queue (JOBS_FILE, default data/jobs.json) and run in the background, and
+   * clients collect the outcome with job_status / job_result.
    */
-  
+  const jobQueue = createJobQueue({
+    execute: (job, hooks) => toolRegistry.callTool(job.tool, job.args, createJobToolContext(toolDeps, job, hooks)),
+    credits
+  });
+
+  // Per-client rate limits, daily quotas and concurrency caps (RATE_LIMIT_<TOOL>, ...)
+  const rateLimits = createRateLimiter();
+  tools.forEach(tool => {
+    const limits = rateLimits.limitsFor(tool.name);
+    const parts = [
+      limits.rate ? `rate ${limits.rate.label}` : '',
+      limits.dailyQuota ? `${limits.dailyQuota}/day` : '',
+      limits.maxConcurrent ? `${limits.maxConcurrent} concurrent` : ''
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      console.log(`🚦 ${tool.name} limits: ${parts.join(', ')}`);
+    }
+  });
+
+  // Subjects who asked not to be roasted or summarised (OPTOUT_FILE, OPTOUT_POLICY)
+  const optOuts = createOptOutRegistry();
+  console.log(`🙅 Opt-out registry: ${optOuts.list().length} subject(s), policy "${optOuts.policy}"`);
+
+  // Pre-publish content checks on generated notes (MODERATION_*)
+  let moderation;
+  try {
+    moderation = createModerator({ llm: llmConfig });
+  } catch (error) {
+    console.error("❌ Invalid moderation configuration:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  const { blockedTerms, blockedPatterns, maxLength, doxxing } = moderation.rules;
+  console.log(`🛡️  Moderation: ${blockedTerms.length} blocked term(s), ${blockedPatterns.length} pattern(s)${maxLength ? `, max ${maxLength} chars` : ''}${doxxing ? ', doxxing checks' : ''}${process.env.MODERATION_CLASSIFIER === 'true' ? ', LLM classifier' : ''}`);
+
+  const toolDeps: ServerDeps = {
+    signer,
+    relayPool,
+    serverPrivateKey: SERVER_PRIVATE_KEY_HEX,
+    llm: llmConfig,
+    personas,
+    powDifficulty: POW_DIFFICULTY,
+    publishQuorum: PUBLISH_QUORUM,
+    jobs: jobQueue,
+    credits,
+    cashuProofs: createSeenProofStore(),
+    rateLimits,
+    access,
+    // Notes generated with publish: false wait here for publish_draft / discard_draft
+    drafts: createDraftStore(),
+    optOuts,
+    moderation,
+    // Published notes, so delete_publication can withdraw them
+    publications: createPublicationLog(),
+  };
+  const toolRegistry = createToolRegistry(tools, toolDeps);
+
   // Handler for listing available tools
   // This tells clients what tools this server provides
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     console.log("📋 Client requested tool list");
     
     return {
-      tools: [
-        {
-          name: "cashu_access",
-          description: "Redeem a Cashu token via NCTool using server pubkey; returns ACCESS_GRANTED/ACCESS_DENIED.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              encodedToken: { type: "string", description: "Cashu token (cashuA...)" },
-              minAmount: { type: "number", description: "Minimum sats required (default 256)" }
-            },
-            required: ["encodedToken"]
-          }
-        },
-        {
-          name: "funny_agent",
-          description: "Generates responses using OpenRouter API with multimodal support (text + images). Uses Gemini 2.0 Flash for images, GPT via Groq for text-only.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              question: {
-                type: "string",
-                description: "The question or input (may include image URLs). Supported formats: .jpg, .png, .gif, .webp, or imgur/discord links"
-              }
-            },
-            required: ["question"]
-          }
-        },
-        {
-          name: "summarise",
-          description: "Creates a humorous summary of someone's day and posts it as a Kind 1 Nostr event. Uses multimodal AI analysis with automatic Nostr publishing.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              dayInput: {
-                type: "string",
-                description: "Description of what the person has been up to (may include image URLs). The AI will create a humorous summary and post it to Nostr."
-              },
-              pubkey: {
-                type: "string",
-                description: "The hex public key (64 chars) of the person whose day is being summarized. Used for the 'p' tag in the Nostr event."
-              }
-            },
-            required: ["dayInput", "pubkey"]
-          }
-        },
-        {
-          name: "weekly_summary",
-          description: "Creates a Craig David style '7 Days' rap summary of the week's activities and publishes it to Nostr.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              weeklyInput: {
-                type: "string",
-                description: "Combined summary of the week's activities. The AI will create a Craig David style rap and post it to Nostr."
-              },
-              pubkey: {
-                type: "string",
-                description: "The hex public key (64 chars) of the person whose week is being summarized. Used for the 'p' tag in the Nostr event."
-              }
-            },
-            required: ["weeklyInput", "pubkey"]
-          }
-        },
-        {
-          name: "roastNpub",
-          description: "Creates a witty, observational roast of social media posts and publishes it to Nostr from a dedicated roast account.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              socialPosts: {
-                type: "string",
-                description: "Collection of social media posts to roast. The AI will create witty, observational comedy roasts and post them to Nostr."
-              },
-              pubkey: {
-                type: "string",
-                description: "The hex public key (64 chars) of the person being roasted. Used for the 'p' tag in the Nostr event."
-              }
-            },
-            required: ["socialPosts", "pubkey"]
-          }
-        },
-        {
-          name: "montage",
-          description: "Creates a 30-second video montage from files in a directory using the otherstuff.studio API.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              dir: {
-                type: "string",
-                description: "Directory path containing files to create montage from (e.g., ~/code/cdtest/cdtest)"
-              },
-              prompt: {
-                type: "string",
-                description: "Prompt describing how to create the montage (e.g., 'Please create a 30 second montage video as per your instructions from these files.')"
-              },
-              pubkey: {
-                type: "string",
-                description: "The hex public key (64 chars) of the user requesting the montage."
-              }
-            },
-            required: ["dir", "prompt", "pubkey"]
-          }
-        }
-      ]
+      tools: toolRegistry.listTools()
     };
   });
 
@@ -384,444 +378,8 @@ async function main() {
     console.log(`\n🔧 Tool called: ${name}`);
     console.log(`   Arguments: ${JSON.stringify(args)}`);
 
-    // Progress utilities (MCP progress notifications)
-    const progressToken = (extra as any)?._meta?.progressToken;
-    const canProgress = Boolean(progressToken) && typeof (extra as any)?.sendNotification === 'function';
-    const sendProgress = async (progress: number, total?: number, message?: string) => {
-      if (!canProgress) return;
-      try {
-        await (extra as any).sendNotification({
-          method: "notifications/progress",
-          params: {
-            progress,
-            ...(typeof total === 'number' ? { total } : {}),
-            ...(message ? { message } : {}),
-            progressToken,
-          }
-        });
-      } catch (err) {
-        // Swallow progress errors to avoid breaking the request
-        console.warn('[progress] failed to send progress notification:', (err as any)?.message || err);
-      }
-    };
-    const startHeartbeat = (label: string, intervalMs = Number(process.env.CVM_PROGRESS_HEARTBEAT_MS || 10000)) => {
-      if (!canProgress || intervalMs <= 0) return () => {};
-      const id = setInterval(() => {
-        // Heartbeat message to keep clients aware and reset timeouts
-        sendProgress(0, undefined, `${label} – still working...`);
-      }, intervalMs);
-      // Stop on abort
-      (extra as any)?.signal?.addEventListener?.('abort', () => clearInterval(id));
-      return () => clearInterval(id);
-    };
-
-    // Route to the appropriate tool handler based on the tool name
-    switch (name) {
-      case "cashu_access": {
-        const NCTOOL_BASE_URL = process.env.NCTOOL_BASE_URL || 'http://localhost:3041';
-        const DEFAULT_MIN = parseInt(process.env.MIN_AMOUNT_DEFAULT || '256', 10);
-
-        if (!args || typeof args !== 'object') {
-          throw new Error("Invalid arguments for cashu_access");
-        }
-        const encodedToken = (args as any).encodedToken as string;
-        const minAmountArg = (args as any).minAmount as number | undefined;
-        if (!encodedToken || typeof encodedToken !== 'string') {
-          throw new Error("encodedToken is required and must be a string");
-        }
-        const threshold = Number.isFinite(minAmountArg) ? Math.max(1, Math.floor(minAmountArg!)) : DEFAULT_MIN;
-
-        const start = Date.now();
-        const correlationId = (globalThis.crypto as any)?.randomUUID?.() || Math.random().toString(36).slice(2);
-
-        // Build URL using configured wallet npub (from .env) or fall back to server pubkey
-        const configuredNpub = (process.env.CASHU_WALL || '').trim();
-        let walletIdForPath: string;
-        if (configuredNpub && configuredNpub.startsWith('npub') && configuredNpub.length >= 10) {
-          walletIdForPath = configuredNpub;
-        } else {
-          const fallback = await signer.getPublicKey();
-          walletIdForPath = fallback;
-          console.warn('[cashu_access] CASHU_WALL not set or invalid; falling back to server pubkey for wallet path');
-        }
-        const base = NCTOOL_BASE_URL.replace(/\/$/, '');
-        const url = `${base}/api/wallet/${walletIdForPath}/receive`;
-
-        let amount = 0;
-        let mintUrl: string | undefined;
-        try {
-          const controller = (AbortSignal as any)?.timeout
-            ? undefined
-            : new AbortController();
-          const timeoutId = controller ? setTimeout(() => controller.abort(), 10_000) : undefined;
-
-          const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Req-Id': String(correlationId),
-            },
-            body: JSON.stringify({ encodedToken }),
-            signal: (AbortSignal as any)?.timeout ? (AbortSignal as any).timeout(10_000) : controller!.signal,
-          } as any);
-
-          if (timeoutId) clearTimeout(timeoutId as any);
-
-          if (!res.ok) {
-            const errText = await safeText(res);
-            logDecision('ACCESS_DENIED', correlationId, start, 0, threshold);
-            return mcpText({ decision: 'ACCESS_DENIED', amount: 0, reason: `nctool_error: ${res.status} ${res.statusText} ${errText}` , mode: 'redeem' });
-          }
-
-          const data: any = await res.json();
-          amount = Number(data?.totalAmount || 0);
-          mintUrl = data?.mintUrl;
-        } catch (e: any) {
-          logDecision('ACCESS_DENIED', correlationId, start, 0, threshold);
-          return mcpText({ decision: 'ACCESS_DENIED', amount: 0, reason: `nctool_error: ${e?.message || 'network'}`, mode: 'redeem' });
-        }
-
-        if (amount >= threshold) {
-          logDecision('ACCESS_GRANTED', correlationId, start, amount, threshold);
-          return mcpText({ decision: 'ACCESS_GRANTED', amount, reason: 'redeemed ok', mintUrl, mode: 'redeem' });
-        }
-        logDecision('ACCESS_DENIED', correlationId, start, amount, threshold);
-        return mcpText({ decision: 'ACCESS_DENIED', amount, reason: `below min ${threshold}`, mintUrl, mode: 'redeem' });
-
-        async function safeText(res: any) { try { return await res.text(); } catch { return ''; } }
-        function mcpText(obj: any) { return { content: [{ type: 'text', text: JSON.stringify(obj) }] }; }
-        function logDecision(outcome: 'ACCESS_GRANTED'|'ACCESS_DENIED', corrId: string, started: number, amt: number, thr: number) {
-          const elapsedMs = Date.now() - started;
-          console.log('[cashu_access]', JSON.stringify({ correlationId: corrId, mode: 'redeem', amount: amt, threshold: thr, outcome, elapsedMs }));
-        }
-      }
-       case "funny_agent": {
-        // Funny agent tool implementation
-        // Calls the OpenRouter API to generate funny responses
-        if (!args || typeof args !== 'object') {
-          throw new Error("Invalid arguments for funny_agent tool");
-        }
-        
-        const question = args.question as string;
-        
-        // Check if API token is available
-        if (!OPEN_ROUTER_KEY) {
-          throw new Error("OPEN_ROUTER_KEY not configured. Please set it in .env file");
-        }
-        
-        console.log(`🤡 Craig David called with question: ${question}`);
-        
-        try {
-          // Call the OpenRouter API
-          const funnyResponse = await callOpenRouterAgent(
-            question,
-            OPEN_ROUTER_KEY
-          );
-          
-          // Return the funny response
-          return {
-            content: [
-              {
-                type: "text",
-                text: funnyResponse
-              }
-            ]
-          };
-        } catch (error) {
-          console.error("❌ Failed to call OpenRouter API:", error);
-          
-          // Return a friendly error message
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Sorry, I couldn't get a funny response right now. Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-              }
-            ]
-          };
-        }
-      }
-
-      case "summarise": {
-        // Summarise tool implementation
-        // Creates humorous day summaries and posts them to Nostr
-        if (!args || typeof args !== 'object') {
-          throw new Error("Invalid arguments for summarise tool");
-        }
-        
-        const dayInput = args.dayInput as string;
-        const subjectPubkey = args.pubkey as string;
-        
-        // Check if API token is available
-        if (!OPEN_ROUTER_KEY) {
-          throw new Error("OPEN_ROUTER_KEY not configured. Please set it in .env file");
-        }
-        
-        console.log(`📝 Craig David summarising day for pubkey: ${subjectPubkey}`);
-        console.log(`   Content preview: ${dayInput.substring(0, 100)}...`);
-        
-        try {
-          await sendProgress(0, 3, 'Starting day summary');
-          await sendProgress(1, 3, 'Generating AI summary');
-          const stopBeat = startHeartbeat('summarise');
-          // Create and publish summary
-          const publishingKey = CRAIG_DAVID_KEY || SERVER_PRIVATE_KEY_HEX;
-          const result = await createAndPublishSummary(
-            dayInput,
-            subjectPubkey,
-            OPEN_ROUTER_KEY,
-            publishingKey,
-            relayPool,
-            POW_DIFFICULTY
-          );
-          stopBeat();
-          await sendProgress(2, 3, result.published ? 'Publishing to Nostr' : 'Generated; publishing may have failed');
-          
-          if (result.published) {
-            const responseText = `${result.summary}\n\n🎵 Summary published to Nostr!\nEvent ID: ${result.nostrEventId}\nSubject Pubkey: ${subjectPubkey}`;
-            await sendProgress(3, 3, 'Summary complete');
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
-                }
-              ]
-            };
-          } else {
-            const responseText = `${result.summary}\n\n⚠️ Summary generated but failed to publish to Nostr: ${result.error}\nSubject Pubkey: ${subjectPubkey}`;
-            await sendProgress(3, 3, 'Summary generated; publish failed');
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
-                }
-              ]
-            };
-          }
-        } catch (error) {
-          console.error("❌ Failed to create summary:", error);
-          await sendProgress(3, 3, `Summary failed: ${(error as any)?.message || 'unknown error'}`);
-          
-          // Return a friendly error message
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Sorry, I couldn't create a summary right now. Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-              }
-            ]
-          };
-        }
-      }
-      
-      case "weekly_summary": {
-        // Weekly summary tool implementation
-        // Creates Craig David style rap summaries and posts them to Nostr
-        if (!args || typeof args !== 'object') {
-          throw new Error("Invalid arguments for weekly_summary tool");
-        }
-        
-        const weeklyInput = args.weeklyInput as string;
-        const subjectPubkey = args.pubkey as string;
-        
-        // Check if API token is available
-        if (!OPEN_ROUTER_KEY) {
-          throw new Error("OPEN_ROUTER_KEY not configured. Please set it in .env file");
-        }
-        
-        console.log(`🎤 Craig David creating weekly rap for pubkey: ${subjectPubkey}`);
-        console.log(`   Content preview: ${weeklyInput.substring(0, 100)}...`);
-        
-        try {
-          await sendProgress(0, 4, 'Starting weekly summary');
-          await sendProgress(1, 4, 'Generating rap with AI');
-          const stopBeat = startHeartbeat('weekly_summary');
-          // Create and publish weekly rap
-          const publishingKey = CRAIG_DAVID_KEY || SERVER_PRIVATE_KEY_HEX;
-          const result = await createAndPublishWeeklyRap(
-            weeklyInput,
-            subjectPubkey,
-            OPEN_ROUTER_KEY,
-            publishingKey,
-            relayPool,
-            POW_DIFFICULTY
-          );
-          stopBeat();
-          await sendProgress(2, 4, result.published ? 'Publishing weekly rap to Nostr' : 'Generated; publishing may have failed');
-          
-          if (result.published) {
-            const responseText = `${result.summary}\n\n🎵 Weekly rap published to Nostr!\nEvent ID: ${result.nostrEventId}`;
-            await sendProgress(4, 4, 'Weekly summary complete');
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
-                }
-              ]
-            };
-          } else {
-            const responseText = `${result.summary}\n\n⚠️ Rap generated but failed to publish to Nostr: ${result.error}`;
-            await sendProgress(4, 4, 'Weekly summary generated; publish failed');
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
-                }
-              ]
-            };
-          }
-        } catch (error) {
-          console.error("❌ Failed to create weekly rap:", error);
-          await sendProgress(4, 4, `Weekly summary failed: ${(error as any)?.message || 'unknown error'}`);
-          
-          // Return a friendly error message
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Sorry, I couldn't create a weekly rap right now. Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-              }
-            ]
-          };
-        }
-      }
-
-      case "roastNpub": {
-        // RoastNpub tool implementation
-        // Creates witty roasts of social media posts and publishes them to Nostr
-        if (!args || typeof args !== 'object') {
-          throw new Error("Invalid arguments for roastNpub tool");
-        }
-        
-        const socialPosts = args.socialPosts as string;
-        const subjectPubkey = args.pubkey as string;
-        
-        // Check if API token is available
-        if (!OPEN_ROUTER_KEY) {
-          throw new Error("OPEN_ROUTER_KEY not configured. Please set it in .env file");
-        }
-        
-        console.log(`🔥 Creating roast for pubkey: ${subjectPubkey}`);
-        console.log(`   Content preview: ${socialPosts.substring(0, 100)}...`);
-        
-        try {
-          // Create and publish roast
-          const roastKey = ROAST_PRIV || SERVER_PRIVATE_KEY_HEX;
-          const result = await createAndPublishRoast(
-            socialPosts,
-            subjectPubkey,
-            OPEN_ROUTER_KEY,
-            roastKey,
-            relayPool,
-            POW_DIFFICULTY
-          );
-          
-          if (result.published) {
-            const responseText = `${result.summary}\n\n🔥 Roast published to Nostr!\nEvent ID: ${result.nostrEventId}\nSubject Pubkey: ${subjectPubkey}`;
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
-                }
-              ]
-            };
-          } else {
-            const responseText = `${result.summary}\n\n⚠️ Roast generated but failed to publish to Nostr: ${result.error}\nSubject Pubkey: ${subjectPubkey}`;
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: responseText
-                }
-              ]
-            };
-          }
-        } catch (error) {
-          console.error("❌ Failed to create roast:", error);
-          
-          // Return a friendly error message
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Sorry, I couldn't create a roast right now. Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-              }
-            ]
-          };
-        }
-      }
-
-      case "montage": {
-        // Montage creation tool implementation
-        // Creates video montage using otherstuff.studio API
-        if (!args || typeof args !== 'object') {
-          throw new Error("Invalid arguments for montage tool");
-        }
-        
-        const dir = args.dir as string;
-        const prompt = args.prompt as string;
-        const pubkey = args.pubkey as string;
-        
-        // Validate required arguments
-        if (!dir || typeof dir !== 'string') {
-          throw new Error("dir is required and must be a string");
-        }
-        if (!prompt || typeof prompt !== 'string') {
-          throw new Error("prompt is required and must be a string");
-        }
-        if (!pubkey || typeof pubkey !== 'string') {
-          throw new Error("pubkey is required and must be a string");
-        }
-        
-        console.log(`🎬 Creating video montage for pubkey: ${pubkey}`);
-        console.log(`   Directory: ${dir}`);
-        console.log(`   Prompt preview: ${prompt.substring(0, 100)}...`);
-        
-        try {
-          // Create the montage
-          const result = await createMontage(dir, prompt, pubkey);
-          
-          console.log("✅ Montage creation triggered successfully");
-          
-          // Return success response
-          return {
-            content: [
-              {
-                type: "text",
-                text: result
-              }
-            ]
-          };
-        } catch (error) {
-          console.error("❌ Failed to create montage:", error);
-          
-          // Return a friendly error message
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Failed to create montage: ${error instanceof Error ? error.message : 'Unknown error'}`
-              }
-            ]
-          };
-        }
-      }
-
-      default:
-        // Handle unknown tools
-        throw new Error(`Unknown tool: ${name}`);
-    }
+    // Validate arguments and route to the tool's handler
+    return toolRegistry.callTool(name, args, createToolContext(toolDeps, extra));
   });
 
   // -------------------- Step 5: Configure Nostr Transport --------------------
@@ -842,10 +400,10 @@ async function main() {
     signer,                          // Cryptographic signer for this server
     relayHandler: relayPool,         // Relay pool for network communication
     isPublicServer: true,            // Announce this server publicly on Nostr
-    allowedPublicKeys,               // Whitelist of allowed client public keys
     excludedCapabilities: [
       { method: "tools/list" },      // Allow any client to discover available tools
     ],
+    injectClientPubkey: true,        // Expose the caller's pubkey to tools (credits, job ownership)
     serverInfo: {
       name: "Craig David",                  // Human-readable server name
       about: "A groovy multimodal MCP server on Nostr with AI responses and day summaries - filling up your garage with beats, laughs, and Nostr posts", // Server description
@@ -853,6 +411,20 @@ async function main() {
     },
   });
 
+  // The allowlist is checked on each tool call, so NIP-51 list updates apply straight away
+  access.startListSync(relayPool);
+
+  // Subjects opt out (or back in) by DM or mention to any persona account
+  const optOutInboxes = new Map<string, OptOutInbox>();
+  personas.list().forEach(summary => {
+    if (summary.tools.length === 0) return;
+    const persona = personas.forTool(summary.tools[0], summary.id);
+    if (!optOutInboxes.has(persona.pubkey)) {
+      optOutInboxes.set(persona.pubkey, { pubkey: persona.pubkey, privateKey: persona.privateKey, label: persona.displayName });
+    }
+  });
+  optOuts.startListening(relayPool, [...optOutInboxes.values()]);
+
   // -------------------- Step 6: Connect and Start Server --------------------
   /**
    * Connect the MCP server to the Nostr transport.
@@ -868,30 +440,31 @@ async function main() {
   try {
     // Connect the server to the transport
     await server.connect(serverTransport);
+
+    // Pick up jobs left over from a previous run
+    jobQueue.start();
     
     // Server is now running
     console.log("\n" + "=" .repeat(50));
     console.log("✅ Server is running and listening for requests!");
     console.log("\n📋 Server Details:");
     console.log(`   Server Public Key: ${serverPubkey}`);
-    if (CRAIG_DAVID_KEY) {
-      const craigDavidSecretKey = Buffer.from(CRAIG_DAVID_KEY, 'hex');
-      const craigDavidPubkey = getPublicKey(craigDavidSecretKey);
-      console.log(`   Craig David Public Key: ${craigDavidPubkey} (used for summaries)`);
-    } else {
-      console.log(`   Craig David Key: Not configured (using server key for summaries)`);
-    }
+    personas.list().forEach(persona => {
+      const keyNote = persona.hasOwnKey ? '' : ' (server key)';
+      console.log(`   ${persona.displayName} Public Key: ${persona.pubkey}${keyNote} (used for ${persona.tools.join(', ')})`);
+    });
     console.log(`   Name: Craig David`);
-    console.log(`   Available Tools: funny_agent (multimodal), summarise (+ Nostr), weekly_summary (+ Nostr), roastNpub (+ Nostr)`);
+    console.log(`   Available Tools: ${toolRegistry.names().join(', ')}`);
+    console.log(`   LLM Providers: ${toolRegistry.names().map(tool => `${tool}=${llmConfig.kindForTool(tool)}`).join(', ')}`);
     if (OPEN_ROUTER_KEY) {
-      console.log(`   OpenRouter API: Connected (Gemini 2.0 Flash + GPT via Groq)`);
+      console.log(`   OpenRouter API: Configured`);
     } else {
       console.log(`   OpenRouter API: Not configured`);
     }
     
     // Display access control status
-    if (allowedPublicKeys && allowedPublicKeys.length > 0) {
-      console.log(`   Access Control: Whitelisted (${allowedPublicKeys.length} approved keys)`);
+    if (access.isEnforced()) {
+      console.log(`   Access Control: Whitelisted (${access.allowedKeys().length} approved keys${access.listAddress ? ', NIP-51 list' : ''})`);
       console.log(`   Public Access: tools/list only (for discovery)`);
     } else {
       console.log(`   Access Control: Open (any client can connect)`);
@@ -915,6 +488,10 @@ async function main() {
     console.log("\n\n🛑 Shutting down server...");
     
     try {
+      // Stop taking new jobs; unfinished ones resume on the next start
+      jobQueue.stop();
+      access.stop();
+      optOuts.stop();
       // Close transport and relay connections
       await serverTransport.close();
       console.log("✅ Server stopped gracefully");
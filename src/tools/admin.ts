@@ -0,0 +1,19 @@
+/**
+ * Shared helpers for admin-only tools
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from './types.js';
+import type { AccessControl } from '../access/index.js';
+
+/**
+ * Fails the call unless the caller is one of ADMIN_PUBKEYS
+ * @param ctx Tool context
+ * @returns The access control and the admin's pubkey
+ */
+export function requireAdmin(ctx: ToolContext): { access: AccessControl; admin: string } {
+  if (!ctx.access || !ctx.clientPubkey || !ctx.access.isAdmin(ctx.clientPubkey)) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Forbidden: this tool is restricted to server admins (ADMIN_PUBKEYS)');
+  }
+  return { access: ctx.access, admin: ctx.clientPubkey };
+}
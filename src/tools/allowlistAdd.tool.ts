@@ -0,0 +1,33 @@
+/**
+ * allowlist_add tool (admin only)
+ *
+ * Grants a client access without editing .env or restarting the server
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { requireAdmin } from './admin.js';
+import { identityArgument, resolveIdentityArgument } from './identity.js';
+
+const schema = z.object({
+  pubkey: identityArgument("Client public key."),
+  note: z.string().max(200).optional().describe("Optional note, e.g. who the key belongs to")
+});
+
+export const allowlistAddTool = defineTool({
+  name: "allowlist_add",
+  description: "Admin only: adds a client public key to the persisted allowlist. Takes effect immediately.",
+  schema,
+  async handler({ pubkey, note }, ctx) {
+    const { access, admin } = requireAdmin(ctx);
+    const { pubkey: key } = await resolveIdentityArgument(pubkey);
+
+    const added = await access.add(key, admin, note);
+    return textResult(JSON.stringify({
+      pubkey: key,
+      added,
+      ...(added ? {} : { reason: 'already on the runtime allowlist' }),
+      allowedKeys: access.allowedKeys().length
+    }, null, 2));
+  }
+});
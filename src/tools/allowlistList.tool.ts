@@ -0,0 +1,29 @@
+/**
+ * allowlist_list tool (admin only)
+ *
+ * Lists every allowed key and where it comes from
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { requireAdmin } from './admin.js';
+
+const schema = z.object({});
+
+export const allowlistListTool = defineTool({
+  name: "allowlist_list",
+  description: "Admin only: lists the allowed client public keys with their source (env, runtime, nip51, admin).",
+  schema,
+  async handler(_args, ctx) {
+    const { access } = requireAdmin(ctx);
+
+    return textResult(JSON.stringify({
+      enforced: access.isEnforced(),
+      ...(access.listAddress ? { nip51List: access.listAddress } : {}),
+      keys: access.list().map(entry => ({
+        ...entry,
+        ...(entry.addedAt ? { addedAt: new Date(entry.addedAt).toISOString() } : {})
+      }))
+    }, null, 2));
+  }
+});
@@ -0,0 +1,35 @@
+/**
+ * allowlist_remove tool (admin only)
+ *
+ * Revokes a key that was added with allowlist_add
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { requireAdmin } from './admin.js';
+import { identityArgument, resolveIdentityArgument } from './identity.js';
+
+const schema = z.object({
+  pubkey: identityArgument("Client public key.")
+});
+
+export const allowlistRemoveTool = defineTool({
+  name: "allowlist_remove",
+  description: "Admin only: removes a client public key from the persisted allowlist. Keys from APPROVED_KEY or the NIP-51 list must be removed at their source.",
+  schema,
+  async handler({ pubkey }, ctx) {
+    const { access } = requireAdmin(ctx);
+    const { pubkey: key } = await resolveIdentityArgument(pubkey);
+
+    const removed = await access.remove(key);
+    // Tell the admin if the key is still allowed through another source
+    const remaining = access.list().find(entry => entry.pubkey === key)?.sources || [];
+    return textResult(JSON.stringify({
+      pubkey: key,
+      removed,
+      ...(removed ? {} : { reason: 'not on the runtime allowlist' }),
+      ...(remaining.length > 0 ? { stillAllowedVia: remaining } : {}),
+      allowedKeys: access.allowedKeys().length
+    }, null, 2));
+  }
+});
@@ -0,0 +1,35 @@
+/**
+ * balance tool
+ *
+ * Reports the caller's remaining credit and the price of paid tools
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, textResult } from './types.js';
+
+const schema = z.object({
+  history: z.boolean().optional().describe("Include the caller's recent credit transactions")
+});
+
+export const balanceTool = defineTool({
+  name: "balance",
+  description: "Returns your remaining credit in sats and the price of each paid tool. Top up by redeeming a Cashu token with cashu_access.",
+  schema,
+  async handler({ history }, ctx) {
+    if (!ctx.clientPubkey) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Could not identify the calling client');
+    }
+    if (!ctx.credits) {
+      return textResult(JSON.stringify({ pubkey: ctx.clientPubkey, balance: 0, unit: 'sat', prices: {} }));
+    }
+
+    return textResult(JSON.stringify({
+      pubkey: ctx.clientPubkey,
+      balance: ctx.credits.balanceOf(ctx.clientPubkey),
+      unit: 'sat',
+      prices: ctx.credits.prices(),
+      ...(history ? { transactions: ctx.credits.history(ctx.clientPubkey) } : {})
+    }, null, 2));
+  }
+});
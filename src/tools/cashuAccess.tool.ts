@@ -0,0 +1,131 @@
+/**
+ * cashu_access tool
+ *
+ * Redeems a Cashu token through NCTool's wallet receive endpoint and reports
+ * ACCESS_GRANTED when the redeemed amount meets the threshold. Redeemed sats
+ * are credited to the caller's balance for paid tools (see src/credits).
+ * Tokens are decoded locally first so malformed tokens, non-sat units, small
+ * amounts and replays never reach NCTool (see utils/cashu.util.ts).
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult, type ToolContext } from './types.js';
+import { CashuTokenError, decodeCashuToken, type DecodedCashuToken } from '../utils/cashu.util.js';
+
+const schema = z.object({
+  encodedToken: z.string().min(1).describe("Cashu token (cashuA... or cashuB...), sat unit"),
+  minAmount: z.number().optional().describe("Minimum sats required (default 256)")
+});
+
+export const cashuAccessTool = defineTool({
+  name: "cashu_access",
+  description: "Redeem a Cashu token via NCTool using server pubkey; returns ACCESS_GRANTED/ACCESS_DENIED and credits the redeemed sats to your balance for paid tools.",
+  schema,
+  async handler({ encodedToken, minAmount: minAmountArg }, ctx) {
+    const NCTOOL_BASE_URL = process.env.NCTOOL_BASE_URL || 'http://localhost:3041';
+    const DEFAULT_MIN = parseInt(process.env.MIN_AMOUNT_DEFAULT || '256', 10);
+
+    const threshold = Number.isFinite(minAmountArg) ? Math.max(1, Math.floor(minAmountArg!)) : DEFAULT_MIN;
+
+    const start = Date.now();
+    const correlationId = (globalThis.crypto as any)?.randomUUID?.() || Math.random().toString(36).slice(2);
+
+    // Decode locally first: malformed tokens, other units, small amounts and
+    // replays are rejected without a round trip to NCTool
+    let token: DecodedCashuToken;
+    try {
+      token = decodeCashuToken(encodedToken);
+    } catch (e: any) {
+      const code = e instanceof CashuTokenError ? e.code : 'malformed';
+      logDecision('ACCESS_DENIED', correlationId, start, 0, threshold, 'local');
+      return mcpText({ decision: 'ACCESS_DENIED', amount: 0, reason: `invalid_token (${code}): ${e?.message || 'unreadable token'}`, mode: 'local' });
+    }
+    const local = { amount: token.amount, mintUrl: token.mint, unit: token.unit, version: token.version };
+
+    if (token.unit !== 'sat') {
+      logDecision('ACCESS_DENIED', correlationId, start, token.amount, threshold, 'local');
+      return mcpText({ decision: 'ACCESS_DENIED', ...local, reason: `unsupported_unit: ${token.unit} (only sat tokens are accepted)`, mode: 'local' });
+    }
+    if (token.amount < threshold) {
+      logDecision('ACCESS_DENIED', correlationId, start, token.amount, threshold, 'local');
+      return mcpText({ decision: 'ACCESS_DENIED', ...local, reason: `below min ${threshold}`, mode: 'local' });
+    }
+    // Reserve the proofs so the same token can't be processed twice, even concurrently
+    if (ctx.cashuProofs && !(await ctx.cashuProofs.reserve(token.proofs, correlationId))) {
+      logDecision('ACCESS_DENIED', correlationId, start, token.amount, threshold, 'local');
+      return mcpText({ decision: 'ACCESS_DENIED', ...local, reason: 'replay: token already processed', mode: 'local' });
+    }
+
+    // Build URL using configured wallet npub (from .env) or fall back to server pubkey
+    const configuredNpub = (process.env.CASHU_WALL || '').trim();
+    let walletIdForPath: string;
+    if (configuredNpub && configuredNpub.startsWith('npub') && configuredNpub.length >= 10) {
+      walletIdForPath = configuredNpub;
+    } else {
+      const fallback = await ctx.signer.getPublicKey();
+      walletIdForPath = fallback;
+      console.warn('[cashu_access] CASHU_WALL not set or invalid; falling back to server pubkey for wallet path');
+    }
+    const base = NCTOOL_BASE_URL.replace(/\/$/, '');
+    const url = `${base}/api/wallet/${walletIdForPath}/receive`;
+
+    let amount = 0;
+    let mintUrl: string | undefined;
+    try {
+      const controller = (AbortSignal as any)?.timeout
+        ? undefined
+        : new AbortController();
+      const timeoutId = controller ? setTimeout(() => controller.abort(), 10_000) : undefined;
+
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Req-Id': String(correlationId),
+        },
+        body: JSON.stringify({ encodedToken }),
+        signal: (AbortSignal as any)?.timeout ? (AbortSignal as any).timeout(10_000) : controller!.signal,
+      } as any);
+
+      if (timeoutId) clearTimeout(timeoutId as any);
+
+      if (!res.ok) {
+        const errText = await safeText(res);
+        await ctx.cashuProofs?.release(token.proofs);
+        logDecision('ACCESS_DENIED', correlationId, start, 0, threshold);
+        return mcpText({ decision: 'ACCESS_DENIED', amount: 0, reason: `nctool_error: ${res.status} ${res.statusText} ${errText}` , mode: 'redeem' });
+      }
+
+      const data: any = await res.json();
+      amount = Number(data?.totalAmount || 0);
+      mintUrl = data?.mintUrl || token.mint;
+      await ctx.cashuProofs?.commit(token.proofs);
+    } catch (e: any) {
+      // Outcome unknown (timeout/network): keep the proofs reserved rather than risk crediting twice
+      logDecision('ACCESS_DENIED', correlationId, start, 0, threshold);
+      return mcpText({ decision: 'ACCESS_DENIED', amount: 0, reason: `nctool_error: ${e?.message || 'network'}`, mode: 'redeem' });
+    }
+
+    // The sats are in the wallet either way, so credit them even below the threshold
+    const credit = await creditCaller(ctx, amount, correlationId);
+
+    if (amount >= threshold) {
+      logDecision('ACCESS_GRANTED', correlationId, start, amount, threshold);
+      return mcpText({ decision: 'ACCESS_GRANTED', amount, reason: 'redeemed ok', mintUrl, mode: 'redeem', ...credit });
+    }
+    logDecision('ACCESS_DENIED', correlationId, start, amount, threshold);
+    return mcpText({ decision: 'ACCESS_DENIED', amount, reason: `below min ${threshold}`, mintUrl, mode: 'redeem', ...credit });
+  }
+});
+
+async function creditCaller(ctx: ToolContext, amount: number, corrId: string): Promise<{ credited?: number; balance?: number }> {
+  if (!ctx.credits || !ctx.clientPubkey || amount <= 0) return {};
+  const balance = await ctx.credits.credit(ctx.clientPubkey, amount, `cashu_access ${corrId}`);
+  return { credited: amount, balance };
+}
+async function safeText(res: any) { try { return await res.text(); } catch { return ''; } }
+function mcpText(obj: any) { return textResult(JSON.stringify(obj)); }
+function logDecision(outcome: 'ACCESS_GRANTED'|'ACCESS_DENIED', corrId: string, started: number, amt: number, thr: number, mode: 'redeem'|'local' = 'redeem') {
+  const elapsedMs = Date.now() - started;
+  console.log('[cashu_access]', JSON.stringify({ correlationId: corrId, mode, amount: amt, threshold: thr, outcome, elapsedMs }));
+}
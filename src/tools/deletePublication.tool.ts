@@ -0,0 +1,109 @@
+/**
+ * delete_publication tool
+ *
+ * Withdraws a persona note with a NIP-09 deletion request (kind 5), signed by
+ * the persona key that published it
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { finalizeEvent } from 'nostr-tools';
+import { defineTool, textResult } from './types.js';
+import type { Publication } from '../publications/index.js';
+import { formatPublishReport, getPoolRelayUrls, publishWithReceipts } from '../utils/publish.util.js';
+import { fetchEventById, parseEventReference } from '../utils/thread.util.js';
+import { addressOf, LONG_FORM_KIND } from '../utils/article.util.js';
+import { withRelayHints } from '../utils/relayHints.util.js';
+
+const schema = z.object({
+  eventId: z.string().refine(value => parseEventReference(value) !== undefined, 'Expected a 64-character hex event id, a note1 or an nevent')
+    .describe("Note to delete: hex event id, note1 or nevent."),
+  reason: z.string().max(280).optional().describe("Reason shown to clients that display deletion requests.")
+});
+
+export const deletePublicationTool = defineTool({
+  name: "delete_publication",
+  description: "Asks relays to delete a note published by one of the personas (NIP-09). Only the client that requested the note, the subject it tags or an admin can delete it. Reports which relays acknowledged the deletion; relays are not obliged to honour it.",
+  schema,
+  async handler({ eventId, reason }, ctx) {
+    const { id, relays: hints } = parseEventReference(eventId)!;
+    const personas = ctx.personas.list();
+
+    let publication: Omit<Publication, 'publishedAt'> | undefined = ctx.publications?.get(id);
+    if (!publication) {
+      // Not in the log, e.g. published before the log existed
+      const event = await fetchEventById(ctx.relayPool, id, hints);
+      if (!event || ![1, LONG_FORM_KIND].includes(event.kind) || !personas.some(persona => persona.pubkey === event.pubkey)) {
+        throw new McpError(ErrorCode.InvalidParams, `Event ${id} is not a note published by this server`, { reason: 'unknown_publication' });
+      }
+      publication = {
+        eventId: id,
+        kind: event.kind,
+        address: addressOf(event),
+        tool: 'unknown',
+        persona: personas.find(persona => persona.pubkey === event.pubkey)!.id,
+        personaPubkey: event.pubkey,
+        // Without a log entry only the tagged subjects (or an admin) can ask
+        subjectPubkey: event.tags.find(tag => tag[0] === 'p')?.[1],
+        relays: []
+      };
+    }
+
+    const caller = ctx.clientPubkey?.toLowerCase();
+    const allowed = Boolean(caller) && (
+      caller === publication.clientPubkey ||
+      caller === publication.subjectPubkey ||
+      Boolean(ctx.access?.isAdmin(caller))
+    );
+    if (!allowed) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Forbidden: only the client that requested the note, the subject it tags or an admin can delete it',
+        { reason: 'forbidden', eventId: id }
+      );
+    }
+
+    if (publication.deletion) {
+      return textResult(`Event ${id} was already deleted on ${new Date(publication.deletion.at).toISOString()} (deletion event ${publication.deletion.eventId}).`);
+    }
+
+    // Any persona sharing the key can sign; NIP-09 only requires the same pubkey
+    const signer = personas.find(persona => persona.pubkey === publication!.personaPubkey && persona.tools.length > 0);
+    if (!signer) {
+      throw new McpError(ErrorCode.InternalError, `The key that signed ${id} is no longer configured`, { reason: 'signer_unavailable' });
+    }
+    const { privateKey } = ctx.personas.forTool(signer.tools[0], signer.id);
+
+    const deletion = finalizeEvent({
+      kind: 5,
+      created_at: Math.floor(Date.now() / 1000),
+      // The a tag also removes earlier versions of an article replaced under the same address
+      tags: [['e', id], ...(publication.address ? [['a', publication.address]] : []), ['k', String(publication.kind)]],
+      content: reason || ''
+    }, Buffer.from(privateKey, 'hex'));
+
+    console.log(`🗑️  Deleting ${id} as ${signer.displayName} (requested by ${caller!.substring(0, 16)}...)`);
+    // Send it everywhere the note landed as well as to the usual relays (and the nevent's vetted hints)
+    const report = await withRelayHints(ctx.relayPool, hints, extraRelays => {
+      const relayUrls = [...new Set([...getPoolRelayUrls(ctx.relayPool), ...publication!.relays, ...extraRelays])];
+      return publishWithReceipts(ctx.relayPool, deletion, ctx.publishQuorum, { relays: relayUrls });
+    });
+    const acknowledged = report.receipts.filter(receipt => receipt.accepted).map(receipt => receipt.relay);
+
+    if (acknowledged.length > 0 && ctx.publications?.get(id)) {
+      await ctx.publications.markDeleted(id, {
+        eventId: deletion.id,
+        requestedBy: caller,
+        ...(reason ? { reason } : {}),
+        at: Date.now(),
+        relays: acknowledged.filter(relay => relay !== '*')
+      });
+    }
+
+    const relayReport = report.receipts.length > 0 ? `\n\n${formatPublishReport(report)}` : '';
+    if (!report.success) {
+      return { ...textResult(`⚠️ Deletion request for ${id} was not accepted by enough relays: ${report.error}${relayReport}`), isError: true };
+    }
+    return textResult(`🗑️ Deletion requested for ${id}\nDeletion Event ID: ${deletion.id}${relayReport}`);
+  }
+});
@@ -0,0 +1,26 @@
+/**
+ * discard_draft tool
+ *
+ * Drops a note saved in draft mode without publishing it
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { draftIdArgument, requireDraft, requireDrafts } from './drafts.js';
+
+const schema = z.object({
+  draftId: draftIdArgument
+});
+
+export const discardDraftTool = defineTool({
+  name: "discard_draft",
+  description: "Discards a draft created with publish: false. Nothing is published.",
+  schema,
+  async handler({ draftId }, ctx) {
+    const draft = requireDraft(ctx, draftId);
+    const removed = await requireDrafts(ctx).take(draft.id);
+
+    console.log(`🗑️  Draft ${draft.id} discarded`);
+    return textResult(JSON.stringify({ draftId: draft.id, tool: draft.tool, discarded: Boolean(removed) }, null, 2));
+  }
+});
@@ -0,0 +1,73 @@
+/**
+ * Shared helpers for draft mode and the publish_draft / discard_draft tools
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { textResult, type ToolContext, type ToolResult } from './types.js';
+import type { Draft, DraftStore } from '../drafts/index.js';
+import type { SummaryResult } from '../utils/summarise.util.js';
+
+export const publishArgument = z.boolean().default(true).describe(
+  "Set to false to save the generated note as a draft instead of publishing it. The response contains the draft id and the exact unsigned event; release it with publish_draft or drop it with discard_draft."
+);
+
+export const draftIdArgument = z.string().min(1).describe("The draft id returned by a tool called with publish: false");
+
+/**
+ * Returns the server's draft store, or fails the call if drafts are disabled
+ * @param ctx Tool context
+ * @returns DraftStore
+ */
+export function requireDrafts(ctx: ToolContext): DraftStore {
+  if (!ctx.drafts) {
+    throw new McpError(ErrorCode.InvalidParams, 'Drafts are not enabled on this server; call the tool with publish: true');
+  }
+  return ctx.drafts;
+}
+
+/**
+ * Looks up one of the caller's drafts, failing the call with InvalidParams if it does not exist
+ * @param ctx Tool context
+ * @param draftId The draft id
+ * @returns The draft
+ */
+export function requireDraft(ctx: ToolContext, draftId: string): Draft {
+  const draft = requireDrafts(ctx).get(draftId);
+  // Drafts are private to the client that created them; admins can also reach
+  // the ones moderation held for review
+  const reviewer = Boolean(draft?.moderationReasons) && Boolean(ctx.access?.isAdmin(ctx.clientPubkey));
+  if (!draft || (draft.clientPubkey && draft.clientPubkey !== ctx.clientPubkey && !reviewer)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown draft: ${draftId} (drafts expire after DRAFT_RETENTION_HOURS)`);
+  }
+  return draft;
+}
+
+/**
+ * Stores a note generated in draft mode and builds the tool response
+ * @param ctx Tool context
+ * @param tool Tool that generated the note
+ * @param result Result of the createAndPublish* call (with `draft` set)
+ * @param subjectPubkey Hex pubkey of the person the note is about
+ * @returns Promise with the tool result
+ */
+export async function saveDraft(ctx: ToolContext, tool: string, result: SummaryResult, subjectPubkey: string): Promise<ToolResult> {
+  const draft = await requireDrafts(ctx).create({
+    tool,
+    persona: result.persona || '',
+    subjectPubkey,
+    text: result.summary,
+    note: result.draft!,
+    ...(result.moderation?.decision === 'draft' ? { moderationReasons: result.moderation.reasons } : {}),
+    ...(ctx.clientPubkey ? { clientPubkey: ctx.clientPubkey } : {})
+  });
+
+  const held = draft.moderationReasons
+    ? `🛡️ Held for review by content moderation: ${draft.moderationReasons.join('; ')}\n`
+    : '';
+  return textResult(
+    `${result.summary}\n\n📝 Draft saved, not published.\n${held}Draft ID: ${draft.id}\nExpires: ${new Date(draft.expiresAt).toISOString()}\n` +
+    `Release it with publish_draft (optionally with edited text) or drop it with discard_draft.\n\n` +
+    `Unsigned event:\n${JSON.stringify(draft.note, null, 2)}`
+  );
+}
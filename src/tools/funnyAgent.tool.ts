@@ -0,0 +1,41 @@
+/**
+ * funny_agent tool
+ *
+ * Calls the configured LLM provider to generate funny responses (text + images)
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { callAgent } from '../utils/callAgent.util.js';
+
+const schema = z.object({
+  question: z.string().min(1).describe("The question or input (may include image URLs). Supported formats: .jpg, .png, .gif, .webp, or imgur/discord links")
+});
+
+export const funnyAgentTool = defineTool({
+  name: "funny_agent",
+  description: "Generates responses using the configured LLM provider with multimodal support (text + images). On OpenRouter (default) uses Gemini 2.0 Flash for images, GPT via Groq for text-only.",
+  schema,
+  async handler({ question }, ctx) {
+    // Resolve the LLM provider configured for this tool (throws if it is not configured)
+    const llm = ctx.llm.forTool('funny_agent');
+
+    console.log(`🤡 Craig David called with question: ${question}`);
+
+    try {
+      // Call the configured LLM provider
+      const funnyResponse = await callAgent(
+        question,
+        llm
+      );
+
+      // Return the funny response
+      return textResult(funnyResponse);
+    } catch (error) {
+      console.error("❌ Failed to call LLM provider:", error);
+
+      // Return a friendly error message
+      return { ...textResult(`Sorry, I couldn't get a funny response right now. Error: ${error instanceof Error ? error.message : 'Unknown error'}`), isError: true };
+    }
+  }
+});
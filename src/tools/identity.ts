@@ -0,0 +1,49 @@
+/**
+ * Shared pubkey arguments
+ *
+ * Every tool argument naming a Nostr user accepts hex, npub, nprofile or a
+ * NIP-05 identifier (see utils/identity.util.ts) and is resolved to hex before
+ * it reaches a `p` tag.
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { IdentityError, parseIdentity, resolveIdentity, type ResolvedIdentity } from '../utils/identity.util.js';
+
+/**
+ * Schema for a pubkey argument
+ * @param description What the key identifies
+ * @returns Zod string schema
+ */
+export function identityArgument(description: string) {
+  // Malformed values are rejected up front, before a background job is queued;
+  // NIP-05 lookups happen when the tool runs
+  return z.string().min(1).superRefine((value, refinement) => {
+    try {
+      parseIdentity(value);
+    } catch (error) {
+      refinement.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+    }
+  }).describe(`${description} Accepts a 64-char hex pubkey, npub, nprofile or NIP-05 identifier (name@domain).`);
+}
+
+/**
+ * Resolves a pubkey argument, failing the call with InvalidParams
+ * @param value Raw argument
+ * @param field Argument name (for the error message)
+ * @returns Promise with the resolved identity
+ */
+export async function resolveIdentityArgument(value: string, field = 'pubkey'): Promise<ResolvedIdentity> {
+  try {
+    const identity = await resolveIdentity(value);
+    if (identity.source !== 'hex') {
+      console.log(`🪪 Resolved ${field} ${identity.nip05 || value.substring(0, 20) + '...'} → ${identity.pubkey.substring(0, 16)}...${identity.relays.length > 0 ? ` (${identity.relays.length} relay hint(s))` : ''}`);
+    }
+    return identity;
+  } catch (error) {
+    if (error instanceof IdentityError) {
+      throw new McpError(ErrorCode.InvalidParams, `${field}: ${error.message}`, { reason: 'invalid_pubkey', code: error.code, field });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Tool catalogue
+ *
+ * To add a tool, create a `<name>.tool.ts` module exporting a ToolDefinition
+ * and append it to the list below. The registry derives the tools/list schema
+ * and argument validation from the tool's zod schema.
+ */
+
+import type { ToolDefinition } from './types.js';
+import { cashuAccessTool } from './cashuAccess.tool.js';
+import { funnyAgentTool } from './funnyAgent.tool.js';
+import { summariseTool } from './summarise.tool.js';
+import { weeklySummaryTool } from './weeklySummary.tool.js';
+import { roastNpubTool } from './roastNpub.tool.js';
+import { montageTool } from './montage.tool.js';
+import { jobStatusTool } from './jobStatus.tool.js';
+import { jobResultTool } from './jobResult.tool.js';
+import { jobCancelTool } from './jobCancel.tool.js';
+import { balanceTool } from './balance.tool.js';
+import { allowlistAddTool } from './allowlistAdd.tool.js';
+import { allowlistRemoveTool } from './allowlistRemove.tool.js';
+import { allowlistListTool } from './allowlistList.tool.js';
+import { publishDraftTool } from './publishDraft.tool.js';
+import { discardDraftTool } from './discardDraft.tool.js';
+import { optoutAddTool } from './optoutAdd.tool.js';
+import { optoutRemoveTool } from './optoutRemove.tool.js';
+import { optoutListTool } from './optoutList.tool.js';
+import { optoutStatusTool } from './optoutStatus.tool.js';
+import { listPublicationsTool } from './listPublications.tool.js';
+import { deletePublicationTool } from './deletePublication.tool.js';
+
+export const tools: ToolDefinition<any>[] = [
+  cashuAccessTool,
+  funnyAgentTool,
+  summariseTool,
+  weeklySummaryTool,
+  roastNpubTool,
+  montageTool,
+  jobStatusTool,
+  jobResultTool,
+  jobCancelTool,
+  balanceTool,
+  allowlistAddTool,
+  allowlistRemoveTool,
+  allowlistListTool,
+  publishDraftTool,
+  discardDraftTool,
+  optoutAddTool,
+  optoutRemoveTool,
+  optoutListTool,
+  optoutStatusTool,
+  listPublicationsTool,
+  deletePublicationTool,
+];
+
+export { createToolRegistry, createToolContext, createJobToolContext } from './registry.js';
+export type { ServerDeps, ToolContext, ToolDefinition, ToolResult } from './types.js';
@@ -0,0 +1,131 @@
+/**
+ * Shared "source" arguments for tools that describe a subject's activity
+ *
+ * With source "text" (default) the caller pastes the activity into the tool's
+ * text argument. With source "relays" the server fetches the subject's notes
+ * for the since/until window itself (see utils/ingest.util.ts). Tools taking
+ * an `events` argument also accept the signed events themselves.
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from './types.js';
+import { ingestEventDump, ingestSubjectActivity, parseTimestamp, type EventDumpResult } from '../utils/ingest.util.js';
+import type { ResolvedIdentity } from '../utils/identity.util.js';
+
+/** Unix seconds or an ISO-8601 date/time (see parseTimestamp) */
+export const timeArgument = z.union([z.number().int().nonnegative(), z.string().min(1)]);
+
+export const ingestionArguments = {
+  source: z.enum(['text', 'relays']).default('text').describe("Where the subject's activity comes from: 'text' (default) uses the text argument, 'relays' fetches the subject's notes from the server's relays"),
+  since: timeArgument.optional().describe("Start of the window when source is 'relays' (unix seconds or ISO date). Defaults to the tool's usual window before 'until'"),
+  until: timeArgument.optional().describe("End of the window when source is 'relays' (unix seconds or ISO date). Defaults to now"),
+  includeReposts: z.boolean().optional().describe("Include reposts (kind 6) when source is 'relays'"),
+  includeReactions: z.boolean().optional().describe("Include reactions (kind 7) when source is 'relays'"),
+};
+
+const HEX_64 = /^[0-9a-f]{64}$/;
+
+export const eventsArgument = z.array(z.object({
+  id: z.string().regex(HEX_64),
+  pubkey: z.string().regex(HEX_64),
+  created_at: z.number().int().nonnegative(),
+  kind: z.number().int().nonnegative(),
+  tags: z.array(z.array(z.string())),
+  content: z.string(),
+  sig: z.string().regex(/^[0-9a-f]{128}$/)
+})).min(1).max(2000).optional()
+  .describe("Signed Nostr events to work from instead of text: the subject's notes (kind 1), reposts (6) and reactions (7), plus any notes they reply to. Signatures are verified; invalid events are ignored.");
+
+export interface IngestionArgs {
+  source: 'text' | 'relays';
+  since?: number | string;
+  until?: number | string;
+  includeReposts?: boolean;
+  includeReactions?: boolean;
+}
+
+/**
+ * Subject input resolved from either pasted text or relay ingestion
+ */
+export interface SubjectInput {
+  text: string;
+  /** Window start (unix seconds) when fetched from relays */
+  since?: number;
+  until?: number;
+}
+
+/**
+ * Resolves the text a tool should work from
+ * @param ctx Tool context (relay pool, progress)
+ * @param args The tool's source arguments
+ * @param text Value of the tool's free-text argument, if given
+ * @param textField Name of the free-text argument (for error messages)
+ * @param subject Resolved subject (hex pubkey and relay hints)
+ * @param defaultWindowSeconds Window length used when `since` is omitted
+ * @returns Promise with the subject input
+ */
+export async function resolveSubjectInput(
+  ctx: ToolContext,
+  args: IngestionArgs,
+  text: string | undefined,
+  textField: string,
+  subject: Pick<ResolvedIdentity, 'pubkey' | 'relays'>,
+  defaultWindowSeconds: number
+): Promise<SubjectInput> {
+  if (args.source === 'text') {
+    if (!text) {
+      throw new McpError(ErrorCode.InvalidParams, `${textField} is required when source is 'text'`);
+    }
+    return { text };
+  }
+
+  let since: number;
+  let until: number;
+  try {
+    until = args.until !== undefined ? parseTimestamp(args.until) : Math.floor(Date.now() / 1000);
+    since = args.since !== undefined ? parseTimestamp(args.since) : until - defaultWindowSeconds;
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+  }
+  if (since > until) {
+    throw new McpError(ErrorCode.InvalidParams, `since must be before until`);
+  }
+
+  await ctx.sendProgress(0, undefined, 'Fetching notes from relays');
+  const ingested = await ingestSubjectActivity(ctx.relayPool, {
+    pubkey: subject.pubkey,
+    relays: subject.relays,
+    since,
+    until,
+    includeReposts: args.includeReposts,
+    includeReactions: args.includeReactions
+  });
+
+  const total = ingested.notes.length + ingested.reposts.length + ingested.reactions.length;
+  if (total === 0) {
+    throw new Error(`No activity found on relays for ${subject.pubkey} in the requested window`);
+  }
+
+  return { text: ingested.digest, since, until };
+}
+
+/**
+ * Verifies and renders events supplied in the `events` argument
+ * @param ctx Tool context (relay pool, progress)
+ * @param events The events argument
+ * @param subject Resolved subject (hex pubkey)
+ * @returns Promise with the timeline, images and day
+ */
+export async function resolveEventDump(
+  ctx: ToolContext,
+  events: NonNullable<z.infer<typeof eventsArgument>>,
+  subject: Pick<ResolvedIdentity, 'pubkey'>
+): Promise<EventDumpResult> {
+  await ctx.sendProgress(0, undefined, `Verifying ${events.length} events`);
+  try {
+    return await ingestEventDump(ctx.relayPool, events, { pubkey: subject.pubkey });
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `events: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * job_cancel tool
+ *
+ * Cancels a queued or running background job
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { describeJob } from '../jobs/index.js';
+import { jobIdArgument, requireJob, requireJobQueue } from './jobs.js';
+
+const schema = z.object({
+  jobId: jobIdArgument
+});
+
+export const jobCancelTool = defineTool({
+  name: "job_cancel",
+  description: "Cancels a queued or running background job. Jobs cancelled before they start are refunded; work that has already been published (e.g. a Nostr note) cannot be undone.",
+  schema,
+  async handler({ jobId }, ctx) {
+    const job = requireJob(ctx, jobId);
+    const wasQueued = job.status === 'queued';
+    const cancelled = await requireJobQueue(ctx).cancel(job.id);
+
+    // Nothing ran yet, so give back what the call was charged
+    if (wasQueued && job.charged && job.clientPubkey && ctx.credits) {
+      await ctx.credits.refund(job.clientPubkey, job.charged, `${job.tool} job cancelled`);
+    }
+
+    return textResult(JSON.stringify(describeJob(cancelled || job), null, 2));
+  }
+});
@@ -0,0 +1,38 @@
+/**
+ * job_result tool
+ *
+ * Returns the result of a finished background job
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { isFinished } from '../jobs/index.js';
+import { jobIdArgument, requireJob } from './jobs.js';
+
+const schema = z.object({
+  jobId: jobIdArgument
+});
+
+export const jobResultTool = defineTool({
+  name: "job_result",
+  description: "Returns the output of a background job once it has finished. While the job is still queued or running, reports its status instead.",
+  schema,
+  async handler({ jobId }, ctx) {
+    const job = requireJob(ctx, jobId);
+
+    if (!isFinished(job)) {
+      const progress = job.progress?.message ? ` (${job.progress.message})` : '';
+      return textResult(`⏳ Job ${job.id} is ${job.status}${progress}. Try again later.`);
+    }
+
+    if (job.status === 'cancelled') {
+      return { ...textResult(`🛑 Job ${job.id} was cancelled.`), isError: true };
+    }
+
+    if (job.result) {
+      return job.result;
+    }
+
+    return { ...textResult(`❌ Job ${job.id} failed: ${job.error || 'unknown error'}`), isError: true };
+  }
+});
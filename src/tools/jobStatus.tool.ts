@@ -0,0 +1,24 @@
+/**
+ * job_status tool
+ *
+ * Reports the status and progress of a background job
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { describeJob } from '../jobs/index.js';
+import { jobIdArgument, requireJob } from './jobs.js';
+
+const schema = z.object({
+  jobId: jobIdArgument
+});
+
+export const jobStatusTool = defineTool({
+  name: "job_status",
+  description: "Returns the status (queued, running, succeeded, failed, cancelled) and latest progress of a background job started with async: true.",
+  schema,
+  async handler({ jobId }, ctx) {
+    const job = requireJob(ctx, jobId);
+    return textResult(JSON.stringify(describeJob(job), null, 2));
+  }
+});
@@ -0,0 +1,37 @@
+/**
+ * Shared helpers for the job_status / job_result / job_cancel tools
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from './types.js';
+import type { Job, JobQueue } from '../jobs/index.js';
+
+export const jobIdArgument = z.string().min(1).describe("The job id returned by a tool called with async: true");
+
+/**
+ * Returns the server's job queue, or fails the call if jobs are disabled
+ * @param ctx Tool context
+ * @returns JobQueue
+ */
+export function requireJobQueue(ctx: ToolContext): JobQueue {
+  if (!ctx.jobs) {
+    throw new McpError(ErrorCode.InvalidParams, 'Background jobs are not enabled on this server');
+  }
+  return ctx.jobs;
+}
+
+/**
+ * Looks up one of the caller's jobs, failing the call with InvalidParams if it does not exist
+ * @param ctx Tool context
+ * @param jobId The job id
+ * @returns The job
+ */
+export function requireJob(ctx: ToolContext, jobId: string): Job {
+  const job = requireJobQueue(ctx).get(jobId);
+  // Jobs are private to the client that queued them
+  if (!job || (job.clientPubkey && job.clientPubkey !== ctx.clientPubkey)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown job: ${jobId} (finished jobs are kept for JOB_RETENTION_HOURS)`);
+  }
+  return job;
+}
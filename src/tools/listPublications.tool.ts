@@ -0,0 +1,64 @@
+/**
+ * list_publications tool (admin only)
+ *
+ * Queries the log of published notes: what was posted, as whom, about whom and
+ * at whose request
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, textResult } from './types.js';
+import { requireAdmin } from './admin.js';
+import { identityArgument, resolveIdentityArgument } from './identity.js';
+import { timeArgument } from './ingestion.js';
+import { parseTimestamp } from '../utils/ingest.util.js';
+
+const schema = z.object({
+  subject: identityArgument("Only notes about this subject.").optional(),
+  tool: z.string().min(1).optional().describe("Only notes published by this tool (e.g. summarise, weekly_summary, roastNpub)."),
+  persona: z.string().min(1).optional().describe("Only notes signed as this persona id."),
+  client: identityArgument("Only notes requested by this client.").optional(),
+  since: timeArgument.optional().describe("Only notes published at or after this time (unix seconds or ISO date)."),
+  until: timeArgument.optional().describe("Only notes published at or before this time (unix seconds or ISO date)."),
+  limit: z.number().int().min(1).max(500).default(50).describe("Most recent matches to return (default 50, max 500).")
+});
+
+export const listPublicationsTool = defineTool({
+  name: "list_publications",
+  description: "Admin only: lists notes the server has published, newest first, with persona, tool, subject, requesting client, accepting relays, PoW difficulty and any deletion. Filter by subject, tool, persona, client or date range.",
+  schema,
+  async handler({ subject, tool, persona, client, since, until, limit }, ctx) {
+    requireAdmin(ctx);
+    if (!ctx.publications) {
+      throw new McpError(ErrorCode.InternalError, 'Publication log is not configured on this server');
+    }
+
+    let range: { since?: number; until?: number };
+    try {
+      range = {
+        since: since !== undefined ? parseTimestamp(since) * 1000 : undefined,
+        until: until !== undefined ? parseTimestamp(until) * 1000 : undefined
+      };
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+
+    const { total, publications } = ctx.publications.list({
+      subjectPubkey: subject ? (await resolveIdentityArgument(subject, 'subject')).pubkey : undefined,
+      clientPubkey: client ? (await resolveIdentityArgument(client, 'client')).pubkey : undefined,
+      tool,
+      persona,
+      ...range,
+      limit
+    });
+
+    return textResult(JSON.stringify({
+      total,
+      publications: publications.map(publication => ({
+        ...publication,
+        publishedAt: new Date(publication.publishedAt).toISOString(),
+        ...(publication.deletion ? { deletion: { ...publication.deletion, at: new Date(publication.deletion.at).toISOString() } } : {})
+      }))
+    }, null, 2));
+  }
+});
@@ -0,0 +1,37 @@
+/**
+ * Reports PoW mining progress through a tool's progress notifications
+ */
+
+import type { ToolContext } from './types.js';
+import type { PublishOptions } from '../utils/summarise.util.js';
+
+function formatCount(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+/**
+ * Builds the mining options for a tool call: mining stops when the request
+ * is cancelled, and hashrate/attempts are sent as progress between `step`
+ * and `step + 1` (scaled by the expected 2^difficulty attempts). Background
+ * jobs also record the event id before it is sent
+ * @param ctx Tool context
+ * @param step Progress value the tool reported before publishing
+ * @param total Total progress value of the tool
+ * @returns PublishOptions for the publish helpers
+ */
+export function miningProgress(ctx: ToolContext, step: number, total?: number): PublishOptions {
+  return {
+    signal: ctx.signal,
+    onPublishing: ctx.onPublishing,
+    onProgress: ({ attempts, hashrate, difficulty, workers }) => {
+      const fraction = Math.min(0.99, attempts / 2 ** difficulty);
+      void ctx.sendProgress(
+        step + fraction,
+        total,
+        `Mining PoW (difficulty ${difficulty}): ${formatCount(attempts)} attempts, ${formatCount(hashrate)} H/s on ${workers} thread(s)`
+      );
+    }
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Moderation responses shared by the publishing tools
+ */
+
+import { textResult, type ToolResult } from './types.js';
+import type { SummaryResult } from '../utils/summarise.util.js';
+import type { ModerationVerdict } from '../moderation/index.js';
+
+/**
+ * Response for a note the moderator rejected (nothing was published)
+ * @param result Result of the createAndPublish* call
+ * @returns ToolResult flagged as an error, or undefined if the note was not rejected
+ */
+export function moderationRejection(result: SummaryResult): ToolResult | undefined {
+  if (result.moderation?.decision !== 'rejected') {
+    return undefined;
+  }
+  const attempts = result.moderation.attempts > 1 ? ` after ${result.moderation.attempts} attempts` : '';
+  return {
+    ...textResult(`🛡️ Nothing was published: the generated note was rejected by content moderation${attempts}.\nReasons:\n${result.moderation.reasons.map(reason => `- ${reason}`).join('\n')}`),
+    isError: true
+  };
+}
+
+/**
+ * Response for draft text the moderator flagged when it was about to be published
+ * @param draftId The draft id
+ * @param verdict The moderator's verdict on the text
+ * @returns ToolResult flagged as an error
+ */
+export function flaggedDraftRejection(draftId: string, verdict: ModerationVerdict): ToolResult {
+  return {
+    ...textResult(`🛡️ Draft ${draftId} was not published: the text was flagged by content moderation.\nReasons:\n${verdict.reasons.map(reason => `- ${reason}`).join('\n')}\nThe draft is still available.`),
+    isError: true
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * montage tool
+ *
+ * Creates video montage using otherstuff.studio API, from media the server
+ * stages itself (URLs, Blossom hashes or Nostr events with imeta tags). The
+ * trigger session is followed until the video is rendered, and the video is
+ * then published as a NIP-94 file metadata event tagged to the requester.
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult, type ToolContext } from './types.js';
+import {
+  buildMontageFileEvent,
+  createMontage,
+  describeMontageOutput,
+  FILE_METADATA_KIND,
+  montageRecipeId,
+  waitForMontage
+} from '../utils/montage.util.js';
+import { parseMediaReference, removeStagingDir, stageMedia, type StagedMedia } from '../utils/staging.util.js';
+import { publishPersonaNote } from '../utils/summarise.util.js';
+import { formatPublishReport } from '../utils/publish.util.js';
+import { serverPersona, type PersonaForTool } from '../personas/index.js';
+import { identityArgument, resolveIdentityArgument } from './identity.js';
+import { enforceOptOut } from './optout.js';
+import { miningProgress } from './mining.js';
+import { recordPublication } from './publications.js';
+
+const mediaReference = z.string().min(1).superRefine((value, refinement) => {
+  // Malformed references are rejected before a background job is queued
+  try {
+    parseMediaReference(value);
+  } catch (error) {
+    refinement.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+const schema = z.object({
+  media: z.array(mediaReference).min(1).max(50).describe("Media to build the montage from: http(s) URLs, Blossom sha256 hashes (fetched from the server's Blossom servers) or note1/nevent references to Nostr events whose imeta tags list the files. Images, video and audio are accepted."),
+  prompt: z.string().min(1).describe("Prompt describing how to create the montage (e.g., 'Please create a 30 second montage video as per your instructions from these files.')"),
+  pubkey: identityArgument("The user requesting the montage."),
+  recipe: z.string().regex(/^[A-Za-z0-9_-]{1,128}$/).optional().describe("Trigger API recipe id (default: the server's MONTAGE_RECIPE_ID)")
+});
+
+// Progress scale: staging up to 20, rendering up to 90, publishing the rest
+const PROGRESS_TOTAL = 100;
+
+/**
+ * Key the file event is signed with: the montage persona if personas.json
+ * defines one, else the server key
+ */
+function montagePublisher(ctx: ToolContext): PersonaForTool {
+  return ctx.personas.allowedFor('montage').length > 0
+    ? ctx.personas.forTool('montage')
+    : serverPersona('montage', ctx.serverPrivateKey);
+}
+
+export const montageTool = defineTool({
+  name: "montage",
+  description: "Creates a 30-second video montage from media URLs, Blossom hashes or Nostr events with imeta media, using the otherstuff.studio API.",
+  schema,
+  async: true,
+  async handler({ media, prompt, pubkey: requesterId, recipe }, ctx) {
+    const { pubkey } = await resolveIdentityArgument(requesterId);
+    // The finished video is published tagged to the requester
+    const keepPrivate = (await enforceOptOut(ctx, 'montage', pubkey)) === 'private';
+    console.log(`🎬 Creating video montage for pubkey: ${pubkey}`);
+    console.log(`   Media references: ${media.length}`);
+    console.log(`   Prompt preview: ${prompt.substring(0, 100)}...`);
+
+    let staged: StagedMedia | undefined;
+    // Fire-and-forget renders still need the files; pruning removes them later
+    let keepStaged = false;
+    try {
+      // Download and validate the media into this job's staging directory
+      staged = await stageMedia(ctx.relayPool, media.map(parseMediaReference), {
+        jobKey: ctx.jobId,
+        signal: ctx.signal,
+        onProgress: (done, total, message) => ctx.sendProgress(Math.round(20 * done / total), PROGRESS_TOTAL, message)
+      });
+
+      // Create the montage
+      const trigger = await createMontage(staged.dir, prompt, pubkey, montageRecipeId(recipe));
+
+      console.log("✅ Montage creation triggered successfully");
+      await ctx.sendProgress(20, PROGRESS_TOTAL, 'Montage triggered');
+
+      const lines = [
+        trigger.message,
+        '',
+        `Staged ${staged.files.length} file(s) (${staged.bytes} bytes):`,
+        ...staged.files.map(file => `- ${file.name} (${file.mime}) from ${file.url}`)
+      ];
+      if (staged.skipped.length > 0) {
+        lines.push('', `Skipped ${staged.skipped.length}:`, ...staged.skipped.map(item => `- ${item.url || item.source}: ${item.reason}`));
+      }
+
+      // MONTAGE_TIMEOUT_MS=0 (or an API that returns no session) means fire and forget
+      if (!trigger.sessionId || process.env.MONTAGE_TIMEOUT_MS === '0') {
+        keepStaged = true;
+        return textResult(lines.join('\n'));
+      }
+
+      // Follow the session until the video is rendered
+      let output;
+      try {
+        output = await waitForMontage(trigger.sessionId, {
+          signal: ctx.signal,
+          onStatus: status => ctx.sendProgress(
+            20 + Math.round(70 * (status.progress ?? 0)),
+            PROGRESS_TOTAL,
+            `Montage ${status.state}${status.message ? `: ${status.message}` : ''}`
+          )
+        });
+      } catch (error) {
+        // Failed, timed out or cancelled: nothing to publish
+        lines.push('', `⚠️ ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return { ...textResult(lines.join('\n')), isError: true };
+      }
+      await removeStagingDir(staged.dir);
+
+      const publisher = montagePublisher(ctx);
+      // Optionally re-host the video on Blossom, signed by the publishing key
+      const rehost = process.env.MONTAGE_BLOSSOM_UPLOAD === 'true' ? { privateKey: publisher.privateKey } : undefined;
+      const file = await describeMontageOutput(output, rehost);
+      lines.push('', `🎞️ Video ready: ${file.url}`, `Type: ${file.mime}, ${file.size} bytes${file.dim ? `, ${file.dim}` : ''}`, `SHA-256: ${file.sha256}`);
+      if (file.fallbacks?.length) {
+        lines.push(`Mirrors: ${file.fallbacks.join(', ')}`);
+      }
+      if (file.imeta) {
+        // Lets the requester embed the re-hosted video in their own notes
+        lines.push(`imeta tag: ${JSON.stringify(file.imeta)}`);
+      }
+      if (keepPrivate) {
+        lines.push('', `🔒 Not published: ${pubkey} has opted out of being tagged in public notes.`);
+        return textResult(lines.join('\n'));
+      }
+
+      // Publish the video as NIP-94 file metadata tagged to the requester
+      await ctx.sendProgress(90, PROGRESS_TOTAL, 'Publishing file metadata');
+      const note = buildMontageFileEvent(file, pubkey, publisher.pubkey, trigger.sessionName);
+      const report = await publishPersonaNote(note, publisher, ctx.relayPool, ctx.powDifficulty, ctx.publishQuorum, miningProgress(ctx, 90, PROGRESS_TOTAL));
+
+      await recordPublication(ctx, {
+        eventId: report.eventId,
+        tool: 'montage',
+        persona: publisher.id,
+        personaPubkey: publisher.pubkey,
+        subjectPubkey: pubkey,
+        receipts: report.receipts,
+        powDifficulty: report.powDifficulty,
+        kind: FILE_METADATA_KIND
+      });
+
+      const relayReport = report.receipts.length > 0 ? `\n${formatPublishReport(report)}` : '';
+      if (!report.success) {
+        lines.push('', `⚠️ Video ready but the NIP-94 file event failed to publish: ${report.error}${relayReport}`);
+        return { ...textResult(lines.join('\n')), isError: true };
+      }
+      lines.push('', `📡 NIP-94 file event published!\nEvent ID: ${report.eventId}${relayReport}`);
+      await ctx.sendProgress(PROGRESS_TOTAL, PROGRESS_TOTAL, 'Montage published');
+
+      // Return success response
+      return textResult(lines.join('\n'));
+    } catch (error) {
+      console.error("❌ Failed to create montage:", error);
+
+      // Return a friendly error message
+      return { ...textResult(`Failed to create montage: ${error instanceof Error ? error.message : 'Unknown error'}`), isError: true };
+    } finally {
+      if (staged && !keepStaged) {
+        await removeStagingDir(staged.dir);
+      }
+    }
+  }
+});
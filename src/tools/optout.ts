@@ -0,0 +1,55 @@
+/**
+ * Opt-out checks shared by the publishing tools
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { textResult, type ToolContext, type ToolResult } from './types.js';
+import type { OptOutRegistry } from '../optout/index.js';
+
+/**
+ * Returns the server's opt-out registry, or fails the call if it is disabled
+ * @param ctx Tool context
+ * @returns OptOutRegistry
+ */
+export function requireOptOuts(ctx: ToolContext): OptOutRegistry {
+  if (!ctx.optOuts) {
+    throw new McpError(ErrorCode.InvalidParams, 'The opt-out registry is not enabled on this server');
+  }
+  return ctx.optOuts;
+}
+
+/**
+ * Checks the subject against the opt-out registry before anything is generated
+ * @param ctx Tool context
+ * @param tool Tool being called
+ * @param subjectPubkey Hex pubkey of the subject
+ * @returns 'publish' if the subject has not opted out, 'private' if the output must not be published
+ * @throws McpError (InvalidRequest, reason "subject_opted_out") when the policy is to refuse
+ */
+export async function enforceOptOut(ctx: ToolContext, tool: string, subjectPubkey: string): Promise<'publish' | 'private'> {
+  const entry = ctx.optOuts?.get(subjectPubkey);
+  if (!entry) {
+    return 'publish';
+  }
+
+  await ctx.optOuts!.recordRefusal(subjectPubkey, tool);
+  if (ctx.optOuts!.policy === 'private') {
+    return 'private';
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidRequest,
+    `${subjectPubkey} has opted out of being the subject of ${tool} (since ${new Date(entry.at).toISOString()}). Nothing was generated or published.`,
+    { reason: 'subject_opted_out', tool, pubkey: subjectPubkey, since: new Date(entry.at).toISOString() }
+  );
+}
+
+/**
+ * Response for output that was generated but kept private because of an opt-out
+ * @param text Generated text
+ * @param subjectPubkey Hex pubkey of the subject
+ * @returns ToolResult
+ */
+export function privateResult(text: string, subjectPubkey: string): ToolResult {
+  return textResult(`${text}\n\n🔒 Not published: ${subjectPubkey} has opted out of being tagged in public notes. This text was only returned to you.`);
+}
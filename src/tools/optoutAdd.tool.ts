@@ -0,0 +1,35 @@
+/**
+ * optout_add tool (admin only)
+ *
+ * Opts a subject out of roasts and summaries on their behalf
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { requireAdmin } from './admin.js';
+import { identityArgument, resolveIdentityArgument } from './identity.js';
+import { requireOptOuts } from './optout.js';
+
+const schema = z.object({
+  pubkey: identityArgument("Subject to opt out."),
+  reason: z.string().max(200).optional().describe("Optional reason, e.g. how the request was received")
+});
+
+export const optoutAddTool = defineTool({
+  name: "optout_add",
+  description: "Admin only: adds a subject to the opt-out registry. Publishing tools will refuse to roast, summarise or tag them.",
+  schema,
+  async handler({ pubkey, reason }, ctx) {
+    const { admin } = requireAdmin(ctx);
+    const optOuts = requireOptOuts(ctx);
+    const { pubkey: key } = await resolveIdentityArgument(pubkey);
+
+    const added = await optOuts.add(key, { source: 'admin', addedBy: admin, ...(reason ? { reason } : {}) });
+    return textResult(JSON.stringify({
+      pubkey: key,
+      added,
+      ...(added ? {} : { reason: 'already opted out' }),
+      optedOut: optOuts.list().length
+    }, null, 2));
+  }
+});
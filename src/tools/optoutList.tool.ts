@@ -0,0 +1,31 @@
+/**
+ * optout_list tool (admin only)
+ *
+ * Lists opted-out subjects and how often each opt-out was enforced
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { requireAdmin } from './admin.js';
+import { requireOptOuts } from './optout.js';
+
+const schema = z.object({});
+
+export const optoutListTool = defineTool({
+  name: "optout_list",
+  description: "Admin only: lists the opt-out registry with each entry's source and how many calls it has refused.",
+  schema,
+  async handler(_args, ctx) {
+    requireAdmin(ctx);
+    const optOuts = requireOptOuts(ctx);
+
+    return textResult(JSON.stringify({
+      policy: optOuts.policy,
+      optOuts: optOuts.list().map(entry => ({
+        ...entry,
+        at: new Date(entry.at).toISOString(),
+        ...(entry.lastRefusedAt ? { lastRefusedAt: new Date(entry.lastRefusedAt).toISOString() } : {})
+      }))
+    }, null, 2));
+  }
+});
@@ -0,0 +1,33 @@
+/**
+ * optout_remove tool (admin only)
+ *
+ * Lifts a subject's opt-out
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { requireAdmin } from './admin.js';
+import { identityArgument, resolveIdentityArgument } from './identity.js';
+import { requireOptOuts } from './optout.js';
+
+const schema = z.object({
+  pubkey: identityArgument("Subject whose opt-out is lifted.")
+});
+
+export const optoutRemoveTool = defineTool({
+  name: "optout_remove",
+  description: "Admin only: removes a subject from the opt-out registry. Subjects can also opt back in themselves by messaging a persona with an opt-in keyword.",
+  schema,
+  async handler({ pubkey }, ctx) {
+    requireAdmin(ctx);
+    const optOuts = requireOptOuts(ctx);
+    const { pubkey: key } = await resolveIdentityArgument(pubkey);
+
+    const removed = await optOuts.remove(key);
+    return textResult(JSON.stringify({
+      pubkey: key,
+      removed,
+      ...(removed ? {} : { reason: 'not opted out' })
+    }, null, 2));
+  }
+});
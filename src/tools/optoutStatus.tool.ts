@@ -0,0 +1,36 @@
+/**
+ * optout_status tool
+ *
+ * Lets anyone check whether a subject has opted out
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult } from './types.js';
+import { identityArgument, resolveIdentityArgument } from './identity.js';
+import { requireOptOuts } from './optout.js';
+
+const schema = z.object({
+  pubkey: identityArgument("Subject to look up.")
+});
+
+export const optoutStatusTool = defineTool({
+  name: "optout_status",
+  description: "Reports whether a subject has opted out of roasts and summaries, since when, and how many calls about them have been refused.",
+  schema,
+  async handler({ pubkey }, ctx) {
+    const optOuts = requireOptOuts(ctx);
+    const { pubkey: key } = await resolveIdentityArgument(pubkey);
+    const entry = optOuts.get(key);
+
+    return textResult(JSON.stringify({
+      pubkey: key,
+      optedOut: Boolean(entry),
+      ...(entry ? {
+        since: new Date(entry.at).toISOString(),
+        source: entry.source,
+        refusals: entry.refusals
+      } : {}),
+      policy: optOuts.policy
+    }, null, 2));
+  }
+});
@@ -0,0 +1,185 @@
+/**
+ * Shared flow of the tools that generate and publish persona notes
+ * (summarise, weekly_summary, roastNpub)
+ *
+ * preparePersonaNote runs every check that can fail before any tokens are
+ * spent: resolving the subject, the opt-out registry, the draft store, the
+ * persona and LLM, and the replyTo note. runPersonaNote then calls one of the
+ * createAndPublish* helpers (utils/summarise.util.ts) and turns its outcome
+ * into the tool response: moderation rejections, private results, drafts,
+ * failures (flagged as errors so paid calls are refunded) and the
+ * publication log entry.
+ */
+
+import { textResult, type ToolContext, type ToolResult } from './types.js';
+import { resolveIdentityArgument } from './identity.js';
+import { miningProgress } from './mining.js';
+import { requireDrafts, saveDraft } from './drafts.js';
+import { enforceOptOut, privateResult } from './optout.js';
+import { moderationRejection } from './moderation.js';
+import { recordPublication } from './publications.js';
+import { resolveReplyTo } from './thread.js';
+import { formatPublishReport } from '../utils/publish.util.js';
+import type { NoteReferences, PublishOptions, SummaryResult } from '../utils/summarise.util.js';
+import type { ResolvedIdentity } from '../utils/identity.util.js';
+import type { LLMSelection } from '../llm/index.js';
+import type { PersonaForTool } from '../personas/index.js';
+
+// Progress: 0 started, 1 generating (PoW mining runs up to 2), 2 publishing, 3 done
+const PROGRESS_TOTAL = 3;
+
+/**
+ * Arguments every persona note tool takes
+ */
+export interface PersonaNoteArgs {
+  /** Subject as given: hex, npub, nprofile or NIP-05 */
+  pubkey: string;
+  persona?: string;
+  publish: boolean;
+  replyTo?: string;
+}
+
+/**
+ * A persona note call that passed the checks and is ready to generate
+ */
+export interface PersonaNoteCall {
+  tool: string;
+  identity: ResolvedIdentity;
+  subjectPubkey: string;
+  /** The subject opted out and OPTOUT_POLICY=private: generate, but never publish or store */
+  keepPrivate: boolean;
+  /** Whether the note is published (false for drafts and private results) */
+  publish: boolean;
+  llm: LLMSelection;
+  persona: PersonaForTool;
+  /** Subject relay hints and the note to reply to */
+  references: NoteReferences;
+}
+
+/**
+ * How runPersonaNote words its response
+ */
+export interface PersonaNoteResponse {
+  /** What is generated, e.g. "summary" or "weekly rap" */
+  noun: string;
+  /** Line shown once the note is published, e.g. "🎵 Summary published to Nostr!" */
+  publishedHeadline: string;
+  /** Extra lines shown once published (e.g. an article's naddr) */
+  details?: string[];
+  /** Kind and address for the publication log (default kind 1) */
+  publication?: { kind: number; address?: string };
+}
+
+/**
+ * Resolves the subject, persona, LLM and replyTo note, failing before any tokens are spent
+ * @param ctx Tool context
+ * @param tool Tool being called
+ * @param args The tool's subject, persona, publish and replyTo arguments
+ * @returns Promise with the prepared call
+ * @throws McpError if the subject opted out (policy "refuse"), drafts are disabled
+ *   for publish: false, or the replyTo note can't be used
+ */
+export async function preparePersonaNote(ctx: ToolContext, tool: string, args: PersonaNoteArgs): Promise<PersonaNoteCall> {
+  // Hex, npub, nprofile or NIP-05; relay hints are used when fetching from relays
+  const identity = await resolveIdentityArgument(args.pubkey);
+  const subjectPubkey = identity.pubkey;
+  // Subjects who opted out are refused, or their note is kept private
+  const keepPrivate = (await enforceOptOut(ctx, tool, subjectPubkey)) === 'private';
+  if (!args.publish && !keepPrivate) requireDrafts(ctx);
+
+  // Resolve the LLM provider configured for this tool (throws if it is not configured)
+  const llm = ctx.llm.forTool(tool);
+  const persona = ctx.personas.forTool(tool, args.persona);
+  const replyTo = await resolveReplyTo(ctx, args.replyTo);
+
+  return {
+    tool,
+    identity,
+    subjectPubkey,
+    keepPrivate,
+    publish: args.publish && !keepPrivate,
+    llm,
+    persona,
+    references: { subjectRelays: identity.relays, replyTo }
+  };
+}
+
+/**
+ * Generates and publishes the note, then builds the tool response
+ * @param ctx Tool context
+ * @param call Prepared call
+ * @param response How the response is worded
+ * @param generate Calls the tool's createAndPublish* helper with the mining options
+ * @returns Promise with the tool result; failures are flagged with isError
+ */
+export async function runPersonaNote(
+  ctx: ToolContext,
+  call: PersonaNoteCall,
+  response: PersonaNoteResponse,
+  generate: (mining: PublishOptions) => Promise<SummaryResult>
+): Promise<ToolResult> {
+  const { noun, publishedHeadline } = response;
+  const Noun = `${noun.charAt(0).toUpperCase()}${noun.slice(1)}`;
+  const { subjectPubkey, persona } = call;
+
+  try {
+    await ctx.sendProgress(0, PROGRESS_TOTAL, `Starting ${noun}`);
+    await ctx.sendProgress(1, PROGRESS_TOTAL, `Generating ${noun}`);
+    const stopBeat = ctx.startHeartbeat(call.tool);
+    let result: SummaryResult;
+    try {
+      result = await generate(miningProgress(ctx, 1, PROGRESS_TOTAL));
+    } finally {
+      stopBeat();
+    }
+
+    const rejected = moderationRejection(result);
+    if (rejected) {
+      return rejected;
+    }
+    if (result.draft && call.keepPrivate) {
+      return privateResult(result.summary, subjectPubkey);
+    }
+    if (result.draft) {
+      await ctx.sendProgress(PROGRESS_TOTAL, PROGRESS_TOTAL, 'Draft saved for review');
+      return await saveDraft(ctx, call.tool, result, subjectPubkey);
+    }
+    if (!result.summary) {
+      // Generation failed, so nothing was published
+      await ctx.sendProgress(PROGRESS_TOTAL, PROGRESS_TOTAL, `${Noun} generation failed`);
+      return { ...textResult(`Sorry, I couldn't generate a ${noun} right now. Error: ${result.error}`), isError: true };
+    }
+    await ctx.sendProgress(2, PROGRESS_TOTAL, result.published ? 'Publishing to Nostr' : 'Generated; publishing may have failed');
+
+    // Per-relay outcome, so clients can see which relays stored (or rejected) the note
+    const relayReport = result.relays.length > 0
+      ? `\n\n${formatPublishReport({ ...result.quorum, receipts: result.relays })}`
+      : '';
+
+    // Anything a relay stored can later be withdrawn with delete_publication
+    await recordPublication(ctx, {
+      eventId: result.nostrEventId,
+      tool: call.tool,
+      persona: persona.id,
+      personaPubkey: persona.pubkey,
+      subjectPubkey,
+      receipts: result.relays,
+      powDifficulty: result.powDifficulty,
+      ...(response.publication || {})
+    });
+
+    if (!result.published) {
+      await ctx.sendProgress(PROGRESS_TOTAL, PROGRESS_TOTAL, `${Noun} generated; publish failed`);
+      return { ...textResult(`${result.summary}\n\n⚠️ ${Noun} generated but failed to publish to Nostr: ${result.error}\nSubject Pubkey: ${subjectPubkey}${relayReport}`), isError: true };
+    }
+    await ctx.sendProgress(PROGRESS_TOTAL, PROGRESS_TOTAL, `${Noun} complete`);
+    const details = (response.details || []).map(line => `\n${line}`).join('');
+    return textResult(`${result.summary}\n\n${publishedHeadline}\nEvent ID: ${result.nostrEventId}\nSubject Pubkey: ${subjectPubkey}${details}${relayReport}`);
+  } catch (error) {
+    console.error(`❌ Failed to create ${noun}:`, error);
+    await ctx.sendProgress(PROGRESS_TOTAL, PROGRESS_TOTAL, `${Noun} failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+
+    // Return a friendly error message
+    return { ...textResult(`Sorry, I couldn't create a ${noun} right now. Error: ${error instanceof Error ? error.message : 'Unknown error'}`), isError: true };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Records published notes for the audit trail (list_publications) and so they
+ * can be withdrawn later (delete_publication)
+ */
+
+import type { ToolContext } from './types.js';
+import type { RelayReceipt } from '../utils/publish.util.js';
+
+/**
+ * Adds a note that at least one relay accepted to the publication log (no-op without one)
+ * @param ctx Tool context (publication log, calling client)
+ * @param publication What was published, by which persona, about whom
+ * @returns Promise that resolves once recorded; failures are logged, not thrown
+ */
+export async function recordPublication(
+  ctx: ToolContext,
+  publication: {
+    eventId: string;
+    tool: string;
+    persona: string;
+    personaPubkey: string;
+    subjectPubkey?: string;
+    receipts: RelayReceipt[];
+    powDifficulty?: number;
+    /** Event kind (default 1) */
+    kind?: number;
+    /** `<kind>:<pubkey>:<d>` for addressable events such as articles */
+    address?: string;
+    clientPubkey?: string;
+  }
+): Promise<void> {
+  if (!ctx.publications || !publication.receipts.some(receipt => receipt.accepted)) return;
+  const { receipts, kind, ...rest } = publication;
+  const clientPubkey = publication.clientPubkey ?? ctx.clientPubkey;
+  try {
+    await ctx.publications.record({
+      ...rest,
+      kind: kind ?? 1,
+      ...(clientPubkey ? { clientPubkey } : {}),
+      relays: receipts.filter(receipt => receipt.accepted && receipt.relay !== '*').map(receipt => receipt.relay)
+    });
+  } catch (error) {
+    // The note is already out; losing the log entry must not fail the call
+    console.warn(`⚠️  Could not record publication ${publication.eventId}:`, error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * publish_draft tool
+ *
+ * Signs and publishes a note saved in draft mode, optionally with edited text.
+ * The text is checked by content moderation again before it is signed, and
+ * drafts that moderation held for review can only be released by an admin.
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, textResult } from './types.js';
+import { draftIdArgument, requireDraft, requireDrafts } from './drafts.js';
+import { miningProgress } from './mining.js';
+import { enforceOptOut } from './optout.js';
+import { flaggedDraftRejection } from './moderation.js';
+import { recordPublication } from './publications.js';
+import { formatPublishReport } from '../utils/publish.util.js';
+import { publishPersonaNote, rewritePersonaNote } from '../utils/summarise.util.js';
+import { addressOf } from '../utils/article.util.js';
+
+const schema = z.object({
+  draftId: draftIdArgument,
+  text: z.string().min(1).optional().describe("Edited text to publish instead of the generated text. The persona's header and hashtags are applied as usual; tags are unchanged.")
+});
+
+export const publishDraftTool = defineTool({
+  name: "publish_draft",
+  description: "Publishes a draft created with publish: false, exactly as returned (or with edited text). The draft is removed once at least one relay accepts it; if publishing fails it stays available.",
+  schema,
+  async: true,
+  async handler({ draftId, text }, ctx) {
+    const pending = requireDraft(ctx, draftId);
+    const isAdmin = Boolean(ctx.access?.isAdmin(ctx.clientPubkey));
+    // Notes moderation held for review are released by an admin, not by whoever asked for them
+    if (pending.moderationReasons && !isAdmin) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Draft ${draftId} was held by content moderation and can only be published by a server admin (ADMIN_PUBKEYS)`,
+        { reason: 'moderation_hold', reasons: pending.moderationReasons }
+      );
+    }
+    // The subject may have opted out after the draft was generated; never publish then
+    if ((await enforceOptOut(ctx, pending.tool, pending.subjectPubkey)) === 'private') {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Draft ${draftId} was not published: ${pending.subjectPubkey} has opted out of being tagged in public notes`,
+        { reason: 'subject_opted_out', tool: pending.tool, pubkey: pending.subjectPubkey }
+      );
+    }
+    // Edited text has never been checked, and rules may have changed since the draft was made
+    if (ctx.moderation) {
+      const verdict = await ctx.moderation.check(text ?? pending.text);
+      if (verdict.flagged && !isAdmin) {
+        return flaggedDraftRejection(draftId, verdict);
+      }
+      if (verdict.flagged) {
+        console.warn(`🛡️  Moderation flagged draft ${draftId}; published by admin ${ctx.clientPubkey!.substring(0, 16)}... anyway: ${verdict.reasons.join('; ')}`);
+      }
+    }
+    // Take the draft out of the store so it can't be published twice
+    const draft = await requireDrafts(ctx).take(draftId);
+    if (!draft) {
+      throw new McpError(ErrorCode.InvalidParams, `Draft ${draftId} is already being published or was discarded`);
+    }
+
+    try {
+      const persona = ctx.personas.forTool(draft.tool, draft.persona);
+      const note = text !== undefined
+        ? rewritePersonaNote(draft.note, persona, text, draft.subjectPubkey)
+        : draft.note;
+
+      console.log(`📝 Publishing draft ${draft.id} (${draft.tool} as ${persona.displayName}${text !== undefined ? ', edited' : ''})`);
+      const report = await publishPersonaNote(note, persona, ctx.relayPool, ctx.powDifficulty, ctx.publishQuorum, miningProgress(ctx, 0));
+      const relayReport = report.receipts.length > 0 ? `\n\n${formatPublishReport(report)}` : '';
+
+      await recordPublication(ctx, {
+        eventId: report.eventId,
+        tool: draft.tool,
+        persona: persona.id,
+        personaPubkey: persona.pubkey,
+        subjectPubkey: draft.subjectPubkey,
+        receipts: report.receipts,
+        powDifficulty: report.powDifficulty,
+        kind: note.kind,
+        address: addressOf(note),
+        clientPubkey: draft.clientPubkey
+      });
+
+      if (!report.success && report.accepted > 0) {
+        // Some relays stored the event; a retry would sign a second, different note
+        return { ...textResult(`⚠️ Draft ${draft.id} missed the publish quorum: ${report.error}\nEvent ${report.eventId} was accepted by ${report.accepted} relay(s), so the draft was removed; use delete_publication to withdraw it.${relayReport}`), isError: true };
+      }
+      if (!report.success) {
+        await ctx.drafts!.restore(draft);
+        return { ...textResult(`⚠️ Draft ${draft.id} failed to publish: ${report.error}\nNo relay accepted it; the draft is still available.${relayReport}`), isError: true };
+      }
+
+      console.log(`✅ Draft ${draft.id} published as ${report.eventId}`);
+      return textResult(`${text ?? draft.text}\n\n📢 Draft published to Nostr!\nEvent ID: ${report.eventId}\nSubject Pubkey: ${draft.subjectPubkey}${relayReport}`);
+    } catch (error) {
+      await ctx.drafts!.restore(draft);
+      throw error;
+    }
+  }
+});
@@ -0,0 +1,272 @@
+/**
+ * Tool registry
+ *
+ * Collects ToolDefinitions, renders them for tools/list and dispatches
+ * tools/call requests after validating the arguments against each tool's
+ * zod schema. Invalid arguments are rejected with an MCP InvalidParams error.
+ * Tools flagged `async` get an extra `async` argument; such calls are put on
+ * the job queue and answered with a job id instead of the tool's result.
+ * Callers must be on the allowlist (when one is enforced), calls are checked
+ * against the caller's rate limits, and priced tools debit the caller's credit
+ * before running (refunded on failure).
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { textResult, type ServerDeps, type ToolContext, type ToolDefinition, type ToolResult } from './types.js';
+import { describeJob, type Job, type JobRunHooks } from '../jobs/index.js';
+
+/**
+ * Tool metadata as advertised in the tools/list response
+ */
+export interface ListedTool {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    [key: string]: unknown;
+  };
+}
+
+export interface ToolRegistry {
+  names(): string[];
+  listTools(): ListedTool[];
+  callTool(name: string, args: unknown, ctx: ToolContext): Promise<ToolResult>;
+}
+
+/**
+ * Converts a zod schema into the JSON schema used by tools/list
+ * @param schema The tool's resolved argument schema
+ * @returns JSON schema object with type "object"
+ */
+function toInputSchema(schema: z.AnyZodObject): ListedTool['inputSchema'] {
+  // Typed loosely: zod-to-json-schema's generics recurse too deep on our schemas
+  const convert = zodToJsonSchema as (schema: unknown, options: object) => Record<string, unknown>;
+  const { $schema, ...jsonSchema } = convert(schema, {
+    target: 'jsonSchema7',
+    $refStrategy: 'none'
+  });
+
+  return { ...jsonSchema, type: 'object' };
+}
+
+const asyncArgument = z.boolean().optional().describe(
+  "Run as a background job: the call returns a job id immediately; poll job_status / job_result for the outcome"
+);
+
+/**
+ * Formats zod issues into a single readable line
+ * @param issues The issues reported by safeParse
+ * @returns Human readable description, e.g. "pubkey: Required; dayInput: Expected string"
+ */
+function formatIssues(issues: Array<{ path: (string | number)[]; message: string }>): string {
+  return issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Creates a registry for the given tools
+ * @param tools Tool definitions; names must be unique
+ * @param deps Server dependencies used to build config-dependent schemas
+ * @returns ToolRegistry
+ */
+export function createToolRegistry(tools: ToolDefinition<any>[], deps: ServerDeps): ToolRegistry {
+  const byName = new Map<string, ToolDefinition<any>>();
+  const schemas = new Map<string, z.AnyZodObject>();
+
+  for (const tool of tools) {
+    if (byName.has(tool.name)) {
+      throw new Error(`Duplicate tool name in registry: ${tool.name}`);
+    }
+    byName.set(tool.name, tool);
+    const schema = typeof tool.schema === 'function' ? tool.schema(deps) : tool.schema;
+    schemas.set(tool.name, tool.async ? schema.extend({ async: asyncArgument }) : schema);
+  }
+
+  // Schemas are fixed once the server config is loaded, so render them once
+  const listed: ListedTool[] = tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toInputSchema(schemas.get(tool.name)!)
+  }));
+
+  return {
+    names: () => [...byName.keys()],
+
+    listTools: () => listed,
+
+    async callTool(name, args, ctx) {
+      // Background jobs were checked when they were queued
+      if (ctx.access && !ctx.jobId && !ctx.access.isAllowed(ctx.clientPubkey)) {
+        throw new McpError(ErrorCode.InvalidRequest, `Unauthorized: ${ctx.clientPubkey ?? 'unidentified client'} is not on this server's allowlist`);
+      }
+
+      const tool = byName.get(name);
+      if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+      }
+
+      const parsed = schemas.get(name)!.safeParse(args ?? {});
+      if (!parsed.success) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for ${name}: ${formatIssues(parsed.error.issues)}`,
+          { issues: parsed.error.issues }
+        );
+      }
+
+      const { async: runAsync, ...toolArgs } = parsed.data;
+      const queueing = Boolean(tool.async && runAsync);
+
+      // Background job runs were rate limited and charged when they were queued;
+      // they take their concurrency slot when they start, waiting for one if needed
+      let release: () => void = () => {};
+      if (ctx.rateLimits && ctx.jobId) {
+        try {
+          release = await ctx.rateLimits.waitForSlot(name, ctx.signal);
+        } catch (error) {
+          // Cancelled while waiting: the job is already running, so job_cancel won't refund it
+          if (ctx.prepaid && ctx.credits && ctx.clientPubkey) {
+            await ctx.credits.refund(ctx.clientPubkey, ctx.prepaid, `${name} job cancelled`);
+          }
+          throw error;
+        }
+      } else if (ctx.rateLimits) {
+        release = await ctx.rateLimits.acquire(name, ctx.clientPubkey, { concurrency: !queueing });
+      }
+
+      try {
+        const charged = ctx.prepaid ?? await chargeCall(name, ctx);
+        const refund = async (reason: string) => {
+          if (charged > 0 && ctx.credits && ctx.clientPubkey) {
+            await ctx.credits.refund(ctx.clientPubkey, charged, reason);
+          }
+        };
+
+        let result: ToolResult;
+        try {
+          if (queueing) {
+            if (!ctx.jobs) {
+              throw new McpError(ErrorCode.InvalidParams, `Background jobs are not enabled on this server; call ${name} without async`);
+            }
+            const job = await ctx.jobs.enqueue(name, toolArgs, { clientPubkey: ctx.clientPubkey, charged });
+            return textResult(JSON.stringify(describeJob(job), null, 2));
+          }
+
+          result = await tool.handler(tool.async ? toolArgs : parsed.data, ctx);
+        } catch (error) {
+          await refund(`${name} failed`);
+          throw error;
+        }
+
+        if (result.isError) {
+          await refund(`${name} failed`);
+        }
+        return result;
+      } finally {
+        release();
+      }
+    }
+  };
+}
+
+/**
+ * Debits the price of a tool call from the caller's credit
+ * @param name Tool name
+ * @param ctx Tool context (credit ledger and caller)
+ * @returns Sats charged (0 for free tools)
+ */
+async function chargeCall(name: string, ctx: ToolContext): Promise<number> {
+  const price = ctx.credits?.priceOf(name) ?? 0;
+  if (price === 0) return 0;
+
+  if (!ctx.clientPubkey) {
+    throw new McpError(ErrorCode.InvalidRequest, `${name} is a paid tool (${price} sats) and the caller could not be identified`);
+  }
+  await ctx.credits!.charge(ctx.clientPubkey, name);
+  return price;
+}
+
+/**
+ * Builds the per-call ToolContext from the shared server dependencies and
+ * the MCP request handler "extra" (progress token, notifications, abort signal)
+ * @param deps Shared server dependencies
+ * @param extra The RequestHandlerExtra passed to the CallTool handler
+ * @returns ToolContext
+ */
+export function createToolContext(deps: ServerDeps, extra: unknown): ToolContext {
+  // Progress utilities (MCP progress notifications)
+  const progressToken = (extra as any)?._meta?.progressToken;
+  const canProgress = Boolean(progressToken) && typeof (extra as any)?.sendNotification === 'function';
+
+  const sendProgress = async (progress: number, total?: number, message?: string) => {
+    if (!canProgress) return;
+    try {
+      await (extra as any).sendNotification({
+        method: "notifications/progress",
+        params: {
+          progress,
+          ...(typeof total === 'number' ? { total } : {}),
+          ...(message ? { message } : {}),
+          progressToken,
+        }
+      });
+    } catch (err) {
+      // Swallow progress errors to avoid breaking the request
+      console.warn('[progress] failed to send progress notification:', (err as any)?.message || err);
+    }
+  };
+
+  const startHeartbeat = (label: string, intervalMs = Number(process.env.CVM_PROGRESS_HEARTBEAT_MS || 10000)) => {
+    if (!canProgress || intervalMs <= 0) return () => {};
+    const id = setInterval(() => {
+      // Heartbeat message to keep clients aware and reset timeouts
+      sendProgress(0, undefined, `${label} – still working...`);
+    }, intervalMs);
+    // Stop on abort
+    (extra as any)?.signal?.addEventListener?.('abort', () => clearInterval(id));
+    return () => clearInterval(id);
+  };
+
+  return {
+    ...deps,
+    sendProgress,
+    startHeartbeat,
+    signal: (extra as any)?.signal,
+    // Set by NostrServerTransport (injectClientPubkey); overwrites anything the client sent
+    clientPubkey: (extra as any)?._meta?.clientPubkey
+  };
+}
+
+/**
+ * Builds the ToolContext for a tool running as a background job: progress is
+ * recorded on the job instead of being sent to a client, and the job's
+ * cancellation aborts the signal
+ * @param deps Shared server dependencies
+ * @param job The job being run
+ * @param hooks Hooks from the job queue for the running job
+ * @returns ToolContext
+ */
+export function createJobToolContext(deps: ServerDeps, job: Job, hooks: JobRunHooks): ToolContext {
+  const sendProgress = async (progress: number, total?: number, message?: string) => {
+    try {
+      await hooks.onProgress(progress, total, message);
+    } catch (err) {
+      console.warn('[progress] failed to record job progress:', (err as any)?.message || err);
+    }
+  };
+
+  return {
+    ...deps,
+    sendProgress,
+    // Nobody is waiting on the request, so there is no timeout to keep alive
+    startHeartbeat: () => () => {},
+    signal: hooks.signal,
+    clientPubkey: job.clientPubkey,
+    jobId: job.id,
+    onPublishing: hooks.onPublishing,
+    prepaid: job.charged ?? 0
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * roastNpub tool
+ *
+ * Creates witty roasts of social media posts and publishes them to Nostr
+ */
+
+import { z } from 'zod';
+import { defineTool, type ServerDeps } from './types.js';
+import { personaArgument } from '../personas/index.js';
+import { ingestionArguments, resolveSubjectInput } from './ingestion.js';
+import { identityArgument } from './identity.js';
+import { publishArgument } from './drafts.js';
+import { replyToArgument } from './thread.js';
+import { preparePersonaNote, runPersonaNote } from './personaNote.js';
+import { createAndPublishRoast } from '../utils/summarise.util.js';
+
+const schema = (deps: ServerDeps) => z.object({
+  socialPosts: z.string().min(1).optional().describe("Collection of social media posts to roast. The AI will create witty, observational comedy roasts and post them to Nostr. Required when source is 'text'."),
+  pubkey: identityArgument("The person being roasted. Used for the 'p' tag in the Nostr event."),
+  persona: personaArgument(deps.personas, 'roastNpub'),
+  publish: publishArgument,
+  replyTo: replyToArgument,
+  ...ingestionArguments
+});
+
+export const roastNpubTool = defineTool({
+  name: "roastNpub",
+  description: "Creates a witty, observational roast of social media posts and publishes it to Nostr from a dedicated roast account. Set source to 'relays' (with since/until) to have the server fetch the subject's notes itself.",
+  schema,
+  async: true,
+  async handler({ socialPosts: textInput, pubkey, persona, publish, replyTo, ...source }, ctx) {
+    const call = await preparePersonaNote(ctx, 'roastNpub', { pubkey, persona, publish, replyTo });
+
+    // Pasted text, or the subject's notes fetched from relays
+    const subject = await resolveSubjectInput(ctx, source, textInput, 'socialPosts', call.identity, 7 * 24 * 60 * 60);
+    const socialPosts = subject.text;
+
+    console.log(`🔥 Creating roast for pubkey: ${call.subjectPubkey}`);
+    console.log(`   Content preview: ${socialPosts.substring(0, 100)}...`);
+
+    return runPersonaNote(ctx, call, { noun: 'roast', publishedHeadline: '🔥 Roast published to Nostr!' }, mining =>
+      createAndPublishRoast(
+        socialPosts,
+        call.subjectPubkey,
+        call.persona,
+        call.llm,
+        ctx.relayPool,
+        ctx.powDifficulty,
+        ctx.publishQuorum,
+        mining,
+        call.publish,
+        ctx.moderation,
+        call.references
+      )
+    );
+  }
+});
@@ -0,0 +1,69 @@
+/**
+ * summarise tool
+ *
+ * Creates humorous day summaries and posts them to Nostr
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, type ServerDeps } from './types.js';
+import { personaArgument } from '../personas/index.js';
+import { eventsArgument, ingestionArguments, resolveEventDump, resolveSubjectInput, type SubjectInput } from './ingestion.js';
+import { identityArgument } from './identity.js';
+import { publishArgument } from './drafts.js';
+import { replyToArgument } from './thread.js';
+import { preparePersonaNote, runPersonaNote } from './personaNote.js';
+import { createAndPublishSummary } from '../utils/summarise.util.js';
+
+const schema = (deps: ServerDeps) => z.object({
+  dayInput: z.string().min(1).optional().describe("Description of what the person has been up to (may include image URLs). The AI will create a humorous summary and post it to Nostr. Required when source is 'text' and no events are given."),
+  events: eventsArgument,
+  pubkey: identityArgument("The person whose day is being summarized. Used for the 'p' tag in the Nostr event."),
+  persona: personaArgument(deps.personas, 'summarise'),
+  publish: publishArgument,
+  replyTo: replyToArgument,
+  ...ingestionArguments
+});
+
+export const summariseTool = defineTool({
+  name: "summarise",
+  description: "Creates a humorous summary of someone's day and posts it as a Kind 1 Nostr event. Uses multimodal AI analysis with automatic Nostr publishing. Set source to 'relays' (with since/until) to have the server fetch the subject's notes itself, or pass the signed events directly in events.",
+  schema,
+  async: true,
+  async handler({ dayInput: textInput, events, pubkey, persona, publish, replyTo, ...source }, ctx) {
+    if (events && (textInput || source.source === 'relays')) {
+      throw new McpError(ErrorCode.InvalidParams, "events can't be combined with dayInput or source 'relays'");
+    }
+    const call = await preparePersonaNote(ctx, 'summarise', { pubkey, persona, publish, replyTo });
+
+    // Signed events, pasted text, or the subject's notes fetched from relays
+    const dump = events ? await resolveEventDump(ctx, events, call.identity) : undefined;
+    const subject: SubjectInput = dump ? { text: dump.digest } : await resolveSubjectInput(ctx, source, textInput, 'dayInput', call.identity, 24 * 60 * 60);
+    const dayInput = subject.text;
+    // The note's date tag: the day the events fall on, or the last day of the relay window
+    // (a window ending at midnight belongs to the day before)
+    const day = dump ?? (subject.since !== undefined && subject.until !== undefined
+      ? { date: new Date(Math.max(subject.since, subject.until - 1) * 1000).toISOString().substring(0, 10) }
+      : undefined);
+
+    console.log(`📝 ${call.persona.displayName} summarising day for pubkey: ${call.subjectPubkey}`);
+    console.log(`   Content preview: ${dayInput.substring(0, 100)}...`);
+
+    return runPersonaNote(ctx, call, { noun: 'summary', publishedHeadline: '🎵 Summary published to Nostr!' }, mining =>
+      createAndPublishSummary(
+        dayInput,
+        call.subjectPubkey,
+        call.persona,
+        call.llm,
+        ctx.relayPool,
+        ctx.powDifficulty,
+        ctx.publishQuorum,
+        mining,
+        call.publish,
+        ctx.moderation,
+        call.references,
+        day
+      )
+    );
+  }
+});
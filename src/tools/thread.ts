@@ -0,0 +1,46 @@
+/**
+ * Shared replyTo argument for tools that publish notes
+ *
+ * The persona's note is posted as a NIP-10 reply to the given kind 1 note
+ * (see utils/thread.util.ts). It tags the parent's author and the people the
+ * parent tagged, except those who opted out, up to REPLY_MAX_MENTIONS of them,
+ * so a crowded parent can't be used to make a persona mass-tag people.
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from './types.js';
+import { fetchEventById, parseEventReference, replyCandidates, type ReplyTarget } from '../utils/thread.util.js';
+import { getPoolRelayUrls } from '../utils/publish.util.js';
+
+export const replyToArgument = z.string()
+  .refine(value => parseEventReference(value) !== undefined, 'Expected a 64-character hex event id, a note1 or an nevent')
+  .optional()
+  .describe("Note to reply to (hex event id, note1 or nevent). The note is published as a NIP-10 reply in that thread.");
+
+/**
+ * Fetches the note a tool call replies to
+ * @param ctx Tool context (relay pool)
+ * @param value replyTo argument
+ * @returns Promise with the reply target, or undefined when no replyTo was given
+ */
+export async function resolveReplyTo(ctx: ToolContext, value: string | undefined): Promise<ReplyTarget | undefined> {
+  if (!value) return undefined;
+  const { id, relays } = parseEventReference(value)!;
+
+  const event = await fetchEventById(ctx.relayPool, id, relays);
+  if (!event) {
+    throw new McpError(ErrorCode.InvalidParams, `replyTo: note ${id} was not found on the server's relays${relays.length > 0 ? ' or its relay hints' : ''}`, { reason: 'reply_target_not_found' });
+  }
+  if (event.kind !== 1) {
+    throw new McpError(ErrorCode.InvalidParams, `replyTo: event ${id} is kind ${event.kind}; only text notes (kind 1) can be replied to`, { reason: 'invalid_reply_target' });
+  }
+
+  const maxMentions = Math.max(1, parseInt(process.env.REPLY_MAX_MENTIONS || '5', 10));
+  const candidates = replyCandidates(event);
+  const mentions = candidates.filter(pubkey => !ctx.optOuts?.isOptedOut(pubkey)).slice(0, maxMentions);
+  if (mentions.length < candidates.length) {
+    console.log(`🧵 Reply tags ${mentions.length} of the ${candidates.length} people in the thread (opt-outs and REPLY_MAX_MENTIONS)`);
+  }
+  return { event, relay: relays[0] || getPoolRelayUrls(ctx.relayPool)[0] || '', mentions };
+}
@@ -0,0 +1,120 @@
+/**
+ * Shared types for the declarative tool registry
+ *
+ * Every tool exposed by the server is a self-contained module that exports a
+ * ToolDefinition. The zod schema on the definition drives both the JSON schema
+ * advertised via tools/list and the runtime validation of tools/call arguments.
+ */
+
+import { z } from 'zod';
+import type { PrivateKeySigner, SimpleRelayPool } from '@contextvm/sdk';
+import type { LLMConfig } from '../llm/index.js';
+import type { PersonaRegistry } from '../personas/index.js';
+import type { QuorumPolicy } from '../utils/publish.util.js';
+import type { JobQueue } from '../jobs/index.js';
+import type { CreditLedger } from '../credits/index.js';
+import type { SeenProofStore } from '../utils/cashu.util.js';
+import type { RateLimiter } from '../ratelimit/index.js';
+import type { AccessControl } from '../access/index.js';
+import type { DraftStore } from '../drafts/index.js';
+import type { OptOutRegistry } from '../optout/index.js';
+import type { Moderator } from '../moderation/index.js';
+import type { PublicationLog } from '../publications/index.js';
+
+/**
+ * Long-lived server resources and configuration shared by all tools
+ */
+export interface ServerDeps {
+  signer: PrivateKeySigner;
+  relayPool: SimpleRelayPool;
+  serverPrivateKey: string;
+  llm: LLMConfig;
+  personas: PersonaRegistry;
+  powDifficulty: number;
+  publishQuorum: QuorumPolicy;
+  /** Background job queue; required for `async: true` calls */
+  jobs?: JobQueue;
+  /** Credit ledger and tool prices; tools are free without it */
+  credits?: CreditLedger;
+  /** Cashu proofs already processed by cashu_access (replay protection) */
+  cashuProofs?: SeenProofStore;
+  /** Per-client/per-tool rate limits, quotas and concurrency caps */
+  rateLimits?: RateLimiter;
+  /** Client allowlist and admin keys */
+  access?: AccessControl;
+  /** Notes generated with `publish: false`, awaiting review */
+  drafts?: DraftStore;
+  /** Subjects who asked not to be roasted or summarised */
+  optOuts?: OptOutRegistry;
+  /** Pre-publish content checks for generated notes */
+  moderation?: Moderator;
+  /** Notes the server has published, for list_publications and delete_publication */
+  publications?: PublicationLog;
+}
+
+/**
+ * Per-call context handed to a tool handler
+ */
+export interface ToolContext extends ServerDeps {
+  /** Sends an MCP progress notification if the client supplied a progress token */
+  sendProgress: (progress: number, total?: number, message?: string) => Promise<void>;
+  /** Starts periodic "still working" notifications; returns a function that stops them */
+  startHeartbeat: (label: string, intervalMs?: number) => () => void;
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  /** Hex pubkey of the calling client (injected by the Nostr transport) */
+  clientPubkey?: string;
+  /** Set when the call runs as a background job */
+  jobId?: string;
+  /** Background jobs: records an event id on the job before it is sent to relays */
+  onPublishing?: (eventId: string) => Promise<void>;
+  /** Sats already charged for this call (background jobs are charged when queued) */
+  prepaid?: number;
+}
+
+/**
+ * Result shape returned by tool handlers (MCP CallToolResult subset)
+ */
+export interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+/**
+ * A single tool: its public metadata, argument schema and handler
+ */
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  /** Argument schema, or a builder for schemas that depend on server config (e.g. allowed personas) */
+  schema: S | ((deps: ServerDeps) => S);
+  /** Long-running tool: accepts `async: true` to run as a background job (see src/jobs) */
+  async?: boolean;
+  handler: (args: z.infer<S>, ctx: ToolContext) => Promise<ToolResult>;
+}
+
+/**
+ * Helper that preserves the inferred argument type of a tool's schema
+ * @param tool The tool definition
+ * @returns The same definition, typed
+ */
+export function defineTool<S extends z.AnyZodObject>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool;
+}
+
+/**
+ * Builds a plain text MCP tool result
+ * @param text The text to return to the client
+ * @returns A ToolResult with a single text content item
+ */
+export function textResult(text: string): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text
+      }
+    ]
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * weekly_summary tool
+ *
+ * Creates Craig David style rap summaries and posts them to Nostr, as a text
+ * note or as a NIP-23 long-form article that re-runs of the same week replace
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, type ServerDeps } from './types.js';
+import { personaArgument } from '../personas/index.js';
+import { ingestionArguments, resolveSubjectInput } from './ingestion.js';
+import { identityArgument } from './identity.js';
+import { publishArgument } from './drafts.js';
+import { replyToArgument } from './thread.js';
+import { preparePersonaNote, runPersonaNote } from './personaNote.js';
+import { createAndPublishWeeklyRap } from '../utils/summarise.util.js';
+import { addressOf, findArticlePublishedAt, isoWeek, LONG_FORM_KIND, naddrFor, weeklyRapIdentifier, type ArticleOptions } from '../utils/article.util.js';
+
+const schema = (deps: ServerDeps) => z.object({
+  weeklyInput: z.string().min(1).optional().describe("Combined summary of the week's activities. The AI will create a Craig David style rap and post it to Nostr. Required when source is 'text'."),
+  pubkey: identityArgument("The person whose week is being summarized. Used for the 'p' tag in the Nostr event."),
+  persona: personaArgument(deps.personas, 'weekly_summary'),
+  publish: publishArgument,
+  replyTo: replyToArgument,
+  format: z.enum(['note', 'article']).default('note').describe("'note' (default) publishes a kind 1 text note; 'article' publishes a NIP-23 long-form article (kind 30023) that replaces the subject's article for the same ISO week."),
+  ...ingestionArguments
+});
+
+export const weeklySummaryTool = defineTool({
+  name: "weekly_summary",
+  description: "Creates a Craig David style '7 Days' rap summary of the week's activities and publishes it to Nostr. Set source to 'relays' (with since/until) to have the server fetch the subject's notes itself.",
+  schema,
+  async: true,
+  async handler({ weeklyInput: textInput, pubkey, persona, publish, replyTo, format, ...source }, ctx) {
+    if (format === 'article' && replyTo) {
+      throw new McpError(ErrorCode.InvalidParams, "replyTo can't be used with format 'article': only text notes can be replies");
+    }
+    const call = await preparePersonaNote(ctx, 'weekly_summary', { pubkey, persona, publish, replyTo });
+
+    // Pasted text, or the subject's notes fetched from relays
+    const subject = await resolveSubjectInput(ctx, source, textInput, 'weeklyInput', call.identity, 7 * 24 * 60 * 60);
+    const weeklyInput = subject.text;
+
+    // One article per subject and ISO week (of the window's end, or now)
+    let article: ArticleOptions | undefined;
+    if (format === 'article') {
+      const week = isoWeek(new Date((subject.until ?? Math.floor(Date.now() / 1000)) * 1000));
+      const identifier = weeklyRapIdentifier(call.subjectPubkey, week);
+      article = {
+        identifier,
+        title: `Weekly Rap by ${call.persona.displayName}, ${week}`,
+        publishedAt: await findArticlePublishedAt(ctx.relayPool, call.persona.pubkey, identifier)
+      };
+    }
+    const articleNote = article ? { kind: LONG_FORM_KIND, pubkey: call.persona.pubkey, tags: [['d', article.identifier]] } : undefined;
+
+    console.log(`🎤 ${call.persona.displayName} creating weekly rap for pubkey: ${call.subjectPubkey}`);
+    console.log(`   Content preview: ${weeklyInput.substring(0, 100)}...`);
+
+    return runPersonaNote(ctx, call, {
+      noun: 'weekly rap',
+      publishedHeadline: '🎵 Weekly rap published to Nostr!',
+      ...(articleNote ? {
+        details: [`Article: ${naddrFor(ctx.relayPool, articleNote)}`],
+        publication: { kind: articleNote.kind, address: addressOf(articleNote) }
+      } : {})
+    }, mining =>
+      createAndPublishWeeklyRap(
+        weeklyInput,
+        call.subjectPubkey,
+        call.persona,
+        call.llm,
+        ctx.relayPool,
+        ctx.powDifficulty,
+        ctx.publishQuorum,
+        mining,
+        call.publish,
+        ctx.moderation,
+        call.references,
+        article
+      )
+    );
+  }
+});
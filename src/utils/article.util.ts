@@ -0,0 +1,164 @@
+/**
+ * Utility for publishing persona text as a NIP-23 long-form article
+ *
+ * Articles are addressable events (kind 30023): the `d` tag, together with the
+ * persona's pubkey, names the article, so publishing again under the same `d`
+ * replaces it instead of adding a second one. Weekly raps use
+ * `weekly-rap-<subject pubkey>-<ISO week>`, so re-running a week updates that
+ * week's article. Content is Markdown; the title, summary and topics live in tags.
+ */
+
+import { SimpleRelayPool } from '@contextvm/sdk';
+import { nip19, type Event as NostrEvent } from 'nostr-tools';
+import type { PersonaForTool } from '../personas/index.js';
+import type { NoteTemplate } from './summarise.util.js';
+import { getPoolQueries, getPoolRelayUrls } from './publish.util.js';
+
+export const LONG_FORM_KIND = 30023;
+
+/**
+ * Article metadata
+ */
+export interface ArticleOptions {
+  /** `d` tag identifying the article */
+  identifier: string;
+  title: string;
+  /** First publication (unix seconds); kept when an article is replaced */
+  publishedAt?: number;
+}
+
+/**
+ * ISO-8601 week of a date
+ * @param date Date (UTC)
+ * @returns Week such as "2026-W42"
+ */
+export function isoWeek(date: Date): string {
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = 1 + Math.floor((thursday.getTime() - yearStart) / 86400000 / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * `d` tag for a subject's weekly rap
+ * @param subjectPubkey Hex pubkey of the subject
+ * @param week ISO week (see isoWeek)
+ * @returns Article identifier
+ */
+export function weeklyRapIdentifier(subjectPubkey: string, week: string): string {
+  return `weekly-rap-${subjectPubkey}-${week}`;
+}
+
+/**
+ * Renders generated text as Markdown, keeping its line breaks
+ * @param text Generated text
+ * @param subjectMention NIP-27 mention of the subject, placed above the text
+ * @returns Article content
+ */
+export function renderArticleContent(text: string, subjectMention: string = ''): string {
+  // Single newlines (rap lines) become hard breaks; blank lines stay paragraph breaks
+  const body = text.trim().split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trimEnd()).join('  \n'))
+    .join('\n\n');
+  return subjectMention ? `${subjectMention}\n\n${body}` : body;
+}
+
+/**
+ * Short article summary: the first line of the text
+ * @param text Generated text
+ * @returns Summary of at most 200 characters
+ */
+export function articleSummary(text: string): string {
+  const firstLine = text.trim().split('\n').find(line => line.trim().length > 0)?.trim() || '';
+  return firstLine.length > 200 ? `${firstLine.substring(0, 197)}...` : firstLine;
+}
+
+/**
+ * Builds the unsigned kind 30023 article for generated text
+ * @param text The generated text
+ * @param subjectPubkey Hex pubkey of the person the article is about
+ * @param persona Persona (signing key, client tag, topics, hashtags)
+ * @param article Identifier, title and original publication time
+ * @param subjectMention NIP-27 mention of the subject
+ * @param subjectRelays Relay hints for the subject's `p` tag
+ * @returns Article template
+ */
+export function buildPersonaArticle(
+  text: string,
+  subjectPubkey: string,
+  persona: PersonaForTool,
+  article: ArticleOptions,
+  subjectMention: string = '',
+  subjectRelays: string[] = []
+): NoteTemplate {
+  const topics = [...new Set([...persona.topics, ...persona.hashtags].map(topic => topic.toLowerCase()))];
+  const tags: string[][] = [
+    ['d', article.identifier],
+    ['title', article.title],
+    ['summary', articleSummary(text)],
+    ['published_at', String(article.publishedAt ?? Math.floor(Date.now() / 1000))],
+    ['client', persona.clientTag],
+    ...topics.map(topic => ['t', topic])
+  ];
+  if (subjectPubkey) {
+    tags.push(subjectRelays.length > 0 ? ['p', subjectPubkey, subjectRelays[0]] : ['p', subjectPubkey]);
+  }
+
+  return {
+    kind: LONG_FORM_KIND,
+    pubkey: persona.pubkey,
+    tags,
+    content: renderArticleContent(text, subjectMention)
+  };
+}
+
+/**
+ * Address of an addressable note (`<kind>:<pubkey>:<d>`), for `a` tags
+ * @param note Note template or signed event
+ * @returns Address, or undefined for notes that are not addressable
+ */
+export function addressOf(note: Pick<NoteTemplate, 'kind' | 'pubkey' | 'tags'>): string | undefined {
+  if (note.kind < 30000 || note.kind >= 40000) return undefined;
+  const identifier = note.tags.find(tag => tag[0] === 'd')?.[1] ?? '';
+  return `${note.kind}:${note.pubkey}:${identifier}`;
+}
+
+/**
+ * NIP-19 naddr for an article, with the pool's first relays as hints
+ * @param relayPool Relay pool
+ * @param note Article
+ * @returns naddr1... string
+ */
+export function naddrFor(relayPool: SimpleRelayPool, note: Pick<NoteTemplate, 'kind' | 'pubkey' | 'tags'>): string {
+  return nip19.naddrEncode({
+    kind: note.kind,
+    pubkey: note.pubkey,
+    identifier: note.tags.find(tag => tag[0] === 'd')?.[1] ?? '',
+    relays: getPoolRelayUrls(relayPool).slice(0, 2)
+  });
+}
+
+/**
+ * Looks up when an article was first published, so replacing it keeps published_at
+ * @param relayPool Relay pool
+ * @param pubkey Persona pubkey
+ * @param identifier Article `d` tag
+ * @returns Promise with unix seconds, or undefined if the article is new (or relays can't be reached)
+ */
+export async function findArticlePublishedAt(relayPool: SimpleRelayPool, pubkey: string, identifier: string): Promise<number | undefined> {
+  const pool = getPoolQueries(relayPool);
+  const relayUrls = getPoolRelayUrls(relayPool);
+  if (!pool || relayUrls.length === 0) return undefined;
+  try {
+    const events: NostrEvent[] = await pool.querySync(relayUrls, { kinds: [LONG_FORM_KIND], authors: [pubkey], '#d': [identifier] }, { maxWait: 5000 });
+    const times = events
+      .map(event => parseInt(event.tags.find(tag => tag[0] === 'published_at')?.[1] || '', 10))
+      .filter(Number.isFinite);
+    return times.length > 0 ? Math.min(...times) : undefined;
+  } catch (error) {
+    console.warn(`⚠️  Could not look up existing article ${identifier}:`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
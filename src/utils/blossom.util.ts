@@ -0,0 +1,301 @@
+/**
+ * Utility for Blossom media servers (BUD-01, BUD-02, BUD-04)
+ *
+ * Blossom servers address blobs by the sha256 of their content: GET
+ * `<server>/<sha256>` (optionally with a file extension) returns the blob, so a
+ * hash names the same file on every server and a download can be checked
+ * against it. The servers used are listed in BLOSSOM_SERVERS.
+ *
+ * Uploads (PUT /upload) are authorised with a kind 24242 event signed by the
+ * uploading key (a persona's), limited to the blob's hash and a short expiry.
+ * The blob goes to the first server and is then mirrored to the others
+ * (PUT /mirror, falling back to a direct upload), so every server holds the
+ * same hash and the other URLs can be listed as fallbacks in `imeta` tags.
+ */
+
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { finalizeEvent, type Event as NostrEvent } from 'nostr-tools';
+
+export const BLOSSOM_AUTH_KIND = 24242;
+
+export type BlossomVerb = 'get' | 'upload' | 'list' | 'delete';
+
+/**
+ * What a server returns for a stored blob (BUD-02)
+ */
+export interface BlobDescriptor {
+  url: string;
+  sha256: string;
+  size: number;
+  type?: string;
+  uploaded?: number;
+}
+
+/**
+ * Outcome of storing a blob on one server
+ */
+export interface BlossomServerResult {
+  server: string;
+  ok: boolean;
+  /** How the blob got there */
+  via?: 'upload' | 'mirror';
+  url?: string;
+  error?: string;
+}
+
+/**
+ * A blob stored on one or more servers
+ */
+export interface BlossomUpload {
+  sha256: string;
+  size: number;
+  mime: string;
+  /** URLs on the servers that stored it, first server first */
+  urls: string[];
+  results: BlossomServerResult[];
+}
+
+export interface BlossomUploadOptions {
+  /** Hex private key the auth events are signed with */
+  privateKey: string;
+  /** Content type sent with the upload */
+  mime: string;
+  /** Servers to store on (default BLOSSOM_SERVERS) */
+  servers?: string[];
+  /** Human-readable reason shown in the auth event */
+  description?: string;
+}
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Configured Blossom servers
+ * @param env Environment (default process.env)
+ * @returns Server base URLs without trailing slashes (BLOSSOM_SERVERS, comma separated)
+ */
+export function blossomServers(env: NodeJS.ProcessEnv = process.env): string[] {
+  return [...new Set((env.BLOSSOM_SERVERS || '')
+    .split(',')
+    .map(server => server.trim().replace(/\/+$/, ''))
+    .filter(server => /^https?:\/\//i.test(server)))];
+}
+
+/**
+ * Whether a value is a hex sha256 (a Blossom blob hash)
+ * @param value Candidate
+ * @returns true for 64 lowercase or uppercase hex characters
+ */
+export function isBlobHash(value: string): boolean {
+  return SHA256_PATTERN.test(value.toLowerCase());
+}
+
+/**
+ * URL of a blob on a server
+ * @param server Server base URL
+ * @param sha256 Hex sha256
+ * @param extension Optional file extension (without the dot)
+ * @returns `<server>/<sha256>[.<ext>]`
+ */
+export function blobUrl(server: string, sha256: string, extension?: string): string {
+  return `${server.replace(/\/+$/, '')}/${sha256.toLowerCase()}${extension ? `.${extension}` : ''}`;
+}
+
+/**
+ * The blob hash in a BUD-01 URL path (`.../<sha256>[.ext]`)
+ * @param url Media URL
+ * @returns Hex sha256, or undefined if the last path segment isn't a hash
+ */
+export function blobHashFromUrl(url: string): string | undefined {
+  try {
+    const segment = new URL(url).pathname.split('/').pop() || '';
+    const hash = segment.replace(/\.[a-z0-9]+$/i, '').toLowerCase();
+    return SHA256_PATTERN.test(hash) ? hash : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * sha256 of a blob
+ * @param data Content
+ * @returns Hex digest
+ */
+export function sha256Hex(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Signs a Blossom authorization event
+ * @param privateKey Hex private key
+ * @param verb Action being authorised
+ * @param options Blob hash the authorization is limited to, and its description
+ * @returns Signed kind 24242 event, valid for BLOSSOM_AUTH_TTL_SECONDS (default 300)
+ */
+export function createBlossomAuth(
+  privateKey: string,
+  verb: BlossomVerb,
+  options: { sha256?: string; description?: string } = {}
+): NostrEvent {
+  const now = Math.floor(Date.now() / 1000);
+  const ttlSeconds = parseInt(process.env.BLOSSOM_AUTH_TTL_SECONDS || '300', 10);
+  return finalizeEvent({
+    kind: BLOSSOM_AUTH_KIND,
+    created_at: now,
+    tags: [
+      ['t', verb],
+      ['expiration', String(now + ttlSeconds)],
+      ...(options.sha256 ? [['x', options.sha256]] : [])
+    ],
+    content: options.description || `${verb.charAt(0).toUpperCase()}${verb.slice(1)} blob`
+  }, Buffer.from(privateKey, 'hex'));
+}
+
+/**
+ * Authorization header for a signed auth event
+ * @param event Kind 24242 event
+ * @returns `Nostr <base64 event JSON>`
+ */
+export function blossomAuthHeader(event: NostrEvent): string {
+  return `Nostr ${Buffer.from(JSON.stringify(event)).toString('base64')}`;
+}
+
+/**
+ * Reads a blob descriptor and checks it describes the expected blob
+ */
+function checkDescriptor(data: unknown, sha256: string): BlobDescriptor {
+  const descriptor = data as Partial<BlobDescriptor> | undefined;
+  if (!descriptor || typeof descriptor.url !== 'string') {
+    throw new Error('server returned no blob descriptor');
+  }
+  if (descriptor.sha256 && descriptor.sha256.toLowerCase() !== sha256) {
+    throw new Error(`server stored ${descriptor.sha256} instead of ${sha256}`);
+  }
+  return { ...descriptor, url: descriptor.url, sha256, size: Number(descriptor.size) || 0 };
+}
+
+/**
+ * Error message for a failed request, including the server's X-Reason (BUD-01)
+ */
+function blossomError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const reason = error.response?.headers?.['x-reason'];
+    return error.response
+      ? `HTTP ${error.response.status}${reason ? `: ${reason}` : ''}`
+      : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Uploads a blob to one server (BUD-02 PUT /upload)
+ * @param server Server base URL
+ * @param data Blob content
+ * @param options Signing key, content type and description
+ * @returns Promise with the server's blob descriptor
+ * @throws Error if the server refuses the upload or stores different content
+ */
+export async function uploadBlob(server: string, data: Buffer, options: Omit<BlossomUploadOptions, 'servers'>): Promise<BlobDescriptor> {
+  const sha256 = sha256Hex(data);
+  const auth = createBlossomAuth(options.privateKey, 'upload', { sha256, description: options.description });
+  const response = await axios.put(`${server.replace(/\/+$/, '')}/upload`, data, {
+    headers: {
+      'Authorization': blossomAuthHeader(auth),
+      'Content-Type': options.mime,
+      'X-SHA-256': sha256
+    },
+    maxBodyLength: Infinity,
+    timeout: parseInt(process.env.BLOSSOM_TIMEOUT_MS || '60000', 10)
+  });
+  return checkDescriptor(response.data, sha256);
+}
+
+/**
+ * Asks a server to copy a blob from another server's URL (BUD-04 PUT /mirror)
+ * @param server Server base URL
+ * @param url URL of the blob on a server that already has it
+ * @param sha256 Hex sha256 of the blob
+ * @param options Signing key and description
+ * @returns Promise with the server's blob descriptor
+ * @throws Error if the server doesn't support mirroring or refuses it
+ */
+export async function mirrorBlob(
+  server: string,
+  url: string,
+  sha256: string,
+  options: Pick<BlossomUploadOptions, 'privateKey' | 'description'>
+): Promise<BlobDescriptor> {
+  const auth = createBlossomAuth(options.privateKey, 'upload', { sha256, description: options.description });
+  const response = await axios.put(`${server.replace(/\/+$/, '')}/mirror`, { url }, {
+    headers: { 'Authorization': blossomAuthHeader(auth), 'Content-Type': 'application/json' },
+    timeout: parseInt(process.env.BLOSSOM_TIMEOUT_MS || '60000', 10)
+  });
+  return checkDescriptor(response.data, sha256);
+}
+
+/**
+ * Stores a blob on the configured servers: uploads it to the first server that
+ * accepts it, then mirrors it to the rest (uploading directly where mirroring fails)
+ * @param data Blob content
+ * @param options Signing key, content type and servers
+ * @returns Promise with the blob's hash and its URL on every server that stored it
+ * @throws Error if no servers are configured or none accepted the blob
+ */
+export async function uploadToBlossom(data: Buffer, options: BlossomUploadOptions): Promise<BlossomUpload> {
+  const servers = options.servers ?? blossomServers();
+  if (servers.length === 0) {
+    throw new Error('No Blossom servers configured (BLOSSOM_SERVERS)');
+  }
+  const sha256 = sha256Hex(data);
+  console.log(`🌸 Uploading ${data.length} bytes (${options.mime}, ${sha256.substring(0, 12)}...) to ${servers.length} Blossom server(s)`);
+
+  const results: BlossomServerResult[] = [];
+  let source: string | undefined;
+  for (const server of servers) {
+    try {
+      // Mirroring is cheaper for us, but needs a copy the server can fetch
+      if (source) {
+        try {
+          const mirrored = await mirrorBlob(server, source, sha256, options);
+          results.push({ server, ok: true, via: 'mirror', url: mirrored.url });
+          console.log(`   ✅ ${server}: mirrored`);
+          continue;
+        } catch (error) {
+          console.log(`   ↪️  ${server}: mirror failed (${blossomError(error)}), uploading`);
+        }
+      }
+      const uploaded = await uploadBlob(server, data, options);
+      source = source ?? uploaded.url;
+      results.push({ server, ok: true, via: 'upload', url: uploaded.url });
+      console.log(`   ✅ ${server}: uploaded`);
+    } catch (error) {
+      results.push({ server, ok: false, error: blossomError(error) });
+      console.warn(`   ❌ ${server}: ${blossomError(error)}`);
+    }
+  }
+
+  const urls = [...new Set(results.filter(result => result.ok).map(result => result.url!))];
+  if (urls.length === 0) {
+    throw new Error(`No Blossom server accepted the upload: ${results.map(result => `${result.server}: ${result.error}`).join('; ')}`);
+  }
+  return { sha256, size: data.length, mime: options.mime, urls, results };
+}
+
+/**
+ * NIP-92 `imeta` tag for an uploaded blob; the other servers' URLs are listed as fallbacks
+ * @param upload Result of uploadToBlossom
+ * @param extra Optional dimensions and alt text
+ * @returns imeta tag
+ */
+export function imetaTag(upload: BlossomUpload, extra: { dim?: string; alt?: string } = {}): string[] {
+  return [
+    'imeta',
+    `url ${upload.urls[0]}`,
+    `m ${upload.mime}`,
+    `x ${upload.sha256}`,
+    `size ${upload.size}`,
+    ...(extra.dim ? [`dim ${extra.dim}`] : []),
+    ...(extra.alt ? [`alt ${extra.alt}`] : []),
+    ...upload.urls.slice(1).map(url => `fallback ${url}`)
+  ];
+}
@@ -0,0 +1,318 @@
+/**
+ * Utility for decoding Cashu tokens locally and tracking spent proofs
+ *
+ * cashu_access used to forward any string to NCTool for redemption. Decoding
+ * the token first lets the server reject malformed tokens, unsupported units,
+ * amounts below the minimum and replays of already processed proofs without
+ * a network round trip. Supports cashuA (NUT-00 V3, base64url JSON) and
+ * cashuB (NUT-00 V4, base64url CBOR) tokens.
+ */
+
+import { createHash } from 'crypto';
+import { createJsonStore, dataFilePath, type JsonStore } from './jsonStore.util.js';
+
+/**
+ * A single proof, reduced to what the server checks
+ */
+export interface CashuProof {
+  amount: number;
+  secret: string;
+  /** Keyset id (hex) */
+  keysetId: string;
+}
+
+/**
+ * A decoded token
+ */
+export interface DecodedCashuToken {
+  version: 3 | 4;
+  /** Mint URL (first mint for multi-mint V3 tokens) */
+  mint: string;
+  mints: string[];
+  unit: string;
+  memo?: string;
+  proofs: CashuProof[];
+  /** Sum of proof amounts */
+  amount: number;
+}
+
+/**
+ * Raised when a token can't be decoded; `code` is reported to the client
+ */
+export class CashuTokenError extends Error {
+  constructor(public readonly code: 'malformed' | 'unsupported_version', message: string) {
+    super(message);
+    this.name = 'CashuTokenError';
+  }
+}
+
+function base64UrlDecode(value: string): Buffer {
+  const normalised = value.replace(/-/g, '+').replace(/_/g, '/');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(normalised)) {
+    throw new CashuTokenError('malformed', 'Token is not valid base64');
+  }
+  return Buffer.from(normalised, 'base64');
+}
+
+/**
+ * Minimal CBOR (RFC 8949) decoder covering what V4 tokens use: integers,
+ * byte/text strings, arrays, maps, booleans, null and floats
+ * @param bytes Encoded data
+ * @returns Decoded value
+ */
+function decodeCbor(bytes: Buffer): unknown {
+  let offset = 0;
+
+  const need = (n: number) => {
+    if (offset + n > bytes.length) throw new CashuTokenError('malformed', 'Truncated CBOR data');
+  };
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    if (info === 24) { need(1); return bytes.readUInt8(offset++); }
+    if (info === 25) { need(2); const v = bytes.readUInt16BE(offset); offset += 2; return v; }
+    if (info === 26) { need(4); const v = bytes.readUInt32BE(offset); offset += 4; return v; }
+    if (info === 27) {
+      need(8);
+      const v = bytes.readBigUInt64BE(offset);
+      offset += 8;
+      if (v > BigInt(Number.MAX_SAFE_INTEGER)) throw new CashuTokenError('malformed', 'CBOR integer too large');
+      return Number(v);
+    }
+    throw new CashuTokenError('malformed', 'Indefinite-length CBOR items are not supported');
+  };
+
+  const readItem = (): unknown => {
+    need(1);
+    const initial = bytes.readUInt8(offset++);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0: return readLength(info);
+      case 1: return -1 - readLength(info);
+      case 2: {
+        const length = readLength(info);
+        need(length);
+        const value = bytes.subarray(offset, offset + length);
+        offset += length;
+        return value;
+      }
+      case 3: {
+        const length = readLength(info);
+        need(length);
+        const value = bytes.toString('utf8', offset, offset + length);
+        offset += length;
+        return value;
+      }
+      case 4: {
+        const length = readLength(info);
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) items.push(readItem());
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map[String(key)] = readItem();
+        }
+        return map;
+      }
+      case 6:
+        // Tagged item: ignore the tag, keep the value
+        readLength(info);
+        return readItem();
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22 || info === 23) return null;
+        if (info === 25) { need(2); const v = bytes.readUInt16BE(offset); offset += 2; return halfToFloat(v); }
+        if (info === 26) { need(4); const v = bytes.readFloatBE(offset); offset += 4; return v; }
+        if (info === 27) { need(8); const v = bytes.readDoubleBE(offset); offset += 8; return v; }
+        throw new CashuTokenError('malformed', `Unsupported CBOR simple value ${info}`);
+      default:
+        throw new CashuTokenError('malformed', `Unsupported CBOR major type ${major}`);
+    }
+  };
+
+  const value = readItem();
+  if (offset !== bytes.length) {
+    throw new CashuTokenError('malformed', 'Trailing bytes after CBOR data');
+  }
+  return value;
+}
+
+function halfToFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function toProof(raw: any, keysetId: string): CashuProof {
+  const amount = raw?.amount ?? raw?.a;
+  const secret = raw?.secret ?? raw?.s;
+  if (!Number.isSafeInteger(amount) || amount <= 0) {
+    throw new CashuTokenError('malformed', 'Proof has an invalid amount');
+  }
+  if (typeof secret !== 'string' || secret.length === 0) {
+    throw new CashuTokenError('malformed', 'Proof is missing its secret');
+  }
+  return { amount, secret, keysetId };
+}
+
+function decodeV3(payload: string): DecodedCashuToken {
+  let json: any;
+  try {
+    json = JSON.parse(base64UrlDecode(payload).toString('utf8'));
+  } catch (error) {
+    if (error instanceof CashuTokenError) throw error;
+    throw new CashuTokenError('malformed', 'cashuA token does not contain valid JSON');
+  }
+
+  const entries = Array.isArray(json?.token) ? json.token : [];
+  if (entries.length === 0) {
+    throw new CashuTokenError('malformed', 'cashuA token has no mint entries');
+  }
+
+  const mints: string[] = [];
+  const proofs: CashuProof[] = [];
+  for (const entry of entries) {
+    if (typeof entry?.mint !== 'string' || !Array.isArray(entry?.proofs)) {
+      throw new CashuTokenError('malformed', 'cashuA token entry is missing mint or proofs');
+    }
+    if (!mints.includes(entry.mint)) mints.push(entry.mint);
+    entry.proofs.forEach((proof: any) => proofs.push(toProof(proof, String(proof?.id || ''))));
+  }
+
+  return finish({ version: 3, mints, unit: typeof json.unit === 'string' ? json.unit : 'sat', memo: json.memo, proofs });
+}
+
+function decodeV4(payload: string): DecodedCashuToken {
+  const data: any = decodeCbor(base64UrlDecode(payload));
+  if (!data || typeof data !== 'object' || typeof data.m !== 'string' || !Array.isArray(data.t)) {
+    throw new CashuTokenError('malformed', 'cashuB token is missing mint or proofs');
+  }
+
+  const proofs: CashuProof[] = [];
+  for (const group of data.t) {
+    if (!Array.isArray(group?.p)) {
+      throw new CashuTokenError('malformed', 'cashuB token has a keyset without proofs');
+    }
+    const keysetId = Buffer.isBuffer(group.i) ? group.i.toString('hex') : String(group.i || '');
+    group.p.forEach((proof: any) => proofs.push(toProof(proof, keysetId)));
+  }
+
+  return finish({ version: 4, mints: [data.m], unit: typeof data.u === 'string' ? data.u : 'sat', memo: data.d, proofs });
+}
+
+function finish(token: Omit<DecodedCashuToken, 'mint' | 'amount'>): DecodedCashuToken {
+  if (token.proofs.length === 0) {
+    throw new CashuTokenError('malformed', 'Token contains no proofs');
+  }
+  if (new Set(token.proofs.map(proof => proof.secret)).size !== token.proofs.length) {
+    throw new CashuTokenError('malformed', 'Token contains the same proof more than once');
+  }
+  return {
+    ...token,
+    mint: token.mints[0],
+    memo: typeof token.memo === 'string' ? token.memo : undefined,
+    amount: token.proofs.reduce((sum, proof) => sum + proof.amount, 0)
+  };
+}
+
+/**
+ * Decodes a cashuA (V3) or cashuB (V4) token without contacting the mint
+ * @param encoded Token string, optionally prefixed with "cashu:"
+ * @returns Decoded token
+ * @throws CashuTokenError for malformed tokens and unsupported versions
+ */
+export function decodeCashuToken(encoded: string): DecodedCashuToken {
+  const token = encoded.trim().replace(/^cashu:/i, '');
+  if (token.startsWith('cashuA')) return decodeV3(token.slice(6));
+  if (token.startsWith('cashuB')) return decodeV4(token.slice(6));
+  if (token.startsWith('cashu')) {
+    throw new CashuTokenError('unsupported_version', `Unsupported Cashu token version "${token.slice(0, 6)}" (expected cashuA or cashuB)`);
+  }
+  throw new CashuTokenError('malformed', 'Not a Cashu token (expected a cashuA... or cashuB... string)');
+}
+
+/**
+ * Stable identifier for a proof (its secret is unique per proof); hashed so
+ * the store never holds spendable data
+ * @param proof The proof
+ * @returns Hex sha256 of the secret
+ */
+export function proofFingerprint(proof: CashuProof): string {
+  return createHash('sha256').update(proof.secret).digest('hex');
+}
+
+/**
+ * Persistent record of proofs the server has already processed
+ */
+export interface SeenProofStore {
+  /** Returns the fingerprints of proofs that were already processed or are in flight */
+  seen(proofs: CashuProof[]): string[];
+  /** Marks proofs as in flight; returns false (and reserves nothing) if any is already seen */
+  reserve(proofs: CashuProof[], reference: string): Promise<boolean>;
+  /** Marks reserved proofs as redeemed */
+  commit(proofs: CashuProof[]): Promise<void>;
+  /** Releases reserved proofs after a redemption that definitely failed */
+  release(proofs: CashuProof[]): Promise<void>;
+}
+
+interface SeenProofDocument {
+  proofs: Record<string, { status: 'pending' | 'redeemed'; reference: string; at: number }>;
+}
+
+/**
+ * Opens the seen-proof store (SEEN_PROOFS_FILE, default data/seen-proofs.json)
+ * @param filePath Override for the backing file
+ * @returns SeenProofStore
+ */
+export function createSeenProofStore(filePath?: string): SeenProofStore {
+  const store: JsonStore<SeenProofDocument> = createJsonStore<SeenProofDocument>(
+    filePath || process.env.SEEN_PROOFS_FILE || dataFilePath('seen-proofs.json'),
+    () => ({ proofs: {} })
+  );
+
+  const seen = (proofs: CashuProof[]) =>
+    proofs.map(proofFingerprint).filter(fingerprint => Boolean(store.read().proofs[fingerprint]));
+
+  return {
+    seen,
+
+    async reserve(proofs, reference) {
+      let reserved = false;
+      await store.update(doc => {
+        const fingerprints = proofs.map(proofFingerprint);
+        if (fingerprints.some(fingerprint => doc.proofs[fingerprint])) return;
+        fingerprints.forEach(fingerprint => {
+          doc.proofs[fingerprint] = { status: 'pending', reference, at: Date.now() };
+        });
+        reserved = true;
+      });
+      return reserved;
+    },
+
+    async commit(proofs) {
+      await store.update(doc => {
+        proofs.map(proofFingerprint).forEach(fingerprint => {
+          if (doc.proofs[fingerprint]) doc.proofs[fingerprint].status = 'redeemed';
+        });
+      });
+    },
+
+    async release(proofs) {
+      await store.update(doc => {
+        proofs.map(proofFingerprint).forEach(fingerprint => {
+          if (doc.proofs[fingerprint]?.status === 'pending') delete doc.proofs[fingerprint];
+        });
+      });
+    }
+  };
+}
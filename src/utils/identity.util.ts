@@ -0,0 +1,179 @@
+/**
+ * Utility for resolving Nostr identities to hex pubkeys
+ *
+ * Tools take the subject's pubkey as an argument and put it straight into the
+ * `p` tag, so anything other than 64-char hex produced a broken event. This
+ * resolver accepts hex, `npub`, `nprofile` (keeping its relay hints) and NIP-05
+ * `name@domain` identifiers, looked up at
+ * `https://<domain>/.well-known/nostr.json?name=<name>`. Lookups are cached for
+ * NIP05_CACHE_TTL_MS. Domains are chosen by the client, so lookups go through
+ * the media pipeline's address checks: hosts that are or resolve to private
+ * addresses are refused and redirects are not followed. Set NIP05_BASE_URL to
+ * query one HTTP server instead (e.g. a local stand-in in tests); the domain is
+ * then passed as the `domain` query parameter and private addresses are allowed.
+ */
+
+import axios from 'axios';
+import { nip19 } from 'nostr-tools';
+import { assertFetchable, publicAddressLookup } from './media.util.js';
+
+/**
+ * A resolved identity
+ */
+export interface ResolvedIdentity {
+  /** Lowercase hex pubkey */
+  pubkey: string;
+  /** Relay hints from the nprofile or the NIP-05 document */
+  relays: string[];
+  /** Which form the input was in */
+  source: 'hex' | 'npub' | 'nprofile' | 'nip05';
+  /** The NIP-05 identifier, when resolved from one */
+  nip05?: string;
+}
+
+/**
+ * Raised when an identifier can't be resolved; `code` is reported to the client
+ */
+export class IdentityError extends Error {
+  constructor(public readonly code: 'invalid' | 'not_found' | 'lookup_failed', message: string) {
+    super(message);
+    this.name = 'IdentityError';
+  }
+}
+
+const HEX_PUBKEY = /^[0-9a-f]{64}$/;
+// NIP-05 local parts are limited to a-z0-9-_. (matched case-insensitively)
+const NIP05_IDENTIFIER = /^([a-z0-9._-]+)@([a-z0-9.-]+(?::\d+)?)$/i;
+
+const cache = new Map<string, { identity: ResolvedIdentity; expires: number }>();
+
+/**
+ * Returns the URL of the NIP-05 document for a name
+ * @param name Local part (lowercase)
+ * @param domain Domain, optionally with a port
+ * @returns HTTP(S) URL
+ */
+export function nip05Url(name: string, domain: string): string {
+  const base = process.env.NIP05_BASE_URL;
+  if (base) {
+    return `${base.replace(/\/$/, '')}/.well-known/nostr.json?name=${encodeURIComponent(name)}&domain=${encodeURIComponent(domain)}`;
+  }
+  return `https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`;
+}
+
+function relayList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((url): url is string => typeof url === 'string' && /^wss?:\/\//i.test(url))
+    : [];
+}
+
+async function resolveNip05(name: string, domain: string): Promise<ResolvedIdentity> {
+  const identifier = `${name}@${domain}`;
+  const cached = cache.get(identifier);
+  if (cached && cached.expires > Date.now()) {
+    return cached.identity;
+  }
+
+  const ttlMs = parseInt(process.env.NIP05_CACHE_TTL_MS || '600000', 10);
+  const timeoutMs = parseInt(process.env.NIP05_TIMEOUT_MS || '5000', 10);
+
+  // Only an operator-configured NIP05_BASE_URL may point at a private address
+  const permitPrivate = Boolean(process.env.NIP05_BASE_URL);
+
+  let document: any;
+  try {
+    const url = nip05Url(name, domain);
+    assertFetchable(new URL(url), permitPrivate);
+    const response = await axios.get(url, {
+      headers: { Accept: 'application/json' },
+      timeout: timeoutMs,
+      // NIP-05: fetchers must ignore redirects
+      maxRedirects: 0,
+      lookup: publicAddressLookup(permitPrivate),
+      responseType: 'text',
+      transformResponse: data => data
+    });
+    document = JSON.parse(String(response.data));
+  } catch (error) {
+    throw new IdentityError('lookup_failed', `Could not look up NIP-05 identifier ${identifier}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const pubkey = typeof document?.names?.[name] === 'string' ? document.names[name].toLowerCase() : undefined;
+  if (!pubkey) {
+    throw new IdentityError('not_found', `NIP-05 identifier ${identifier} is not listed by ${domain}`);
+  }
+  if (!HEX_PUBKEY.test(pubkey)) {
+    throw new IdentityError('lookup_failed', `${domain} returned an invalid pubkey for ${identifier}`);
+  }
+
+  const identity: ResolvedIdentity = {
+    pubkey,
+    relays: relayList(document?.relays?.[pubkey]),
+    source: 'nip05',
+    nip05: identifier
+  };
+  cache.set(identifier, { identity, expires: Date.now() + ttlMs });
+  return identity;
+}
+
+/**
+ * Decodes an identifier without any network lookup
+ * @param value Identifier as given by the client
+ * @returns The identity (hex, npub, nprofile) or the NIP-05 name and domain to look up
+ * @throws IdentityError if the value is not a valid identifier
+ */
+export function parseIdentity(value: string): ResolvedIdentity | { source: 'nip05'; name: string; domain: string } {
+  const trimmed = value.trim().replace(/^nostr:/i, '');
+
+  if (HEX_PUBKEY.test(trimmed.toLowerCase())) {
+    return { pubkey: trimmed.toLowerCase(), relays: [], source: 'hex' };
+  }
+
+  if (/^(npub|nprofile)1/i.test(trimmed)) {
+    let decoded: ReturnType<typeof nip19.decode>;
+    try {
+      decoded = nip19.decode(trimmed.toLowerCase());
+    } catch (error) {
+      throw new IdentityError('invalid', `Invalid ${/^npub/i.test(trimmed) ? 'npub' : 'nprofile'}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (decoded.type === 'npub') {
+      return { pubkey: decoded.data, relays: [], source: 'npub' };
+    }
+    if (decoded.type === 'nprofile') {
+      return { pubkey: decoded.data.pubkey, relays: relayList(decoded.data.relays), source: 'nprofile' };
+    }
+  }
+
+  // "domain.com" alone is shorthand for "_@domain.com"
+  const identifier = trimmed.includes('@') || !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(trimmed) ? trimmed : `_@${trimmed}`;
+  const match = identifier.match(NIP05_IDENTIFIER);
+  if (match) {
+    return { source: 'nip05', name: match[1].toLowerCase(), domain: match[2].toLowerCase() };
+  }
+
+  throw new IdentityError(
+    'invalid',
+    `Invalid pubkey "${value}": expected 64 hex characters, an npub, an nprofile or a NIP-05 identifier (name@domain)`
+  );
+}
+
+/**
+ * Resolves a hex pubkey, npub, nprofile or NIP-05 identifier
+ * @param value Identifier as given by the client
+ * @returns Promise with the resolved identity
+ * @throws IdentityError if the value is not a valid identifier or can't be resolved
+ */
+export async function resolveIdentity(value: string): Promise<ResolvedIdentity> {
+  const parsed = parseIdentity(value);
+  if ('pubkey' in parsed) {
+    return parsed;
+  }
+  return resolveNip05(parsed.name, parsed.domain);
+}
+
+/**
+ * Clears cached NIP-05 lookups
+ */
+export function clearIdentityCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,354 @@
+/**
+ * Utility for ingesting a subject's Nostr activity from relays
+ *
+ * Instead of asking clients to scrape relays and paste the result into a tool,
+ * the server queries its own relays for the subject's kind 1 notes (plus
+ * reposts and reactions if wanted) within a time window, dedupes them and
+ * renders a chronological digest suitable for an LLM prompt.
+ *
+ * Clients that already hold the events can pass them instead (ingestEventDump):
+ * signatures are verified, reply parents missing from the dump are fetched,
+ * and images are collected from `imeta` tags and note content.
+ */
+
+import { SimpleRelayPool } from '@contextvm/sdk';
+import { nip19, verifyEvent, type Event as NostrEvent, type Filter } from 'nostr-tools';
+import { getPoolQueries, getPoolRelayUrls } from './publish.util.js';
+import { withRelayHints } from './relayHints.util.js';
+import { replyParentOf } from './thread.util.js';
+import { extractImageUrls, mediaAttachments } from './media.util.js';
+
+/**
+ * Options for a relay ingestion query
+ */
+export interface IngestOptions {
+  /** Hex pubkey whose activity is fetched */
+  pubkey: string;
+  /** Window start (unix seconds, inclusive) */
+  since: number;
+  /** Window end (unix seconds, inclusive) */
+  until: number;
+  includeReposts?: boolean;
+  includeReactions?: boolean;
+  /** Max events per query (default INGEST_MAX_EVENTS or 500) */
+  limit?: number;
+  /** Max time to wait for relays (default INGEST_MAX_WAIT_MS or 5000) */
+  maxWaitMs?: number;
+  /** Extra relays to query besides the pool's (e.g. the subject's relay hints) */
+  relays?: string[];
+}
+
+/**
+ * Result of an ingestion query
+ */
+export interface IngestResult {
+  pubkey: string;
+  since: number;
+  until: number;
+  notes: NostrEvent[];
+  reposts: NostrEvent[];
+  reactions: NostrEvent[];
+  /** Events referenced by reactions, reposts and replies, keyed by id (for context) */
+  referenced: Map<string, NostrEvent>;
+  /** Chronological, prompt-ready digest */
+  digest: string;
+}
+
+/**
+ * Parses a time argument given as unix seconds or an ISO-8601 date/time
+ * @param value Unix seconds, or a string such as "2024-09-18" or "2024-09-18T12:00:00Z"
+ * @returns Unix seconds
+ */
+export function parseTimestamp(value: number | string): number {
+  if (typeof value === 'number') {
+    return Math.floor(value);
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+  const ms = Date.parse(trimmed);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid timestamp "${value}": expected unix seconds or an ISO-8601 date`);
+  }
+  return Math.floor(ms / 1000);
+}
+
+/**
+ * Queries a relay pool with one filter, plus any usable client relay hints
+ */
+async function query(relayPool: SimpleRelayPool, filter: Filter, maxWaitMs: number, hints: string[] = []): Promise<NostrEvent[]> {
+  const pool = getPoolQueries(relayPool);
+  if (!pool) {
+    throw new Error('Relay pool is not available for queries');
+  }
+  return withRelayHints(relayPool, hints, async extraRelays => {
+    const relayUrls = [...getPoolRelayUrls(relayPool), ...extraRelays];
+    if (relayUrls.length === 0) {
+      throw new Error('Relay pool is not available for queries');
+    }
+    return pool.querySync(relayUrls, filter, { maxWait: maxWaitMs }) as Promise<NostrEvent[]>;
+  });
+}
+
+/**
+ * Dedupes events by id and sorts them chronologically
+ * @param events Events from one or more relays
+ * @returns Unique events, oldest first
+ */
+export function dedupeEvents(events: NostrEvent[]): NostrEvent[] {
+  const byId = new Map<string, NostrEvent>();
+  for (const event of events) {
+    if (!byId.has(event.id)) {
+      byId.set(event.id, event);
+    }
+  }
+  return [...byId.values()].sort((a, b) => a.created_at - b.created_at || a.id.localeCompare(b.id));
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace('T', ' ').substring(0, 16) + ' UTC';
+}
+
+function oneLine(text: string, max = 280): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.substring(0, max)}...` : flat;
+}
+
+function lastTagValue(event: NostrEvent, name: string): string | undefined {
+  const tags = event.tags.filter(tag => tag[0] === name && tag[1]);
+  return tags.length > 0 ? tags[tags.length - 1][1] : undefined;
+}
+
+/**
+ * Returns the reposted event embedded in a kind 6 repost, if any
+ */
+function embeddedRepost(event: NostrEvent): NostrEvent | undefined {
+  if (!event.content) return undefined;
+  try {
+    const inner = JSON.parse(event.content);
+    return inner && typeof inner.content === 'string' ? inner as NostrEvent : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Renders ingested events into a chronological digest
+ * @param result Ingested events (digest field is ignored)
+ * @returns Prompt-ready digest
+ */
+export function renderDigest(result: Omit<IngestResult, 'digest'>): string {
+  const npub = nip19.npubEncode(result.pubkey);
+  const entries: Array<{ at: number; line: string }> = [];
+
+  result.notes.forEach(note => {
+    const parentId = replyParentOf(note)?.id;
+    const parent = parentId ? result.referenced.get(parentId) : undefined;
+    const action = parent ? `replied to "${oneLine(parent.content, 140)}"` : parentId ? 'replied' : 'posted';
+    entries.push({ at: note.created_at, line: `[${formatTime(note.created_at)}] ${action}: ${oneLine(note.content, 1000)}` });
+  });
+
+  result.reposts.forEach(repost => {
+    const targetId = lastTagValue(repost, 'e');
+    const target = embeddedRepost(repost) || (targetId ? result.referenced.get(targetId) : undefined);
+    const what = target ? `"${oneLine(target.content)}"` : `note ${targetId || 'unknown'}`;
+    entries.push({ at: repost.created_at, line: `[${formatTime(repost.created_at)}] reposted: ${what}` });
+  });
+
+  result.reactions.forEach(reaction => {
+    const targetId = lastTagValue(reaction, 'e');
+    const target = targetId ? result.referenced.get(targetId) : undefined;
+    const emoji = reaction.content && reaction.content !== '+' ? reaction.content : '👍';
+    const what = target ? `"${oneLine(target.content, 140)}"` : `note ${targetId || 'unknown'}`;
+    entries.push({ at: reaction.created_at, line: `[${formatTime(reaction.created_at)}] reacted ${emoji} to: ${what}` });
+  });
+
+  entries.sort((a, b) => a.at - b.at);
+
+  const counts = [`${result.notes.length} notes`];
+  if (result.reposts.length > 0) counts.push(`${result.reposts.length} reposts`);
+  if (result.reactions.length > 0) counts.push(`${result.reactions.length} reactions`);
+
+  const header = `Nostr activity for ${npub} from ${formatTime(result.since)} to ${formatTime(result.until)} (${counts.join(', ')}):`;
+  if (entries.length === 0) {
+    return `${header}\n(no activity found on the queried relays)`;
+  }
+  return [header, ...entries.map(entry => entry.line)].join('\n');
+}
+
+/**
+ * Fetches a subject's activity from the relay pool and renders a digest
+ * @param relayPool Relay pool to query
+ * @param options Subject, time window and what to include
+ * @returns Promise with the ingested events and digest
+ */
+export async function ingestSubjectActivity(
+  relayPool: SimpleRelayPool,
+  options: IngestOptions
+): Promise<IngestResult> {
+  const { pubkey, since, until } = options;
+  if (since > until) {
+    throw new Error(`Invalid window: since (${since}) is after until (${until})`);
+  }
+
+  const limit = options.limit ?? parseInt(process.env.INGEST_MAX_EVENTS || '500', 10);
+  const maxWaitMs = options.maxWaitMs ?? parseInt(process.env.INGEST_MAX_WAIT_MS || '5000', 10);
+
+  const kinds = [1];
+  if (options.includeReposts) kinds.push(6);
+  if (options.includeReactions) kinds.push(7);
+
+  console.log('📥 Ingesting subject activity from relays...');
+  console.log(`   Subject pubkey: ${pubkey}`);
+  console.log(`   Window: ${formatTime(since)} → ${formatTime(until)}`);
+  console.log(`   Kinds: ${kinds.join(', ')} (limit ${limit})`);
+  const extraRelays = options.relays || [];
+  if (extraRelays.length > 0) {
+    console.log(`   Relay hints: ${extraRelays.join(', ')}`);
+  }
+
+  const events = dedupeEvents(
+    (await query(relayPool, { authors: [pubkey], kinds, since, until, limit }, maxWaitMs, extraRelays))
+      // Relays occasionally ignore filters; enforce them locally
+      .filter(event => event.pubkey === pubkey && kinds.includes(event.kind) && event.created_at >= since && event.created_at <= until)
+  );
+
+  const notes = events.filter(event => event.kind === 1);
+  const reposts = events.filter(event => event.kind === 6);
+  const reactions = events.filter(event => event.kind === 7);
+
+  // Fetch the notes that were reacted to / reposted (without embedded content) for context
+  const referencedIds = [
+    ...reactions.map(event => lastTagValue(event, 'e')),
+    ...reposts.filter(event => !embeddedRepost(event)).map(event => lastTagValue(event, 'e'))
+  ].filter((id): id is string => Boolean(id) && /^[0-9a-f]{64}$/.test(id!));
+
+  const referenced = new Map<string, NostrEvent>();
+  const uniqueIds = [...new Set(referencedIds)].slice(0, limit);
+  if (uniqueIds.length > 0) {
+    try {
+      const targets = await query(relayPool, { ids: uniqueIds }, maxWaitMs, extraRelays);
+      targets.forEach(target => referenced.set(target.id, target));
+    } catch (error) {
+      console.warn('   ⚠️  Could not fetch referenced notes:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`✅ Ingested ${notes.length} notes, ${reposts.length} reposts, ${reactions.length} reactions`);
+
+  const result = { pubkey, since, until, notes, reposts, reactions, referenced };
+  return { ...result, digest: renderDigest(result) };
+}
+
+/**
+ * Options for ingesting events supplied by the client
+ */
+export interface EventDumpOptions {
+  /** Hex pubkey of the subject; their events are the activity, others only provide context */
+  pubkey: string;
+  /** Max subject events used (default INGEST_MAX_EVENTS or 500) */
+  limit?: number;
+  /** Max time to wait for relays when fetching reply parents (default INGEST_MAX_WAIT_MS or 5000) */
+  maxWaitMs?: number;
+  /** Max images passed on (default 10) */
+  maxImages?: number;
+}
+
+/**
+ * Result of ingesting supplied events
+ */
+export interface EventDumpResult extends IngestResult {
+  /** Image URLs from the subject's notes (imeta tags first, then content) */
+  images: string[];
+  /** UTC day (YYYY-MM-DD) most of the subject's events fall on */
+  date: string;
+  /** Events dropped because their id or signature did not verify */
+  rejected: number;
+}
+
+/**
+ * Image URLs attached to a note with NIP-92 `imeta` tags
+ */
+function imetaImageUrls(event: NostrEvent): string[] {
+  return mediaAttachments(event)
+    .filter(attachment => !attachment.mime || attachment.mime.startsWith('image/'))
+    .map(attachment => attachment.url);
+}
+
+/**
+ * Verifies events supplied by a client and renders the subject's activity as a digest
+ * @param relayPool Relay pool, used to fetch reply parents missing from the dump
+ * @param events Events as supplied (any order, may include other authors' notes)
+ * @param options Subject and limits
+ * @returns Promise with the verified events, digest, images and day
+ * @throws Error if no verified event by the subject remains
+ */
+export async function ingestEventDump(
+  relayPool: SimpleRelayPool,
+  events: NostrEvent[],
+  options: EventDumpOptions
+): Promise<EventDumpResult> {
+  const { pubkey } = options;
+  const limit = options.limit ?? parseInt(process.env.INGEST_MAX_EVENTS || '500', 10);
+  const maxWaitMs = options.maxWaitMs ?? parseInt(process.env.INGEST_MAX_WAIT_MS || '5000', 10);
+  const maxImages = options.maxImages ?? 10;
+
+  console.log(`📥 Ingesting ${events.length} supplied events...`);
+  console.log(`   Subject pubkey: ${pubkey}`);
+
+  // Forged or edited events would put words in someone's mouth; drop them
+  const valid = events.filter(event => verifyEvent(event));
+  const verified = dedupeEvents(valid);
+  const rejected = events.length - valid.length;
+  if (rejected > 0) {
+    console.warn(`   ⚠️  Dropped ${rejected} event(s) with an invalid id or signature`);
+  }
+
+  const own = verified
+    .filter(event => event.pubkey === pubkey && [1, 6, 7].includes(event.kind))
+    .slice(-limit);
+  if (own.length === 0) {
+    throw new Error(`None of the supplied events is a verified note, repost or reaction by ${pubkey}`);
+  }
+
+  const notes = own.filter(event => event.kind === 1);
+  const reposts = own.filter(event => event.kind === 6);
+  const reactions = own.filter(event => event.kind === 7);
+
+  // Everything else in the dump is context (reply parents, reacted-to notes)
+  const referenced = new Map<string, NostrEvent>();
+  verified.forEach(event => referenced.set(event.id, event));
+
+  const parents = notes.map(note => replyParentOf(note)).filter((parent): parent is { id: string; relay?: string } => Boolean(parent));
+  const missing = [
+    ...parents.map(parent => parent.id),
+    ...reactions.map(event => lastTagValue(event, 'e')),
+    ...reposts.filter(event => !embeddedRepost(event)).map(event => lastTagValue(event, 'e'))
+  ].filter((id): id is string => Boolean(id) && /^[0-9a-f]{64}$/.test(id!) && !referenced.has(id!));
+  const uniqueMissing = [...new Set(missing)].slice(0, limit);
+  if (uniqueMissing.length > 0) {
+    try {
+      const hints = parents.map(parent => parent.relay).filter((relay): relay is string => Boolean(relay));
+      const fetched = await query(relayPool, { ids: uniqueMissing }, maxWaitMs, hints);
+      fetched.filter(event => verifyEvent(event)).forEach(event => referenced.set(event.id, event));
+    } catch (error) {
+      console.warn('   ⚠️  Could not fetch referenced notes:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const images = [...new Set(notes.flatMap(note => [...imetaImageUrls(note), ...extractImageUrls(note.content)]))].slice(0, maxImages);
+
+  // The day most of the activity falls on (UTC), for the note's date tag
+  const perDay = new Map<string, number>();
+  own.forEach(event => {
+    const day = new Date(event.created_at * 1000).toISOString().substring(0, 10);
+    perDay.set(day, (perDay.get(day) || 0) + 1);
+  });
+  const date = [...perDay.entries()].sort((a, b) => b[1] - a[1] || b[0].localeCompare(a[0]))[0][0];
+
+  console.log(`✅ Ingested ${notes.length} notes, ${reposts.length} reposts, ${reactions.length} reactions, ${images.length} images (day ${date})`);
+
+  const result = { pubkey, since: own[0].created_at, until: own[own.length - 1].created_at, notes, reposts, reactions, referenced };
+  return { ...result, digest: renderDigest(result), images, date, rejected };
+}
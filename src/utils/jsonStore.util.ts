@@ -0,0 +1,81 @@
+/**
+ * Small persisted JSON document store
+ *
+ * Keeps a document in memory and writes it back to disk after every update.
+ * Writes go to a temporary file that is renamed over the original, and are
+ * serialised so concurrent updates never interleave. Used by the server's
+ * persistent state (job queue, ledgers, registries) in place of a database.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface JsonStore<T> {
+  /** Path of the backing file */
+  readonly filePath: string;
+  /** Current in-memory document */
+  read(): T;
+  /** Applies a mutation and persists the document; resolves once written */
+  update(mutator: (data: T) => T | void): Promise<T>;
+}
+
+/**
+ * Resolves a file inside the server's data directory (DATA_DIR, default ./data)
+ * @param fileName File name, e.g. "jobs.json"
+ * @returns Absolute path
+ */
+export function dataFilePath(fileName: string): string {
+  return path.resolve(process.env.DATA_DIR || 'data', fileName);
+}
+
+/**
+ * Opens (or creates) a JSON store
+ * @param filePath Path of the JSON file
+ * @param initial Factory for the document when the file does not exist yet
+ * @returns JsonStore
+ */
+export function createJsonStore<T>(filePath: string, initial: () => T): JsonStore<T> {
+  let data: T;
+
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+      // Keep the unreadable file for inspection instead of silently overwriting it
+      const backup = `${filePath}.corrupt-${Date.now()}`;
+      console.warn(`⚠️  Could not parse ${filePath}; moving it to ${backup} and starting fresh`);
+      try { fs.renameSync(filePath, backup); } catch { /* ignore */ }
+    }
+    data = initial();
+  }
+
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const persist = () => {
+    const snapshot = JSON.stringify(data, null, 2);
+    writeChain = writeChain.then(async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmp, snapshot, 'utf8');
+      await fs.promises.rename(tmp, filePath);
+    }).catch(error => {
+      console.error(`❌ Failed to persist ${filePath}:`, error);
+    });
+    return writeChain;
+  };
+
+  return {
+    filePath,
+
+    read: () => data,
+
+    async update(mutator) {
+      const next = mutator(data);
+      if (next !== undefined) {
+        data = next;
+      }
+      await persist();
+      return data;
+    }
+  };
+}
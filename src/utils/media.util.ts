@@ -0,0 +1,378 @@
+/**
+ * Shared media pipeline for images passed to the LLM
+ *
+ * Every tool that sends images to a model goes through validateImageUrls:
+ * - only http(s) URLs whose host resolves to public addresses are fetched
+ *   (loopback, private, link-local, CGNAT and multicast ranges are refused, on
+ *   every redirect hop and again when the connection is made)
+ * - downloads are capped in size (MEDIA_MAX_BYTES) and time (MEDIA_TIMEOUT_MS)
+ * - the type is sniffed from the file's magic bytes, not the Content-Type
+ *   header; only JPEG, PNG, GIF and WebP are passed on
+ * - URLs are checked concurrently (MEDIA_CONCURRENCY) and results cached by
+ *   URL hash for MEDIA_CACHE_TTL_MS
+ * - images can be inlined as base64 data URLs for providers that can't fetch
+ *   remote URLs (MEDIA_INLINE[_<TOOL>]; on by default for openai-compatible)
+ *
+ * MEDIA_ALLOW_PRIVATE=true turns the address check off, e.g. to test against a
+ * local image server. fetchMedia and sniffMediaMime are shared with the
+ * montage staging (utils/staging.util.ts), which also accepts video and audio.
+ */
+
+import axios, { type AxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import type { Event as NostrEvent } from 'nostr-tools';
+import { toolEnvSuffix } from '../llm/index.js';
+import type { LLMSelection } from '../llm/index.js';
+
+/**
+ * Outcome of checking one image URL
+ */
+export interface ImageCheck {
+  url: string;
+  valid: boolean;
+  /** MIME type sniffed from the content */
+  mime?: string;
+  bytes?: number;
+  error?: string;
+  /** base64 data URL, when inlining was requested */
+  dataUrl?: string;
+}
+
+/**
+ * A file attached to a note with a NIP-92 `imeta` tag (or a NIP-94 file event)
+ */
+export interface MediaAttachment {
+  url: string;
+  /** MIME type the author declared */
+  mime?: string;
+  /** Hex sha256 of the file, if declared */
+  sha256?: string;
+}
+
+export interface MediaFetchOptions {
+  /** Largest download accepted (default MEDIA_MAX_BYTES) */
+  maxBytes?: number;
+  /** Time allowed for the whole download, redirects included (default MEDIA_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Skip the private-address check (only for URLs from configured services) */
+  allowPrivate?: boolean;
+}
+
+export interface ImageValidationOptions {
+  /** Return data URLs instead of remote URLs */
+  inline?: boolean;
+}
+
+const SUPPORTED_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_REDIRECTS = 3;
+const MAX_CACHE_ENTRIES = 200;
+
+const cache = new Map<string, { check: ImageCheck; expires: number }>();
+
+const blocked = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([net, prefix]) => blocked.addSubnet(net as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96]
+].forEach(([net, prefix]) => blocked.addSubnet(net as string, prefix as number, 'ipv6'));
+
+/**
+ * Finds image URLs (by extension or known image hosts) in text
+ * @param text Free text
+ * @returns Image URLs in order of appearance
+ */
+export function extractImageUrls(text: string): string[] {
+  // Match URLs that end with common image extensions or are from common image hosts
+  const imageUrlRegex = /https?:\/\/[^\s]+\.(?:jpg|jpeg|png|gif|webp|bmp)\b|https?:\/\/(?:imgur\.com|i\.imgur\.com|cdn\.discordapp\.com|media\.discordapp\.net)[^\s]+/gi;
+  return text.match(imageUrlRegex) || [];
+}
+
+/**
+ * Removes image URLs from text to avoid duplication
+ * @param text The input text
+ * @param imageUrls Image URLs to remove
+ * @returns Text without the URLs, line breaks kept
+ */
+export function removeImageUrlsFromText(text: string, imageUrls: string[]): string {
+  let cleanText = text;
+  imageUrls.forEach(url => {
+    cleanText = cleanText.replace(url, '').trim();
+  });
+  // Keep line breaks so timelines stay one entry per line
+  return cleanText.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Files attached to an event: NIP-92 `imeta` tags, or the `url`/`m`/`x` tags
+ * of a NIP-94 file metadata event (kind 1063)
+ * @param event Signed event
+ * @returns Attachments with an http(s) URL
+ */
+export function mediaAttachments(event: Pick<NostrEvent, 'kind' | 'tags'>): MediaAttachment[] {
+  const fields = (entries: string[][]) => {
+    const value = (name: string) => entries.find(entry => entry[0] === name)?.[1]?.trim();
+    const sha256 = value('x')?.toLowerCase();
+    return { url: value('url') || '', mime: value('m'), sha256: sha256 && /^[0-9a-f]{64}$/.test(sha256) ? sha256 : undefined };
+  };
+  const attachments = event.kind === 1063
+    ? [fields(event.tags)]
+    : event.tags
+      .filter(tag => tag[0] === 'imeta')
+      .map(tag => fields(tag.slice(1).map(entry => {
+        const space = entry.indexOf(' ');
+        return space > 0 ? [entry.substring(0, space), entry.substring(space + 1)] : [entry];
+      })));
+  return attachments
+    .filter(attachment => /^https?:\/\//i.test(attachment.url))
+    .map(({ url, mime, sha256 }) => ({ url, ...(mime ? { mime } : {}), ...(sha256 ? { sha256 } : {}) }));
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not public
+ * @param address IPv4 or IPv6 address
+ * @returns true if requests to it must be refused
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Identifies an image, video or audio file from its first bytes
+ * @param data File content (the first 16 bytes are enough)
+ * @returns MIME type, or undefined if the content isn't a known media format
+ */
+export function sniffMediaMime(data: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => data.subarray(start, end).toString('latin1');
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 2) === 'BM' && data.length >= 14) return 'image/bmp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 3) === 'ID3' || (data.length >= 2 && data[0] === 0xff && (data[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3) return 'video/webm';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (brand === 'M4A ') return 'audio/mp4';
+    return 'video/mp4';
+  }
+  return undefined;
+}
+
+/**
+ * Frame size of an MP4/QuickTime video, from the first track header (`tkhd`)
+ * with a non-zero size
+ * @param data File content
+ * @returns Width and height in pixels, or undefined if none is found
+ */
+export function videoDimensions(data: Buffer): { width: number; height: number } | undefined {
+  for (let offset = data.indexOf('tkhd'); offset >= 4; offset = data.indexOf('tkhd', offset + 4)) {
+    // version/flags, times and duration (64-bit in version 1), reserved, layer,
+    // group, volume and the matrix come before the 16.16 fixed-point size
+    const sizeOffset = offset + 8 + (data[offset + 4] === 1 ? 32 : 20) + 16 + 36;
+    if (sizeOffset + 8 > data.length) break;
+    const width = data.readUInt32BE(sizeOffset) >>> 16;
+    const height = data.readUInt32BE(sizeOffset + 4) >>> 16;
+    if (width > 0 && height > 0) return { width, height };
+  }
+  return undefined;
+}
+
+/**
+ * Whether to inline images for a tool's LLM call
+ * @param llm Provider selection for the tool
+ * @param env Environment (default process.env)
+ * @returns MEDIA_INLINE_<TOOL>, else MEDIA_INLINE, else true for openai-compatible providers
+ */
+export function shouldInlineImages(llm: LLMSelection, env: NodeJS.ProcessEnv = process.env): boolean {
+  const value = env[`MEDIA_INLINE_${toolEnvSuffix(llm.tool)}`] ?? env.MEDIA_INLINE;
+  return value !== undefined ? value === 'true' : llm.provider.name === 'openai-compatible';
+}
+
+const allowPrivate = () => process.env.MEDIA_ALLOW_PRIVATE === 'true';
+
+/**
+ * DNS lookup that refuses hosts resolving to non-public addresses; used for
+ * the connection itself, so a host can't pass the check and then rebind
+ */
+async function publicLookup(hostname: string, permitPrivate: boolean): Promise<{ address: string; family: 4 | 6 }> {
+  const addresses = await dns.lookup(hostname, { all: true });
+  if (addresses.length === 0) {
+    throw new Error(`${hostname} does not resolve`);
+  }
+  if (!permitPrivate && addresses.some(entry => isPrivateAddress(entry.address))) {
+    throw new Error(`${hostname} resolves to a private address`);
+  }
+  return { address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
+
+/**
+ * axios `lookup` option that refuses hosts resolving to non-public addresses
+ * @param permitPrivate true to allow them (local test servers)
+ * @returns Callback-style lookup (axios treats non-async functions as callback style)
+ */
+export function publicAddressLookup(permitPrivate: boolean): AxiosRequestConfig['lookup'] {
+  return (hostname, _options, callback) => {
+    publicLookup(hostname, permitPrivate).then(
+      ({ address, family }) => callback(null, address, family),
+      error => callback(error, [])
+    );
+  };
+}
+
+/**
+ * Rejects URLs that aren't http(s) or name a private IP literal
+ * (IP literals never go through the DNS lookup)
+ * @param url Parsed URL
+ * @param permitPrivate true to allow private addresses
+ * @throws Error if the URL is refused
+ */
+export function assertFetchable(url: URL, permitPrivate: boolean): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`unsupported protocol ${url.protocol}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (!permitPrivate && isIP(host) !== 0 && isPrivateAddress(host)) {
+    throw new Error(`${host} is a private address`);
+  }
+}
+
+/**
+ * Downloads a media file within the size and time limits, following redirects
+ * manually and refusing private addresses at every hop
+ * @param url http(s) URL
+ * @param options Size and time limits
+ * @returns Promise with the file content
+ * @throws Error if the URL is refused, the server fails or a limit is exceeded
+ */
+export async function fetchMedia(url: string, options: MediaFetchOptions = {}): Promise<Buffer> {
+  const maxBytes = options.maxBytes ?? parseInt(process.env.MEDIA_MAX_BYTES || String(5 * 1024 * 1024), 10);
+  const timeoutMs = options.timeoutMs ?? parseInt(process.env.MEDIA_TIMEOUT_MS || '10000', 10);
+  const signal = AbortSignal.timeout(timeoutMs);
+  const permitPrivate = Boolean(options.allowPrivate) || allowPrivate();
+
+  let current = new URL(url);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertFetchable(current, permitPrivate);
+    const response = await axios.get<ArrayBuffer>(current.toString(), {
+      responseType: 'arraybuffer',
+      timeout: timeoutMs,
+      signal,
+      maxRedirects: 0,
+      maxContentLength: maxBytes,
+      validateStatus: () => true,
+      lookup: publicAddressLookup(permitPrivate),
+      headers: { 'User-Agent': 'CVM-Nostr-Server/1.0', Accept: 'image/*, video/*, audio/*' }
+    });
+
+    if (response.status >= 300 && response.status < 400 && response.headers.location) {
+      current = new URL(String(response.headers.location), current);
+      continue;
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return Buffer.from(response.data);
+  }
+  throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+}
+
+/**
+ * Checks one URL, using the cache
+ */
+async function checkImage(url: string, inline: boolean): Promise<ImageCheck> {
+  const key = createHash('sha256').update(url).digest('hex');
+  const cached = cache.get(key);
+  // Cached entries without a data URL can't serve an inline request
+  if (cached && cached.expires > Date.now() && (!inline || !cached.check.valid || cached.check.dataUrl)) {
+    return cached.check;
+  }
+
+  let check: ImageCheck;
+  try {
+    const data = await fetchMedia(url);
+    const mime = sniffMediaMime(data);
+    if (!mime) {
+      check = { url, valid: false, bytes: data.length, error: 'not an image' };
+    } else if (!SUPPORTED_TYPES.includes(mime)) {
+      check = { url, valid: false, mime, bytes: data.length, error: `unsupported image type ${mime}` };
+    } else {
+      check = {
+        url,
+        valid: true,
+        mime,
+        bytes: data.length,
+        ...(inline ? { dataUrl: `data:${mime};base64,${data.toString('base64')}` } : {})
+      };
+    }
+  } catch (error) {
+    check = { url, valid: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const ttlMs = parseInt(process.env.MEDIA_CACHE_TTL_MS || '3600000', 10);
+  if (ttlMs > 0) {
+    cache.delete(key);
+    cache.set(key, { check, expires: Date.now() + ttlMs });
+    // Oldest entries go first
+    while (cache.size > MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+  return check;
+}
+
+/**
+ * Downloads and checks image URLs concurrently
+ * @param imageUrls Image URLs to check
+ * @param options Whether to inline the images as data URLs
+ * @returns Promise with the URLs to send (data URLs when inlined) and every check, in input order
+ */
+export async function validateImageUrls(imageUrls: string[], options: ImageValidationOptions = {}): Promise<{
+  validUrls: string[];
+  results: ImageCheck[];
+}> {
+  const urls = [...new Set(imageUrls)];
+  const concurrency = Math.max(1, parseInt(process.env.MEDIA_CONCURRENCY || '4', 10));
+  const results: ImageCheck[] = new Array(urls.length);
+
+  console.log(`🔍 Validating ${urls.length} image URL(s)${options.inline ? ' (inlining)' : ''}...`);
+
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const index = next++;
+      results[index] = await checkImage(urls[index], Boolean(options.inline));
+      const result = results[index];
+      console.log(result.valid
+        ? `   ✅ Valid: ${result.url} (${result.mime}, ${result.bytes} bytes)`
+        : `   ❌ Invalid: ${result.url} (${result.error})`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
+
+  const valid = results.filter(result => result.valid);
+  console.log(`✅ Validation complete: ${valid.length}/${urls.length} images usable`);
+  return {
+    validUrls: valid.map(result => options.inline ? result.dataUrl! : result.url),
+    results
+  };
+}
+
+/**
+ * Clears cached image checks
+ */
+export function clearMediaCache(): void {
+  cache.clear();
+}
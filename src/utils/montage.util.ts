@@ -2,10 +2,24 @@
  * Utility function to trigger video montage creation
  * 
  * This utility interfaces with the dev.otherstuff.studio API to trigger
- * a video montage creation from files in a specified directory
+ * a video montage creation from files in a staging directory (see staging.util.ts),
+ * follow the trigger session until the video is rendered, and describe the
+ * finished video as a NIP-94 file metadata event (kind 1063)
  */
 
 import axios from 'axios';
+import { nip19 } from 'nostr-tools';
+import { fetchMedia, sniffMediaMime, videoDimensions } from './media.util.js';
+import { imetaTag, sha256Hex, uploadToBlossom } from './blossom.util.js';
+import type { NoteTemplate } from './summarise.util.js';
+
+export const FILE_METADATA_KIND = 1063;
+
+/** Alt text for the rendered video */
+const MONTAGE_ALT = 'Video montage';
+
+/** Recipe used when neither the request nor MONTAGE_RECIPE_ID names one */
+const DEFAULT_RECIPE_ID = '24fff1dda53900e41493cdf2ff643854';
 
 interface MontageResponse {
   success: boolean;
@@ -14,18 +28,104 @@ interface MontageResponse {
   [key: string]: any;
 }
 
+/**
+ * A triggered montage session
+ */
+export interface MontageTrigger {
+  sessionId?: string;
+  sessionName: string;
+  recipeId: string;
+  /** Human-readable summary of the trigger response */
+  message: string;
+}
+
+export type MontageState = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * The rendered video, as reported by the trigger API
+ */
+export interface MontageOutput {
+  url: string;
+  mime?: string;
+  sha256?: string;
+  width?: number;
+  height?: number;
+  size?: number;
+}
+
+/**
+ * One status poll of a trigger session
+ */
+export interface MontageStatus {
+  state: MontageState;
+  /** Fraction done (0-1), if the API reports it */
+  progress?: number;
+  message?: string;
+  output?: MontageOutput;
+}
+
+export interface MontageWaitOptions {
+  /** Stops waiting when aborted */
+  signal?: AbortSignal;
+  /** Time between polls (default MONTAGE_POLL_INTERVAL_MS or 10000) */
+  intervalMs?: number;
+  /** Give up after this long (default MONTAGE_TIMEOUT_MS or 30 minutes) */
+  timeoutMs?: number;
+  /** Called after every successful poll */
+  onStatus?: (status: MontageStatus) => Promise<void> | void;
+}
+
+/**
+ * Everything a NIP-94 event needs to describe the video
+ */
+export interface MontageFile {
+  url: string;
+  mime: string;
+  sha256: string;
+  size: number;
+  dim?: string;
+  /** Other URLs serving the same file (Blossom mirrors) */
+  fallbacks?: string[];
+  /** NIP-92 `imeta` tag for notes that embed the video (set when re-hosted on Blossom) */
+  imeta?: string[];
+}
+
+/**
+ * Trigger API base URL and bearer token from the environment
+ */
+function triggerApi(): { base: string; token: string } {
+  // Defaults chosen to match known working Postman target
+  const base = (process.env.TRIGGER_API_BASE || 'http://dev.otherstuff.studio:3000').replace(/\/$/, '');
+  const token = process.env.TRIGGER_API_TOKEN;
+  if (!token) {
+    throw new Error('Montage creation failed: missing TRIGGER_API_TOKEN env var');
+  }
+  return { base, token };
+}
+
+/**
+ * Recipe for a montage request
+ * @param requested Recipe id from the request, if any
+ * @returns The requested recipe, else MONTAGE_RECIPE_ID, else the default recipe
+ */
+export function montageRecipeId(requested?: string): string {
+  return requested || process.env.MONTAGE_RECIPE_ID || DEFAULT_RECIPE_ID;
+}
+
 /**
  * Creates a video montage using the otherstuff.studio API
- * @param dir The directory path containing files to create montage from
+ * @param dir The staging directory holding the job's media (must be readable by the trigger API)
  * @param prompt The prompt describing how to create the montage
  * @param pubkey The user's public key for authentication/identification
- * @returns Promise with the API response
+ * @param recipeId Trigger recipe (see montageRecipeId)
+ * @returns Promise with the session and a summary of the API response
  */
 export async function createMontage(
   dir: string,
   prompt: string,
-  pubkey: string
-): Promise<string> {
+  pubkey: string,
+  recipeId: string = montageRecipeId()
+): Promise<MontageTrigger> {
   // Generate random 4-digit number for session name
   const randomId = Math.floor(1000 + Math.random() * 9000);
   const sessionName = `Short Video Montage ${randomId}`;
@@ -35,17 +135,12 @@ export async function createMontage(
   console.log(`   Directory: ${dir}`);
   console.log(`   Prompt: ${prompt}`);
   console.log(`   Session Name: ${sessionName}`);
+  console.log(`   Recipe: ${recipeId}`);
   console.log(`   User Pubkey: ${pubkey.substring(0, 10)}...`);
 
   // Resolve API base and token from environment
-  // Defaults chosen to match known working Postman target
-  const base = (process.env.TRIGGER_API_BASE || 'http://dev.otherstuff.studio:3000').replace(/\/$/, '');
-  const token = process.env.TRIGGER_API_TOKEN;
+  const { base, token } = triggerApi();
   const endpoint = `${base}/api/triggers`; // Use plural path only
-  
-  if (!token) {
-    throw new Error('Montage creation failed: missing TRIGGER_API_TOKEN env var');
-  }
 
   let response: any = null;
   console.log(`   Using endpoint: ${endpoint}`);
@@ -53,7 +148,7 @@ export async function createMontage(
     response = await axios.post<MontageResponse>(
       endpoint,
       {
-        recipe_id: '24fff1dda53900e41493cdf2ff643854',
+        recipe_id: recipeId,
         prompt: prompt,
         session_name: sessionName,
         dir: dir
@@ -103,8 +198,209 @@ export async function createMontage(
   }
 
   responseMessage += `\nSession Name: ${sessionName}`;
+  responseMessage += `\nRecipe: ${recipeId}`;
   responseMessage += `\nDirectory: ${dir}`;
   responseMessage += `\nRequested by: ${pubkey}`;
 
-  return responseMessage;
+  return {
+    sessionId: response.data.session_id,
+    sessionName,
+    recipeId,
+    message: responseMessage
+  };
+}
+
+/**
+ * Maps the API's status wording onto a montage state
+ */
+function parseState(value: unknown): MontageState {
+  const status = String(value ?? '').toLowerCase();
+  if (['completed', 'complete', 'done', 'succeeded', 'success', 'finished'].includes(status)) return 'completed';
+  if (['failed', 'error', 'errored', 'cancelled', 'canceled'].includes(status)) return 'failed';
+  if (['running', 'processing', 'in_progress', 'started', 'rendering'].includes(status)) return 'running';
+  return 'pending';
+}
+
+/**
+ * Reads the rendered video from a status response
+ */
+function parseOutput(data: any): MontageOutput | undefined {
+  const output = data.output ?? data.result ?? {};
+  const url = data.output_url ?? data.video_url ?? output.url ?? output.video_url;
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) return undefined;
+  const number = (value: unknown) => (typeof value === 'number' && value > 0 ? value : undefined);
+  const sha256 = String(output.sha256 ?? data.sha256 ?? '').toLowerCase();
+  return {
+    url,
+    mime: output.mime_type ?? output.mime ?? data.mime_type,
+    sha256: /^[0-9a-f]{64}$/.test(sha256) ? sha256 : undefined,
+    width: number(output.width ?? data.width),
+    height: number(output.height ?? data.height),
+    size: number(output.size ?? data.size)
+  };
+}
+
+/**
+ * Polls the trigger API once for a session's status
+ * @param sessionId Session id returned when the montage was triggered
+ * @returns Promise with the session state, progress and (when completed) the video
+ */
+export async function getMontageStatus(sessionId: string): Promise<MontageStatus> {
+  const { base, token } = triggerApi();
+  const statusPath = (process.env.TRIGGER_STATUS_PATH || '/api/triggers/{session_id}')
+    .replace('{session_id}', encodeURIComponent(sessionId));
+  const response = await axios.get(`${base}${statusPath}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+    timeout: 15000
+  });
+
+  const data = response.data?.session ?? response.data ?? {};
+  const state = parseState(data.status ?? data.state);
+  // Progress may be a fraction or a percentage; a completed session is done
+  const rawProgress = typeof data.progress === 'number' ? data.progress : (state === 'completed' ? 1 : undefined);
+  return {
+    state,
+    progress: rawProgress === undefined ? undefined : Math.min(1, Math.max(0, rawProgress > 1 ? rawProgress / 100 : rawProgress)),
+    message: typeof data.message === 'string' ? data.message : (typeof data.error === 'string' ? data.error : undefined),
+    output: parseOutput(data)
+  };
+}
+
+/**
+ * Polls a session until the video is rendered
+ * @param sessionId Session id
+ * @param options Poll interval, timeout, cancellation and status callback
+ * @returns Promise with the rendered video
+ * @throws Error if the session fails, times out, is cancelled or the API stays unreachable
+ */
+export async function waitForMontage(sessionId: string, options: MontageWaitOptions = {}): Promise<MontageOutput> {
+  const intervalMs = options.intervalMs ?? parseInt(process.env.MONTAGE_POLL_INTERVAL_MS || '10000', 10);
+  const timeoutMs = options.timeoutMs ?? parseInt(process.env.MONTAGE_TIMEOUT_MS || String(30 * 60 * 1000), 10);
+  const deadline = Date.now() + timeoutMs;
+  let failures = 0;
+
+  console.log(`⏳ Waiting for montage session ${sessionId} (polling every ${intervalMs} ms)`);
+
+  while (true) {
+    if (options.signal?.aborted) {
+      throw new Error('Montage wait cancelled');
+    }
+
+    let status: MontageStatus | undefined;
+    try {
+      status = await getMontageStatus(sessionId);
+      failures = 0;
+    } catch (error) {
+      // A few failed polls in a row are tolerated (API restarts, network blips)
+      failures++;
+      console.warn(`   ⚠️  Status poll ${failures} failed:`, error instanceof Error ? error.message : error);
+      if (failures >= 5) {
+        throw new Error(`Montage status unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (status) {
+      console.log(`   🎬 Session ${sessionId}: ${status.state}${status.progress !== undefined ? ` (${Math.round(status.progress * 100)}%)` : ''}`);
+      await options.onStatus?.(status);
+      if (status.state === 'failed') {
+        throw new Error(`Montage failed${status.message ? `: ${status.message}` : ''}`);
+      }
+      if (status.state === 'completed') {
+        if (!status.output) {
+          throw new Error('Montage completed but the API returned no video URL');
+        }
+        return status.output;
+      }
+    }
+
+    if (Date.now() + intervalMs > deadline) {
+      throw new Error(`Montage not finished after ${Math.round(timeoutMs / 1000)}s (session ${sessionId})`);
+    }
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(done, intervalMs);
+      function done() {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      options.signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+}
+
+/**
+ * Completes the video's metadata, downloading it when the API didn't report
+ * its hash, type or frame size, and optionally re-hosts it on Blossom
+ * @param output Video as reported by the trigger API
+ * @param rehost Key to sign Blossom uploads with; when given the video is
+ *   uploaded to BLOSSOM_SERVERS and the Blossom URLs replace the API's URL
+ * @returns Promise with url, MIME type, sha256, size, dimensions, fallbacks and,
+ *   when re-hosted, the imeta tag
+ */
+export async function describeMontageOutput(output: MontageOutput, rehost?: { privateKey: string }): Promise<MontageFile> {
+  const dim = output.width && output.height ? `${output.width}x${output.height}` : undefined;
+  if (!rehost && output.sha256 && output.mime && output.size && dim) {
+    return { url: output.url, mime: output.mime, sha256: output.sha256, size: output.size, dim };
+  }
+
+  console.log(`📥 Downloading rendered montage to describe it: ${output.url}`);
+  // The URL comes from the configured trigger API, which may be on a private network
+  const data = await fetchMedia(output.url, {
+    maxBytes: parseInt(process.env.MONTAGE_MAX_OUTPUT_BYTES || String(500 * 1024 * 1024), 10),
+    timeoutMs: parseInt(process.env.MONTAGE_DOWNLOAD_TIMEOUT_MS || '60000', 10),
+    allowPrivate: true
+  });
+  const sha256 = sha256Hex(data);
+  if (output.sha256 && output.sha256 !== sha256) {
+    throw new Error(`Rendered video hash ${sha256} does not match the reported ${output.sha256}`);
+  }
+  const measured = videoDimensions(data);
+  const file: MontageFile = {
+    url: output.url,
+    mime: output.mime || sniffMediaMime(data) || 'video/mp4',
+    sha256,
+    size: data.length,
+    dim: dim ?? (measured ? `${measured.width}x${measured.height}` : undefined)
+  };
+  if (!rehost) {
+    return file;
+  }
+
+  try {
+    const upload = await uploadToBlossom(data, { privateKey: rehost.privateKey, mime: file.mime, description: 'Upload montage video' });
+    return { ...file, url: upload.urls[0], fallbacks: upload.urls.slice(1), imeta: imetaTag(upload, { dim: file.dim, alt: MONTAGE_ALT }) };
+  } catch (error) {
+    // The trigger API's URL still works; publish that rather than nothing
+    console.warn('⚠️  Could not re-host montage on Blossom:', error instanceof Error ? error.message : error);
+    return file;
+  }
+}
+
+/**
+ * Builds the unsigned NIP-94 file metadata event for a finished montage
+ * @param file Video metadata
+ * @param requesterPubkey Hex pubkey of the user who requested the montage (tagged)
+ * @param publisherPubkey Hex pubkey the event is signed with
+ * @param sessionName Trigger session name, used in the description
+ * @returns Kind 1063 template
+ */
+export function buildMontageFileEvent(file: MontageFile, requesterPubkey: string, publisherPubkey: string, sessionName: string): NoteTemplate {
+  const tags: string[][] = [
+    ['url', file.url],
+    ['m', file.mime],
+    ['x', file.sha256],
+    // The server publishes the file as rendered, so the original hash is the same
+    ['ox', file.sha256],
+    ['size', String(file.size)],
+    ...(file.dim ? [['dim', file.dim]] : []),
+    ...(file.fallbacks || []).map(url => ['fallback', url]),
+    ['alt', MONTAGE_ALT],
+    ['p', requesterPubkey]
+  ];
+  return {
+    kind: FILE_METADATA_KIND,
+    pubkey: publisherPubkey,
+    tags,
+    content: `${sessionName} for nostr:${nip19.npubEncode(requesterPubkey)}`
+  };
 }
@@ -0,0 +1,154 @@
+/**
+ * Utility for reading NIP-11 relay information documents
+ *
+ * Relays advertise their limits (including `limitation.min_pow_difficulty`)
+ * in a JSON document served over HTTP(S) from the relay URL with the
+ * `Accept: application/nostr+json` header. Documents are cached for
+ * NIP11_CACHE_TTL_MS. Set NIP11_BASE_URL to fetch every document from one
+ * HTTP server instead (e.g. a local stub in tests); the relay URL is then
+ * passed as the `relay` query parameter.
+ */
+
+import axios from 'axios';
+import type { RelayReceipt } from './publish.util.js';
+
+/**
+ * The parts of a NIP-11 document the server uses
+ */
+export interface RelayInformation {
+  name?: string;
+  software?: string;
+  supported_nips?: number[];
+  limitation?: {
+    min_pow_difficulty?: number;
+    auth_required?: boolean;
+    payment_required?: boolean;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * PoW needed to publish to a relay set, within a cost cap
+ */
+export interface RelayPowPlan {
+  /** Difficulty to mine the event to */
+  difficulty: number;
+  /** Relays to publish to */
+  relays: string[];
+  /** Relays left out because their PoW requirement exceeds the cap */
+  skipped: RelayReceipt[];
+  /** min_pow_difficulty advertised by each relay (0 when unknown) */
+  requirements: Record<string, number>;
+}
+
+const cache = new Map<string, { info: RelayInformation | undefined; expires: number }>();
+
+/**
+ * Returns the HTTP URL serving a relay's NIP-11 document
+ * @param relayUrl Relay websocket URL, e.g. wss://nos.lol
+ * @returns HTTP(S) URL, e.g. https://nos.lol
+ */
+export function relayInfoUrl(relayUrl: string): string {
+  const base = process.env.NIP11_BASE_URL;
+  if (base) {
+    return `${base.replace(/\/$/, '')}/?relay=${encodeURIComponent(relayUrl)}`;
+  }
+  return relayUrl.replace(/^ws(s?):\/\//i, 'http$1://');
+}
+
+/**
+ * Fetches (or returns the cached) NIP-11 document of a relay
+ * @param relayUrl Relay websocket URL
+ * @returns Promise with the document, or undefined if the relay doesn't serve one
+ */
+export async function fetchRelayInformation(relayUrl: string): Promise<RelayInformation | undefined> {
+  const cached = cache.get(relayUrl);
+  if (cached && cached.expires > Date.now()) {
+    return cached.info;
+  }
+
+  const ttlMs = parseInt(process.env.NIP11_CACHE_TTL_MS || '3600000', 10);
+  const timeoutMs = parseInt(process.env.NIP11_TIMEOUT_MS || '3000', 10);
+
+  let info: RelayInformation | undefined;
+  try {
+    const response = await axios.get(relayInfoUrl(relayUrl), {
+      headers: { Accept: 'application/nostr+json' },
+      timeout: timeoutMs,
+      // Some relays answer with text/plain; parse ourselves
+      responseType: 'text',
+      transformResponse: data => data
+    });
+    const parsed = JSON.parse(String(response.data));
+    info = parsed && typeof parsed === 'object' ? parsed as RelayInformation : undefined;
+  } catch (error) {
+    console.warn(`   ⚠️  No NIP-11 information for ${relayUrl}: ${error instanceof Error ? error.message : error}`);
+    info = undefined;
+  }
+
+  cache.set(relayUrl, { info, expires: Date.now() + ttlMs });
+  return info;
+}
+
+/**
+ * Clears cached NIP-11 documents
+ */
+export function clearRelayInformationCache(): void {
+  cache.clear();
+}
+
+/**
+ * Reads a relay's minimum PoW difficulty from its NIP-11 document
+ * @param info NIP-11 document
+ * @returns Leading zero bits required (0 if none advertised)
+ */
+export function minPowDifficulty(info: RelayInformation | undefined): number {
+  const value = Number(info?.limitation?.min_pow_difficulty);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+/**
+ * Works out how much PoW an event needs for a relay set.
+ *
+ * The event is mined to the highest requirement among the relays we can
+ * afford (at least `baseDifficulty`); relays asking for more than
+ * `maxDifficulty` are skipped and reported.
+ * @param relayUrls Target relays
+ * @param baseDifficulty Minimum difficulty to mine to (POW_DIFFICULTY)
+ * @param maxDifficulty Cost cap in bits, if any
+ * @returns Promise with the PoW plan
+ */
+export async function planRelayPow(
+  relayUrls: string[],
+  baseDifficulty: number,
+  maxDifficulty?: number
+): Promise<RelayPowPlan> {
+  const cap = maxDifficulty !== undefined ? maxDifficulty : Infinity;
+  const infos = await Promise.all(relayUrls.map(url => fetchRelayInformation(url)));
+
+  const requirements: Record<string, number> = {};
+  const relays: string[] = [];
+  const skipped: RelayReceipt[] = [];
+
+  relayUrls.forEach((url, index) => {
+    const required = minPowDifficulty(infos[index]);
+    requirements[url] = required;
+    if (required > cap) {
+      skipped.push({
+        relay: url,
+        accepted: false,
+        skipped: true,
+        message: `skipped: relay requires PoW ${required} bits, above the cap of ${cap}`,
+        prefix: 'pow'
+      });
+    } else {
+      relays.push(url);
+    }
+  });
+
+  const needed = Math.max(0, ...relays.map(url => requirements[url]));
+  const difficulty = Math.min(cap, Math.max(baseDifficulty, needed));
+
+  return { difficulty, relays, skipped, requirements };
+}
@@ -5,6 +5,8 @@
  * It uses worker threads to prevent blocking the main thread during mining.
  */
 
+import * as os from 'os';
+import { Worker } from 'worker_threads';
 import { getEventHash } from 'nostr-tools';
 import type { NostrEvent } from 'nostr-tools';
 
@@ -21,67 +23,224 @@ interface RawNostrEvent {
   sig?: string;
 }
 
+/**
+ * Progress snapshot reported while mining
+ */
+export interface PowProgress {
+  /** Hashes tried so far across all workers */
+  attempts: number;
+  /** Combined hashes per second */
+  hashrate: number;
+  elapsedMs: number;
+  difficulty: number;
+  workers: number;
+}
+
+/**
+ * Options for mineEventPow
+ */
+export interface PowOptions {
+  /** Aborts mining (e.g. when the MCP request is cancelled) */
+  signal?: AbortSignal;
+  /** Called roughly every progressIntervalMs with combined progress */
+  onProgress?: (progress: PowProgress) => void;
+  /** Worker threads to use (default POW_WORKERS or the number of CPU cores) */
+  workers?: number;
+  /** Give up after this long (default POW_TIMEOUT_MS or 120000) */
+  timeoutMs?: number;
+  /** How often workers report progress (default 1000ms) */
+  progressIntervalMs?: number;
+}
+
+/**
+ * Reads the PoW cost cap for a tool: POW_MAX_DIFFICULTY_<TOOL> (tool name
+ * upper-cased, non-alphanumerics -> "_"), falling back to POW_MAX_DIFFICULTY
+ * @param tool Tool name, e.g. "weekly_summary"
+ * @param env Environment (default process.env)
+ * @returns Maximum difficulty in bits, or undefined for no cap
+ */
+export function powCapForTool(tool: string, env: NodeJS.ProcessEnv = process.env): number | undefined {
+  const key = tool.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  const raw = env[`POW_MAX_DIFFICULTY_${key}`] ?? env.POW_MAX_DIFFICULTY;
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const cap = parseInt(raw, 10);
+  return Number.isFinite(cap) && cap >= 0 ? cap : undefined;
+}
+
+/**
+ * Worker source, run with `eval` so it works both from dist/ and under tsx.
+ * Each worker tries nonces start, start + step, start + 2*step, ... and hashes
+ * the NIP-01 serialisation directly (prefix + nonce + suffix) to avoid
+ * re-serialising the whole event for every attempt.
+ */
+const POW_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { createHash } = require('crypto');
+const { prefix, suffix, start, step, difficulty, progressIntervalMs } = workerData;
+
+function leadingZeroBits(digest) {
+  let bits = 0;
+  for (let i = 0; i < digest.length; i++) {
+    const byte = digest[i];
+    if (byte === 0) { bits += 8; continue; }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+function mine() {
+  let nonce = start;
+  let attempts = 0;
+  let lastReport = Date.now();
+  for (;;) {
+    for (let i = 0; i < 5000; i++) {
+      const digest = createHash('sha256').update(prefix + nonce + suffix).digest();
+      attempts++;
+      if (leadingZeroBits(digest) >= difficulty) {
+        parentPort.postMessage({ type: 'found', nonce, attempts });
+        return;
+      }
+      nonce += step;
+    }
+    const now = Date.now();
+    if (now - lastReport >= progressIntervalMs) {
+      parentPort.postMessage({ type: 'progress', attempts });
+      attempts = 0;
+      lastReport = now;
+    }
+  }
+}
+
+mine();
+`;
+
+/**
+ * Splits the NIP-01 serialisation of an event around its nonce value
+ * @param event The event without a nonce tag
+ * @param difficulty Target difficulty (committed to in the nonce tag)
+ * @returns Strings so that sha256(prefix + nonce + suffix) is the event id
+ */
+function serialisationAroundNonce(event: RawNostrEvent, difficulty: number): { prefix: string; suffix: string } {
+  const tags = event.tags.map(tag => JSON.stringify(tag));
+  const prefix = `[0,${JSON.stringify(event.pubkey)},${event.created_at},${event.kind},[${tags.join(',')}${tags.length > 0 ? ',' : ''}["nonce","`;
+  const suffix = `",${JSON.stringify(difficulty.toString())}]],${JSON.stringify(event.content)}]`;
+  return { prefix, suffix };
+}
+
+/**
+ * Resolves the number of mining workers
+ * @param requested Explicit worker count, if any
+ * @returns Worker count (at least 1)
+ */
+function resolveWorkerCount(requested?: number): number {
+  const configured = requested ?? parseInt(process.env.POW_WORKERS || '0', 10);
+  if (configured > 0) return configured;
+  return Math.max(1, typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length);
+}
+
 /**
  * Mines a Nostr event for NIP-13 proof-of-work.
+ * 
+ * The nonce space is split across a pool of worker threads so mining never
+ * blocks the event loop (and with it the Nostr transport).
  * @param event - The signed event to mine (either NostrEvent or raw event data)
  * @param difficulty - Required leading zero bits (default: 20)
- * @returns Promise resolving to the mined event with nonce tag
+ * @param options - Abort signal, progress callback, worker count and timeout
+ * @returns Promise resolving to the mined event with nonce tag (unsigned; re-sign it)
  */
 export async function mineEventPow(
   event: NostrEvent | RawNostrEvent, 
-  difficulty: number = 20
+  difficulty: number = 20,
+  options: PowOptions = {}
 ): Promise<RawNostrEvent> {
   // Extract raw event data
   const serialized: RawNostrEvent = typeof (event as any).rawEvent === 'function'
     ? (event as any).rawEvent()
     : event as RawNostrEvent;
+  const baseTags = (serialized.tags || []).filter(tag => tag[0] !== 'nonce');
+
+  const workerCount = resolveWorkerCount(options.workers);
+  const timeoutMs = options.timeoutMs ?? parseInt(process.env.POW_TIMEOUT_MS || '120000', 10);
+  const progressIntervalMs = options.progressIntervalMs ?? 1000;
+  const { prefix, suffix } = serialisationAroundNonce({ ...serialized, tags: baseTags }, difficulty);
 
-  // For now, do synchronous mining to avoid worker module issues
-  // TODO: Implement proper worker thread support later
-  console.log(`⛏️  Starting synchronous PoW mining with difficulty ${difficulty}...`);
+  if (options.signal?.aborted) {
+    throw new Error('PoW mining cancelled');
+  }
+
+  console.log(`⛏️  Starting PoW mining with difficulty ${difficulty} on ${workerCount} worker thread(s)...`);
   const startTime = Date.now();
-  
-  let nonce = 0;
-  let mined = { ...serialized };
-
-  while (true) {
-    // Add nonce tag with difficulty
-    mined.tags = [
-      ...(serialized.tags || []),
-      ['nonce', nonce.toString(), difficulty.toString()]
-    ];
-    
-    // Calculate new hash
-    mined.id = getEventHash(mined);
-    
-    // Check if hash meets difficulty requirement
-    if (hashMatchesDifficulty(mined.id, difficulty)) {
-      const endTime = Date.now();
-      const duration = endTime - startTime;
-      console.log(`✅ PoW mining completed!`);
-      console.log(`   Difficulty: ${difficulty} bits`);
-      console.log(`   Nonce: ${nonce}`);
-      console.log(`   Hash: ${mined.id}`);
-      console.log(`   Duration: ${duration}ms (${Math.round(duration / 1000)}s)`);
-      console.log(`   Hash rate: ~${Math.round(nonce / (duration / 1000))} hashes/sec`);
-      break;
-    }
-    
-    nonce++;
-    
-    // Log progress every 50000 attempts
-    if (nonce % 50000 === 0) {
-      const elapsed = Date.now() - startTime;
-      const rate = Math.round(nonce / (elapsed / 1000));
-      console.log(`   Mining progress: ${nonce} attempts, ~${rate} h/s, ${Math.round(elapsed / 1000)}s elapsed`);
-    }
 
-    // Timeout after 2 minutes
-    if (Date.now() - startTime > 120000) {
-      throw new Error(`PoW mining timed out after 2 minutes for difficulty ${difficulty}`);
+  const nonce = await new Promise<number>((resolve, reject) => {
+    const workers: Worker[] = [];
+    let attempts = 0;
+    let settled = false;
+
+    const finish = (error: Error | null, found?: number) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      workers.forEach(worker => worker.terminate());
+      if (error) reject(error); else resolve(found!);
+    };
+
+    const onAbort = () => finish(new Error('PoW mining cancelled'));
+    options.signal?.addEventListener('abort', onAbort);
+
+    const timer = setTimeout(() => {
+      finish(new Error(`PoW mining timed out after ${Math.round(timeoutMs / 1000)}s for difficulty ${difficulty}`));
+    }, timeoutMs);
+
+    const report = () => {
+      const elapsedMs = Date.now() - startTime;
+      const hashrate = Math.round(attempts / Math.max(elapsedMs / 1000, 0.001));
+      console.log(`   Mining progress: ${attempts} attempts, ~${hashrate} h/s, ${Math.round(elapsedMs / 1000)}s elapsed`);
+      try {
+        options.onProgress?.({ attempts, hashrate, elapsedMs, difficulty, workers: workerCount });
+      } catch (error) {
+        console.warn('   ⚠️  PoW progress callback failed:', error);
+      }
+    };
+
+    let lastReport = startTime;
+    for (let index = 0; index < workerCount; index++) {
+      const worker = new Worker(POW_WORKER_SOURCE, {
+        eval: true,
+        workerData: { prefix, suffix, start: index, step: workerCount, difficulty, progressIntervalMs }
+      });
+      worker.on('message', (message: { type: 'progress' | 'found'; attempts: number; nonce?: number }) => {
+        attempts += message.attempts;
+        if (message.type === 'found') {
+          finish(null, message.nonce);
+        } else if (Date.now() - lastReport >= progressIntervalMs) {
+          lastReport = Date.now();
+          report();
+        }
+      });
+      worker.on('error', error => finish(error));
+      workers.push(worker);
     }
+  });
+
+  const mined: RawNostrEvent = {
+    ...serialized,
+    tags: [...baseTags, ['nonce', nonce.toString(), difficulty.toString()]]
+  };
+  mined.id = getEventHash(mined);
+
+  // Guard against a serialisation mismatch between the workers and nostr-tools
+  if (!hashMatchesDifficulty(mined.id, difficulty)) {
+    throw new Error(`PoW mining produced nonce ${nonce} but event hash ${mined.id} does not meet difficulty ${difficulty}`);
   }
 
+  const duration = Date.now() - startTime;
+  console.log(`✅ PoW mining completed!`);
+  console.log(`   Difficulty: ${difficulty} bits`);
+  console.log(`   Nonce: ${nonce}`);
+  console.log(`   Hash: ${mined.id}`);
+  console.log(`   Duration: ${duration}ms (${Math.round(duration / 1000)}s)`);
+
   return mined;
 }
 
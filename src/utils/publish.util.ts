@@ -0,0 +1,229 @@
+/**
+ * Utility for publishing Nostr events with per-relay receipts
+ *
+ * SimpleRelayPool.publish() resolves or rejects for the whole pool, which hides
+ * which relays actually stored the event. This utility publishes to each relay
+ * individually, collects the NIP-20 OK/rejection message from every relay and
+ * applies a quorum policy to decide whether the publish succeeded.
+ */
+
+import { SimpleRelayPool } from '@contextvm/sdk';
+import type { NostrEvent, SimplePool } from 'nostr-tools';
+
+/**
+ * Quorum policy: a minimum number of accepting relays, a majority, or all relays
+ */
+export type QuorumPolicy = number | 'majority' | 'all';
+
+/**
+ * Outcome of publishing to a single relay
+ */
+export interface RelayReceipt {
+  relay: string;
+  accepted: boolean;
+  /** Relay message, e.g. "pow: difficulty too low" or "blocked: not on whitelist" */
+  message: string;
+  /** NIP-20 machine-readable prefix, e.g. "pow", "blocked", "rate-limited", "duplicate" */
+  prefix?: string;
+  /** Not attempted, e.g. because the relay's PoW requirement was above the cap */
+  skipped?: boolean;
+}
+
+/**
+ * Options for publishWithReceipts
+ */
+export interface PublishTargets {
+  /** Relays to publish to (default: every relay in the pool) */
+  relays?: string[];
+  /** Receipts for relays deliberately left out; reported and counted as not accepted */
+  skipped?: RelayReceipt[];
+}
+
+/**
+ * Outcome of publishing to the whole relay set
+ */
+export interface PublishReport {
+  eventId: string;
+  success: boolean;
+  accepted: number;
+  required: number;
+  total: number;
+  receipts: RelayReceipt[];
+  error?: string;
+  /** PoW difficulty the event was mined to (0 when not mined) */
+  powDifficulty?: number;
+}
+
+// NIP-20 machine-readable prefixes (plus a few widely used extensions)
+const NIP20_PREFIXES = ['duplicate', 'pow', 'blocked', 'rate-limited', 'invalid', 'restricted', 'auth-required', 'mute', 'error'];
+
+/**
+ * Reads the publish quorum from PUBLISH_QUORUM (a number, "majority" or "all"; default 1)
+ * @param value Raw value (defaults to process.env.PUBLISH_QUORUM)
+ * @returns QuorumPolicy
+ */
+export function parseQuorumPolicy(value: string | undefined = process.env.PUBLISH_QUORUM): QuorumPolicy {
+  const raw = (value || '').trim().toLowerCase();
+  if (raw === 'majority' || raw === 'all') {
+    return raw;
+  }
+  const n = parseInt(raw, 10);
+  return Number.isFinite(n) && n > 0 ? n : 1;
+}
+
+/**
+ * Resolves a quorum policy into the number of relays that must accept
+ * @param policy Quorum policy
+ * @param total Number of relays published to
+ * @returns Required number of accepting relays (never more than total)
+ */
+export function requiredAcceptances(policy: QuorumPolicy, total: number): number {
+  if (policy === 'all') return total;
+  if (policy === 'majority') return Math.floor(total / 2) + 1;
+  return Math.min(policy, total);
+}
+
+/**
+ * Extracts the NIP-20 prefix from a relay message
+ * @param message Relay message such as "pow: difficulty 20 required"
+ * @returns Prefix if it is a known NIP-20 prefix
+ */
+function parsePrefix(message: string): string | undefined {
+  const match = message.match(/^([a-z-]+):/);
+  return match && NIP20_PREFIXES.includes(match[1]) ? match[1] : undefined;
+}
+
+function reasonOf(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  return 'Unknown publishing error';
+}
+
+/**
+ * The nostr-tools pool calls used for per-relay publishing, queries and
+ * subscriptions, and for closing relays opened for client relay hints
+ */
+export type PoolQueries = Pick<SimplePool, 'publish' | 'querySync' | 'subscribeMany' | 'close'>;
+
+/**
+ * Private fields of SimpleRelayPool read by this module
+ */
+interface SimpleRelayPoolInternals {
+  pool?: PoolQueries;
+  normalizedRelayUrls?: string[];
+}
+
+/**
+ * SimpleRelayPool keeps its nostr-tools pool and relay list private; every
+ * module reaches them through here, so an SDK change breaks in one place
+ */
+function internalsOf(relayPool: SimpleRelayPool): SimpleRelayPoolInternals {
+  return relayPool as unknown as SimpleRelayPoolInternals;
+}
+
+/**
+ * Returns the relay URLs the pool publishes to
+ * @param relayPool Relay pool
+ * @returns Normalised relay URLs
+ */
+export function getPoolRelayUrls(relayPool: SimpleRelayPool): string[] {
+  return internalsOf(relayPool).normalizedRelayUrls || [];
+}
+
+/**
+ * Returns the nostr-tools pool behind a relay pool, for per-relay calls
+ * @param relayPool Relay pool
+ * @returns The pool, or undefined if it is not connected (or the SDK no longer exposes it)
+ */
+export function getPoolQueries(relayPool: SimpleRelayPool): PoolQueries | undefined {
+  const pool = internalsOf(relayPool).pool;
+  return pool && typeof pool.publish === 'function' && typeof pool.querySync === 'function' ? pool : undefined;
+}
+
+/**
+ * Publishes an event to every relay in the pool and collects per-relay receipts
+ * @param relayPool Relay pool to publish through
+ * @param event Signed event
+ * @param quorum Quorum policy (default from PUBLISH_QUORUM)
+ * @param targets Subset of relays to publish to, and relays that were skipped
+ * @returns Promise with the publish report
+ */
+export async function publishWithReceipts(
+  relayPool: SimpleRelayPool,
+  event: NostrEvent,
+  quorum: QuorumPolicy = parseQuorumPolicy(),
+  targets: PublishTargets = {}
+): Promise<PublishReport> {
+  const relayUrls = targets.relays || getPoolRelayUrls(relayPool);
+  const pool = getPoolQueries(relayPool);
+
+  console.log(`   📡 Publishing ${event.id} to ${relayUrls.length || 'unknown'} relays...`);
+
+  let receipts: RelayReceipt[];
+
+  if (targets.relays && relayUrls.length === 0) {
+    receipts = [];
+  } else if (pool && relayUrls.length > 0) {
+    // One promise per relay: resolves with the OK message, rejects with the rejection reason
+    const settled = await Promise.allSettled(pool.publish(relayUrls, event));
+    receipts = settled.map((outcome, index) => {
+      const message = outcome.status === 'fulfilled'
+        ? (outcome.value || '')
+        : reasonOf(outcome.reason);
+      return {
+        relay: relayUrls[index],
+        accepted: outcome.status === 'fulfilled',
+        message,
+        prefix: parsePrefix(message)
+      };
+    });
+  } else {
+    // Pool internals unavailable: fall back to an all-or-nothing receipt
+    try {
+      await relayPool.publish(event);
+      receipts = [{ relay: '*', accepted: true, message: '' }];
+    } catch (error) {
+      const message = reasonOf(error);
+      receipts = [{ relay: '*', accepted: false, message, prefix: parsePrefix(message) }];
+    }
+  }
+
+  receipts.push(...(targets.skipped || []));
+
+  const accepted = receipts.filter(receipt => receipt.accepted).length;
+  const required = Math.max(1, requiredAcceptances(quorum, receipts.length));
+  const success = accepted >= required;
+
+  receipts.forEach(receipt => {
+    const status = receipt.accepted ? '✅' : receipt.skipped ? '⏭️ ' : '❌';
+    const detail = receipt.message ? ` (${receipt.message})` : '';
+    console.log(`   ${status} ${receipt.relay}${detail}`);
+  });
+  console.log(`   ${success ? '✅' : '⚠️ '} ${accepted}/${receipts.length} relays accepted (quorum ${required})`);
+
+  return {
+    eventId: event.id,
+    success,
+    accepted,
+    required,
+    total: receipts.length,
+    receipts,
+    error: success
+      ? undefined
+      : `Quorum not met: ${accepted}/${receipts.length} relays accepted, ${required} required`
+  };
+}
+
+/**
+ * Formats per-relay receipts for a tool response
+ * @param report Publish report
+ * @returns Multi-line summary, one relay per line
+ */
+export function formatPublishReport(report: Pick<PublishReport, 'accepted' | 'required' | 'total' | 'receipts'>): string {
+  const lines = report.receipts.map(receipt => {
+    const status = receipt.accepted ? '✅' : receipt.skipped ? '⏭️' : '❌';
+    const detail = receipt.message ? ` — ${receipt.message}` : '';
+    return `${status} ${receipt.relay}${detail}`;
+  });
+  return [`Relays: ${report.accepted}/${report.total} accepted (quorum ${report.required})`, ...lines].join('\n');
+}
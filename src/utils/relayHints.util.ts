@@ -0,0 +1,100 @@
+/**
+ * Utility for relay hints supplied by clients
+ *
+ * nprofile/nevent references, NIP-05 documents and the events clients send
+ * carry relay URLs the server is asked to connect to. Like media URLs, those
+ * are untrusted: a hint naming a loopback or internal host would make the
+ * server open WebSocket connections inside its own network. Hints therefore
+ * go through withRelayHints, which
+ * - keeps only ws(s) URLs whose host is, and resolves to, public addresses
+ *   (RELAY_HINTS_ALLOW_PRIVATE=true turns this off for local test relays)
+ * - uses at most RELAY_HINTS_MAX of them (default 3)
+ * - closes the hinted relays once the query or publish is done, so they don't
+ *   accumulate as open connections in the shared pool
+ */
+
+import { SimpleRelayPool } from '@contextvm/sdk';
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import { isPrivateAddress } from './media.util.js';
+import { getPoolQueries, getPoolRelayUrls } from './publish.util.js';
+
+// Hint relays in use by running queries; a relay is closed when the last one finishes
+const inUse = new Map<string, number>();
+
+/**
+ * Whether a relay URL may be connected to
+ * @param url Normalised relay URL
+ * @param permitPrivate true to allow private and loopback hosts
+ * @returns Promise resolving to true for ws(s) URLs on public hosts
+ */
+async function isConnectable(url: URL, permitPrivate: boolean): Promise<boolean> {
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') return false;
+  if (permitPrivate) return true;
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) !== 0) return !isPrivateAddress(host);
+  try {
+    const addresses = await dns.lookup(host, { all: true });
+    return addresses.length > 0 && !addresses.some(entry => isPrivateAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Filters client-supplied relay hints down to the ones the server will use
+ * @param relayPool Relay pool (its own relays are never counted as hints)
+ * @param hints Relay URLs from nprofiles, nevents, NIP-05 documents or events
+ * @returns Promise with at most RELAY_HINTS_MAX normalised, connectable relay URLs
+ */
+export async function usableRelayHints(relayPool: SimpleRelayPool, hints: string[]): Promise<string[]> {
+  const max = Math.max(0, parseInt(process.env.RELAY_HINTS_MAX || '3', 10));
+  const permitPrivate = process.env.RELAY_HINTS_ALLOW_PRIVATE === 'true';
+  const poolRelays = new Set(getPoolRelayUrls(relayPool));
+
+  const usable: string[] = [];
+  for (const hint of new Set(hints)) {
+    if (usable.length >= max) break;
+    let url: URL;
+    try {
+      url = new URL(hint.trim());
+    } catch {
+      continue;
+    }
+    if (poolRelays.has(url.href) || usable.includes(url.href)) continue;
+    if (await isConnectable(url, permitPrivate)) {
+      usable.push(url.href);
+    } else {
+      console.warn(`   ⚠️  Ignoring relay hint ${url.href}: not a public ws(s) relay`);
+    }
+  }
+  return usable;
+}
+
+/**
+ * Runs a query or publish with vetted relay hints, then closes the hinted relays
+ * @param relayPool Relay pool
+ * @param hints Relay URLs supplied by the client
+ * @param run Called with the usable hints
+ * @returns Promise with run's result
+ */
+export async function withRelayHints<T>(relayPool: SimpleRelayPool, hints: string[], run: (relays: string[]) => Promise<T>): Promise<T> {
+  const relays = await usableRelayHints(relayPool, hints);
+  relays.forEach(relay => inUse.set(relay, (inUse.get(relay) || 0) + 1));
+  try {
+    return await run(relays);
+  } finally {
+    const idle = relays.filter(relay => {
+      const count = (inUse.get(relay) || 1) - 1;
+      if (count > 0) {
+        inUse.set(relay, count);
+        return false;
+      }
+      inUse.delete(relay);
+      return true;
+    });
+    if (idle.length > 0) {
+      getPoolQueries(relayPool)?.close(idle);
+    }
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Utility for staging montage media in a per-job directory
+ *
+ * Clients name media by reference, never by server path:
+ * - an http(s) URL
+ * - a Blossom blob hash (64 hex chars), fetched from BLOSSOM_SERVERS
+ * - a Nostr event (`note1`, `nevent`) whose `imeta` tags (or NIP-94 `url` tag)
+ *   list the files
+ *
+ * Each file is downloaded through the media pipeline (private addresses refused,
+ * size and time capped), its type is sniffed from its content and, when a hash
+ * is known (Blossom, imeta `x`), checked against it. Accepted files are written
+ * under MONTAGE_STAGING_DIR/<job> with server-chosen names; the directory is
+ * what the trigger API receives. Directories older than
+ * MONTAGE_STAGING_RETENTION_HOURS are removed when the next job is staged.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { SimpleRelayPool } from '@contextvm/sdk';
+import { dataFilePath } from './jsonStore.util.js';
+import { fetchMedia, mediaAttachments, sniffMediaMime } from './media.util.js';
+import { blobHashFromUrl, blobUrl, blossomServers, isBlobHash, sha256Hex } from './blossom.util.js';
+import { fetchEventById, parseEventReference } from './thread.util.js';
+
+/**
+ * A media argument as given by the client
+ */
+export type MediaReference =
+  | { type: 'url'; value: string; url: string }
+  | { type: 'blob'; value: string; sha256: string }
+  | { type: 'event'; value: string; id: string; relays: string[] };
+
+/**
+ * A file written to the staging directory
+ */
+export interface StagedFile {
+  /** Reference it came from */
+  source: string;
+  /** URL it was downloaded from */
+  url: string;
+  /** File name inside the staging directory */
+  name: string;
+  mime: string;
+  bytes: number;
+  sha256: string;
+}
+
+/**
+ * A reference (or one of an event's attachments) that was not staged
+ */
+export interface SkippedMedia {
+  source: string;
+  url?: string;
+  reason: string;
+}
+
+export interface StagedMedia {
+  /** Absolute path of the job's staging directory */
+  dir: string;
+  files: StagedFile[];
+  skipped: SkippedMedia[];
+  /** Total bytes staged */
+  bytes: number;
+}
+
+export interface StagingLimits {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface StagingOptions {
+  /** Names the staging directory (the background job id, else a random id) */
+  jobKey?: string;
+  /** Called after each file is staged or skipped */
+  onProgress?: (done: number, total: number, message: string) => Promise<void> | void;
+  /** Stops staging (and removes the directory) when aborted */
+  signal?: AbortSignal;
+  /** Defaults to stagingLimits() */
+  limits?: StagingLimits;
+}
+
+/** Types the montage pipeline can cut together */
+const MONTAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg'
+};
+
+interface Candidate {
+  source: string;
+  /** Where the file can be downloaded, tried in order */
+  urls: string[];
+  sha256?: string;
+}
+
+/**
+ * Parses a media argument
+ * @param value URL, Blossom hash, note1 or nevent (a `nostr:` prefix is allowed)
+ * @returns Media reference
+ * @throws Error if the value is none of these
+ */
+export function parseMediaReference(value: string): MediaReference {
+  const trimmed = value.trim();
+  if (/^https?:\/\//i.test(trimmed)) {
+    try {
+      new URL(trimmed);
+      return { type: 'url', value: trimmed, url: trimmed };
+    } catch {
+      throw new Error(`Invalid URL: ${trimmed}`);
+    }
+  }
+  // A bare 64-char hex value is a blob hash; events are given as note1/nevent
+  if (isBlobHash(trimmed)) {
+    return { type: 'blob', value: trimmed, sha256: trimmed.toLowerCase() };
+  }
+  const event = /^(nostr:)?(note1|nevent1)/i.test(trimmed) ? parseEventReference(trimmed) : undefined;
+  if (event) {
+    return { type: 'event', value: trimmed, id: event.id, relays: event.relays };
+  }
+  throw new Error(`Not a media URL, Blossom hash, note1 or nevent: ${trimmed.substring(0, 80)}`);
+}
+
+/**
+ * Staging limits from the environment
+ * @param env Environment (default process.env)
+ * @returns MONTAGE_MAX_FILES (default 20), MONTAGE_MAX_FILE_BYTES (default 50 MB), MONTAGE_MAX_TOTAL_BYTES (default 200 MB)
+ */
+export function stagingLimits(env: NodeJS.ProcessEnv = process.env): StagingLimits {
+  return {
+    maxFiles: parseInt(env.MONTAGE_MAX_FILES || '20', 10),
+    maxFileBytes: parseInt(env.MONTAGE_MAX_FILE_BYTES || String(50 * 1024 * 1024), 10),
+    maxTotalBytes: parseInt(env.MONTAGE_MAX_TOTAL_BYTES || String(200 * 1024 * 1024), 10)
+  };
+}
+
+/**
+ * Root directory for staging directories
+ * @returns Absolute path (MONTAGE_STAGING_DIR, default data/montage)
+ */
+export function stagingRoot(): string {
+  return path.resolve(process.env.MONTAGE_STAGING_DIR || dataFilePath('montage'));
+}
+
+/**
+ * Removes a staging directory
+ * @param dir Directory returned by stageMedia
+ */
+export async function removeStagingDir(dir: string): Promise<void> {
+  // Never remove anything outside the staging root
+  if (path.dirname(path.resolve(dir)) !== stagingRoot()) return;
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+/**
+ * Removes staging directories older than MONTAGE_STAGING_RETENTION_HOURS (default 24)
+ */
+async function pruneStagingDirs(root: string): Promise<void> {
+  const retentionMs = parseFloat(process.env.MONTAGE_STAGING_RETENTION_HOURS || '24') * 60 * 60 * 1000;
+  const entries = await fs.readdir(root, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const dir = path.join(root, entry.name);
+    const stat = await fs.stat(dir).catch(() => undefined);
+    if (stat && Date.now() - stat.mtimeMs > retentionMs) {
+      await fs.rm(dir, { recursive: true, force: true });
+      console.log(`🧹 Removed expired staging directory ${entry.name}`);
+    }
+  }
+}
+
+/**
+ * Expands references into downloadable files
+ */
+async function resolveCandidates(relayPool: SimpleRelayPool, references: MediaReference[], skipped: SkippedMedia[]): Promise<Candidate[]> {
+  const candidates: Candidate[] = [];
+  for (const reference of references) {
+    if (reference.type === 'url') {
+      candidates.push({ source: reference.value, urls: [reference.url], sha256: blobHashFromUrl(reference.url) });
+    } else if (reference.type === 'blob') {
+      const servers = blossomServers();
+      if (servers.length === 0) {
+        skipped.push({ source: reference.value, reason: 'no Blossom servers configured (BLOSSOM_SERVERS)' });
+        continue;
+      }
+      candidates.push({ source: reference.value, urls: servers.map(server => blobUrl(server, reference.sha256)), sha256: reference.sha256 });
+    } else {
+      const event = await fetchEventById(relayPool, reference.id, reference.relays).catch(() => undefined);
+      if (!event) {
+        skipped.push({ source: reference.value, reason: 'event not found on relays' });
+        continue;
+      }
+      const attachments = mediaAttachments(event);
+      if (attachments.length === 0) {
+        skipped.push({ source: reference.value, reason: 'event has no imeta media' });
+        continue;
+      }
+      attachments.forEach(attachment => candidates.push({
+        source: reference.value,
+        urls: [attachment.url],
+        sha256: attachment.sha256 ?? blobHashFromUrl(attachment.url)
+      }));
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Downloads and validates media into a fresh staging directory
+ * @param relayPool Relay pool, for event references
+ * @param references Parsed media references
+ * @param options Job key, progress callback, cancellation and limits
+ * @returns Promise with the staging directory, the files staged and what was skipped
+ * @throws Error if nothing could be staged, or if staging was cancelled
+ */
+export async function stageMedia(
+  relayPool: SimpleRelayPool,
+  references: MediaReference[],
+  options: StagingOptions = {}
+): Promise<StagedMedia> {
+  const limits = options.limits ?? stagingLimits();
+  const timeoutMs = parseInt(process.env.MONTAGE_DOWNLOAD_TIMEOUT_MS || '60000', 10);
+  const jobKey = options.jobKey ?? randomUUID();
+  if (!/^[A-Za-z0-9_-]{1,64}$/.test(jobKey)) {
+    throw new Error(`Invalid staging key: ${jobKey}`);
+  }
+
+  const root = stagingRoot();
+  await fs.mkdir(root, { recursive: true });
+  await pruneStagingDirs(root);
+  const dir = path.join(root, jobKey);
+  // A resumed job starts over with an empty directory
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(dir, { mode: 0o700 });
+
+  console.log(`📦 Staging ${references.length} media reference(s) in ${dir}`);
+
+  const skipped: SkippedMedia[] = [];
+  const files: StagedFile[] = [];
+  let bytes = 0;
+
+  try {
+    const candidates = await resolveCandidates(relayPool, references, skipped);
+
+    for (const [index, candidate] of candidates.entries()) {
+      if (options.signal?.aborted) {
+        throw new Error('Staging cancelled');
+      }
+      const remaining = limits.maxTotalBytes - bytes;
+      if (files.length >= limits.maxFiles) {
+        skipped.push({ source: candidate.source, url: candidate.urls[0], reason: `file limit reached (${limits.maxFiles})` });
+      } else if (remaining <= 0) {
+        skipped.push({ source: candidate.source, url: candidate.urls[0], reason: `size limit reached (${limits.maxTotalBytes} bytes)` });
+      } else {
+        const errors: string[] = [];
+        let staged = false;
+        for (const url of candidate.urls) {
+          try {
+            const data = await fetchMedia(url, { maxBytes: Math.min(limits.maxFileBytes, remaining), timeoutMs });
+            const sha256 = sha256Hex(data);
+            if (candidate.sha256 && candidate.sha256 !== sha256) {
+              throw new Error(`content hash ${sha256.substring(0, 12)}... does not match ${candidate.sha256.substring(0, 12)}...`);
+            }
+            const mime = sniffMediaMime(data);
+            if (!mime || !MONTAGE_TYPES[mime]) {
+              throw new Error(mime ? `unsupported type ${mime}` : 'not an image, video or audio file');
+            }
+            if (files.some(file => file.sha256 === sha256)) {
+              throw new Error('duplicate of a file already staged');
+            }
+            const name = `${String(files.length + 1).padStart(2, '0')}-${sha256.substring(0, 12)}.${MONTAGE_TYPES[mime]}`;
+            await fs.writeFile(path.join(dir, name), data, { flag: 'wx', mode: 0o600 });
+            files.push({ source: candidate.source, url, name, mime, bytes: data.length, sha256 });
+            bytes += data.length;
+            console.log(`   ✅ Staged ${name} (${mime}, ${data.length} bytes) from ${url}`);
+            staged = true;
+            break;
+          } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+          }
+        }
+        if (!staged) {
+          const reason = [...new Set(errors)].join('; ');
+          skipped.push({ source: candidate.source, url: candidate.urls[0], reason });
+          console.log(`   ❌ Skipped ${candidate.urls[0]} (${reason})`);
+        }
+      }
+      await options.onProgress?.(index + 1, candidates.length, `Staged ${files.length} of ${candidates.length} file(s)`);
+    }
+
+    if (files.length === 0) {
+      const reasons = skipped.map(item => `${item.url || item.source}: ${item.reason}`).join('\n');
+      throw new Error(`No media could be staged:\n${reasons}`);
+    }
+  } catch (error) {
+    await fs.rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  console.log(`📦 Staged ${files.length} file(s), ${bytes} bytes; skipped ${skipped.length}`);
+  return { dir, files, skipped, bytes };
+}
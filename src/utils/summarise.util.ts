@@ -1,15 +1,24 @@
 /**
- * Utility function for generating humorous day summaries and posting to Nostr
+ * Utility function for generating persona notes (day summaries, weekly raps,
+ * roasts) and posting them to Nostr
  * 
- * This utility creates humorous summaries using OpenRouter API and publishes
- * them as Kind 1 Nostr events using the server's private key
+ * This utility generates text using the configured LLM provider with the
+ * persona's system prompt, and publishes it as a Kind 1 Nostr event signed
+ * with the persona's key (see src/personas and personas.json)
  */
 
-import { callOpenRouterAgent } from './callAgent.util.js';
-import { PrivateKeySigner } from '@contextvm/sdk';
+import type { LLMSelection, MessageContent } from '../llm/index.js';
 import { SimpleRelayPool } from '@contextvm/sdk';
-import { finalizeEvent, getPublicKey } from 'nostr-tools';
-import { mineEventPow } from './pow.util.js';
+import { finalizeEvent } from 'nostr-tools';
+import { mineEventPow, powCapForTool, type PowOptions } from './pow.util.js';
+import { planRelayPow } from './nip11.util.js';
+import { getPoolRelayUrls, publishWithReceipts, type PublishReport, type QuorumPolicy, type RelayReceipt } from './publish.util.js';
+import { renderPersonaContent, type PersonaForTool } from '../personas/index.js';
+import { mentionFor, replyTags, type ReplyTarget } from './thread.util.js';
+import type { EventDumpResult } from './ingest.util.js';
+import { articleSummary, buildPersonaArticle, LONG_FORM_KIND, renderArticleContent, type ArticleOptions } from './article.util.js';
+import type { ModerationOutcome, Moderator } from '../moderation/index.js';
+import { extractImageUrls, removeImageUrlsFromText, shouldInlineImages, validateImageUrls } from './media.util.js';
 
 /**
  * Interface for the summarise result
@@ -19,220 +28,341 @@ export interface SummaryResult {
   nostrEventId: string;
   published: boolean;
   error?: string;
+  /** Persona the note was generated and signed as */
+  persona?: string;
+  /** Per-relay OK/rejection results */
+  relays: RelayReceipt[];
+  /** Relays that accepted vs. the quorum required */
+  quorum: { accepted: number; required: number; total: number };
+  /** The unsigned note, when generated in draft mode (publish = false) or held by moderation */
+  draft?: NoteTemplate;
+  /** Content moderation decision, when a moderator checked the note */
+  moderation?: Omit<ModerationOutcome, 'text'>;
+  /** PoW difficulty the published note was mined to */
+  powDifficulty?: number;
 }
 
 /**
- * Creates a weekly rap and posts it as a Kind 1 Nostr event
+ * An unsigned persona note: everything but created_at, the PoW nonce and the
+ * signature, which are added when it is published
+ */
+export interface NoteTemplate {
+  kind: number;
+  /** Persona pubkey the note will be signed with */
+  pubkey: string;
+  tags: string[][];
+  content: string;
+}
+
+/**
+ * Mining options for publishing, plus a hook for the signed event
+ */
+export interface PublishOptions extends PowOptions {
+  /** Called with the final event id just before it is sent to relays */
+  onPublishing?: (eventId: string) => Promise<void>;
+}
+
+/**
+ * How a note refers to its subject and to the note it replies to
+ */
+export interface NoteReferences {
+  /** Relay hints for the subject (nprofile mention and `p` tag) */
+  subjectRelays?: string[];
+  /** Note to reply to (NIP-10) */
+  replyTo?: ReplyTarget;
+}
+
+/**
+ * Builds a failed publish report for errors raised before any relay was contacted
+ * @param error The error that stopped publication
+ * @returns PublishReport with no receipts
+ */
+function failedPublishReport(error: unknown): PublishReport {
+  return {
+    eventId: '',
+    success: false,
+    accepted: 0,
+    required: 0,
+    total: 0,
+    receipts: [],
+    error: error instanceof Error ? error.message : 'Unknown error'
+  };
+}
+
+/**
+ * Creates a weekly rap and posts it as a Kind 1 Nostr event, or as a NIP-23
+ * long-form article (kind 30023) when `article` is given
  * @param weeklyContent The input describing the week's activities
- * @param openRouterApiToken OpenRouter API token
- * @param serverPrivateKey Server's private key for signing Nostr events
+ * @param subjectPubkey Hex pubkey of the person the rap is about
+ * @param persona Persona resolved for weekly_summary
+ * @param llm LLM provider selection for the tool
  * @param relayPool Relay pool for publishing events
+ * @param powDifficulty PoW difficulty for mining
+ * @param quorum Publish quorum policy (default from PUBLISH_QUORUM)
+ * @param mining PoW cancellation signal, progress callback and publishing hook
+ * @param publish false to return the unsigned note as a draft instead of publishing
+ * @param moderator Pre-publish content checks (regenerate, hold as draft or reject flagged text)
+ * @param references Subject relay hints and the note to reply to (replies are kind 1 only)
+ * @param article Article identifier, title and original publication time
  * @returns Promise with rap and publication results
  */
 export async function createAndPublishWeeklyRap(
   weeklyContent: string,
   subjectPubkey: string,
-  openRouterApiToken: string,
-  serverPrivateKey: string,
+  persona: PersonaForTool,
+  llm: LLMSelection,
   relayPool: SimpleRelayPool,
-  powDifficulty: number = 0
+  powDifficulty: number = 0,
+  quorum?: QuorumPolicy,
+  mining: PublishOptions = {},
+  publish: boolean = true,
+  moderator?: Moderator,
+  references: NoteReferences = {},
+  article?: ArticleOptions
 ): Promise<SummaryResult> {
-  console.log('🎵 Creating weekly Craig David rap...');
-  console.log(`   Subject pubkey: ${subjectPubkey}`);
-  console.log(`   Input preview: ${weeklyContent.substring(0, 100)}...`);
-
-  try {
-    // Step 1: Generate weekly rap using OpenRouter
-    const weeklyRap = await generateWeeklyRap(weeklyContent, openRouterApiToken);
-    
-    // Step 2: Publish to Nostr as Kind 1 event
-    const publicationResult = await publishWeeklyRapToNostr(
-      weeklyRap,
-      subjectPubkey,
-      serverPrivateKey, 
-      relayPool,
-      powDifficulty
-    );
-
-    return {
-      summary: weeklyRap,
-      nostrEventId: publicationResult.eventId,
-      published: publicationResult.success,
-      error: publicationResult.error
-    };
-  } catch (error) {
-    console.error('❌ Error in createAndPublishWeeklyRap:', error);
-    
-    return {
-      summary: '',
-      nostrEventId: '',
-      published: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
+  console.log(`🎵 Creating weekly ${persona.displayName} rap${article ? ` (article ${article.identifier})` : ''}...`);
+  const subjectRelays = references.subjectRelays || [];
+  const buildNote = article
+    ? (text: string) => buildPersonaArticle(text, subjectPubkey, persona, article, mentionFor(subjectPubkey, subjectRelays), subjectRelays)
+    : (text: string) => buildPersonaNote(text, subjectPubkey, persona, [], references);
+  return createAndPublishPersonaNote(weeklyContent, subjectPubkey, persona, llm, relayPool, powDifficulty, quorum, buildNote, mining, publish, moderator);
 }
 
 /**
  * Creates a humorous summary and posts it as a Kind 1 Nostr event
  * @param dayInput The input describing what the person has been up to
- * @param openRouterApiToken OpenRouter API token
- * @param serverPrivateKey Server's private key for signing Nostr events
+ * @param subjectPubkey Hex pubkey of the person whose day is summarised
+ * @param persona Persona resolved for summarise
+ * @param llm LLM provider selection for the tool
  * @param relayPool Relay pool for publishing events
+ * @param powDifficulty PoW difficulty for mining
+ * @param quorum Publish quorum policy (default from PUBLISH_QUORUM)
+ * @param mining PoW cancellation signal, progress callback and publishing hook
+ * @param publish false to return the unsigned note as a draft instead of publishing
+ * @param moderator Pre-publish content checks (regenerate, hold as draft or reject flagged text)
+ * @param references Subject relay hints and the note to reply to
+ * @param day Images and day from a structured event dump, or the day of a relay window
+ *   (instead of scraping dayInput)
  * @returns Promise with summary and publication results
  */
 export async function createAndPublishSummary(
   dayInput: string,
   subjectPubkey: string,
-  openRouterApiToken: string,
-  serverPrivateKey: string,
+  persona: PersonaForTool,
+  llm: LLMSelection,
   relayPool: SimpleRelayPool,
-  powDifficulty: number = 0
+  powDifficulty: number = 0,
+  quorum?: QuorumPolicy,
+  mining: PublishOptions = {},
+  publish: boolean = true,
+  moderator?: Moderator,
+  references: NoteReferences = {},
+  day?: Partial<Pick<EventDumpResult, 'images' | 'date'>>
 ): Promise<SummaryResult> {
   console.log('📝 Creating humorous day summary...');
-  console.log(`   Subject pubkey: ${subjectPubkey}`);
-  console.log(`   Input preview: ${dayInput.substring(0, 100)}...`);
 
-  try {
-    // Step 1: Generate humorous summary using OpenRouter
-    const summary = await generateHumorousSummary(dayInput, openRouterApiToken);
-    
-    // Step 2: Publish to Nostr as Kind 1 event
-    const publicationResult = await publishSummaryToNostr(
-      summary,
-      subjectPubkey,
-      serverPrivateKey, 
-      relayPool,
-      powDifficulty,
-      dayInput
-    );
+  // Add date tag: from the events or the relay window, or if the input text carries one
+  const dateStr = day?.date ?? extractDayDate(dayInput);
+  const extraTags: string[][] = dateStr ? [['date', dateStr]] : [];
 
-    return {
-      summary,
-      nostrEventId: publicationResult.eventId,
-      published: publicationResult.success,
-      error: publicationResult.error
-    };
-  } catch (error) {
-    console.error('❌ Error in createAndPublishSummary:', error);
-    
-    return {
-      summary: '',
-      nostrEventId: '',
-      published: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
+  const buildNote = (text: string) => buildPersonaNote(text, subjectPubkey, persona, extraTags, references);
+  return createAndPublishPersonaNote(dayInput, subjectPubkey, persona, llm, relayPool, powDifficulty, quorum, buildNote, mining, publish, moderator, day?.images);
 }
 
 /**
- * Creates and publishes a roast using OpenRouter API
+ * Creates and publishes a roast using the configured LLM
  * @param socialPosts Input social media posts to roast
  * @param subjectPubkey Hex pubkey of person being roasted
- * @param openRouterApiToken OpenRouter API token
- * @param roastPrivateKey Private key for roast account
+ * @param persona Persona resolved for roastNpub
+ * @param llm LLM provider selection for the tool
  * @param relayPool Relay pool for publishing events
  * @param powDifficulty PoW difficulty for mining
+ * @param quorum Publish quorum policy (default from PUBLISH_QUORUM)
+ * @param mining PoW cancellation signal, progress callback and publishing hook
+ * @param publish false to return the unsigned note as a draft instead of publishing
+ * @param moderator Pre-publish content checks (regenerate, hold as draft or reject flagged text)
+ * @param references Subject relay hints and the note to reply to
  * @returns Promise with roast and publication results
  */
 export async function createAndPublishRoast(
   socialPosts: string,
   subjectPubkey: string,
-  openRouterApiToken: string,
-  roastPrivateKey: string,
+  persona: PersonaForTool,
+  llm: LLMSelection,
   relayPool: SimpleRelayPool,
-  powDifficulty: number = 0
+  powDifficulty: number = 0,
+  quorum?: QuorumPolicy,
+  mining: PublishOptions = {},
+  publish: boolean = true,
+  moderator?: Moderator,
+  references: NoteReferences = {}
 ): Promise<SummaryResult> {
   console.log('🔥 Creating witty roast...');
+  const buildNote = (text: string) => buildPersonaNote(text, subjectPubkey, persona, [], references);
+  return createAndPublishPersonaNote(socialPosts, subjectPubkey, persona, llm, relayPool, powDifficulty, quorum, buildNote, mining, publish, moderator);
+}
+
+/**
+ * Generates text with the persona's prompt and publishes it as the persona
+ */
+async function createAndPublishPersonaNote(
+  input: string,
+  subjectPubkey: string,
+  persona: PersonaForTool,
+  llm: LLMSelection,
+  relayPool: SimpleRelayPool,
+  powDifficulty: number,
+  quorum: QuorumPolicy | undefined,
+  buildNote: (text: string) => NoteTemplate,
+  mining: PublishOptions = {},
+  publish: boolean = true,
+  moderator?: Moderator,
+  images: string[] = []
+): Promise<SummaryResult> {
+  console.log(`   Persona: ${persona.id} (${persona.displayName})`);
   console.log(`   Subject pubkey: ${subjectPubkey}`);
-  console.log(`   Input preview: ${socialPosts.substring(0, 100)}...`);
+  console.log(`   Input preview: ${input.substring(0, 100)}...`);
 
   try {
-    // Step 1: Generate roast using OpenRouter
-    const roast = await generateRoast(socialPosts, openRouterApiToken);
-    
+    // Step 1: Generate text using the configured LLM and the persona's prompt;
+    // the moderator regenerates, holds or rejects flagged text
+    const review = moderator
+      ? await moderator.review(persona.tool, () => generateWithPersona(input, persona, llm, images), { persona: persona.id, subjectPubkey })
+      : undefined;
+    const text = review ? review.text : await generateWithPersona(input, persona, llm, images);
+    const moderation = review ? { decision: review.decision, reasons: review.reasons, attempts: review.attempts } : undefined;
+
+    if (review?.decision === 'rejected') {
+      return {
+        summary: '',
+        nostrEventId: '',
+        published: false,
+        error: `Rejected by content moderation: ${review.reasons.join('; ')}`,
+        persona: persona.id,
+        relays: [],
+        quorum: { accepted: 0, required: 0, total: 0 },
+        moderation
+      };
+    }
+
+    const note = buildNote(text);
+
+    // Draft mode (or flagged by moderation): hand the unsigned note back for review instead of publishing
+    if (!publish || review?.decision === 'draft') {
+      console.log(`📝 Draft ${persona.tool} note generated; not publishing`);
+      return {
+        summary: text,
+        nostrEventId: '',
+        published: false,
+        persona: persona.id,
+        relays: [],
+        quorum: { accepted: 0, required: 0, total: 0 },
+        draft: note,
+        ...(moderation ? { moderation } : {})
+      };
+    }
+
     // Step 2: Publish to Nostr as Kind 1 event
-    const publicationResult = await publishRoastToNostr(
-      roast,
-      subjectPubkey,
-      roastPrivateKey, 
+    const publicationResult = await publishPersonaNote(
+      note,
+      persona,
       relayPool,
-      powDifficulty
+      powDifficulty,
+      quorum,
+      mining
     );
 
     return {
-      summary: roast,
+      summary: text,
       nostrEventId: publicationResult.eventId,
       published: publicationResult.success,
-      error: publicationResult.error
+      error: publicationResult.error,
+      persona: persona.id,
+      relays: publicationResult.receipts,
+      quorum: {
+        accepted: publicationResult.accepted,
+        required: publicationResult.required,
+        total: publicationResult.total
+      },
+      powDifficulty: publicationResult.powDifficulty,
+      ...(moderation ? { moderation } : {})
     };
   } catch (error) {
-    console.error('❌ Error in createAndPublishRoast:', error);
+    console.error(`❌ Error creating ${persona.tool} note:`, error);
     
     return {
       summary: '',
       nostrEventId: '',
       published: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
+      error: error instanceof Error ? error.message : 'Unknown error',
+      persona: persona.id,
+      relays: [],
+      quorum: { accepted: 0, required: 0, total: 0 }
     };
-  };
+  }
 }
 
 /**
- * Generates a humorous summary using OpenRouter API
- * @param dayInput The day description input
- * @param apiToken OpenRouter API token
- * @returns Promise with generated summary
+ * Generates text using the persona's system prompt for the tool
+ * @param input The user input (may contain image URLs)
+ * @param persona Persona resolved for the tool
+ * @param llm LLM provider selection
+ * @param images Image URLs supplied alongside the input
+ * @returns Promise with generated text
  */
-async function generateHumorousSummary(
-  dayInput: string,
-  apiToken: string
+async function generateWithPersona(
+  input: string,
+  persona: PersonaForTool,
+  llm: LLMSelection,
+  images: string[] = []
 ): Promise<string> {
-  console.log('🤖 Generating humorous summary with AI...');
+  console.log(`🤖 Generating ${persona.tool} as ${persona.displayName} with AI...`);
   
-  // Create a modified version of callOpenRouterAgent specifically for summaries
-  const summaryPrompt = `Please review the input and provide a humorous summary of what this person has been up to on this day: ${dayInput}`;
-  
-  // We need to temporarily override the system prompt in the API call
-  // Since callOpenRouterAgent has a hardcoded system prompt, we'll create a custom version
-  return await callOpenRouterAgentWithCustomPrompt(
-    dayInput,
-    "Please review the input and provide a humorous summary of what this person has been up to on this day",
-    apiToken
+  return await callAgentWithCustomPrompt(
+    input,
+    persona.systemPrompt,
+    llm,
+    persona.modelFor(llm.provider.name),
+    images
   );
 }
 
 /**
- * Custom version of callOpenRouterAgent with configurable system prompt and model
+ * Calls the configured LLM with a custom system prompt (images in the input are sent as image content)
+ * A per-tool LLM_MODEL_<TOOL> override wins over the persona's model.
  */
-async function callOpenRouterAgentWithCustomPrompt(
+async function callAgentWithCustomPrompt(
   userInput: string,
   systemPrompt: string,
-  apiToken: string,
-  modelOverride?: string
+  llm: LLMSelection,
+  modelOverride?: string,
+  images: string[] = []
 ): Promise<string> {
-  const axios = require('axios');
-  
-  // Extract image URLs and process them (reuse logic from callAgent.util.ts)
-  const detectedImageUrls = extractImageUrls(userInput);
+  // Image URLs in the input, plus any supplied separately (e.g. from imeta tags)
+  const detectedImageUrls = [...new Set([...extractImageUrls(userInput), ...images])];
   let validImageUrls: string[] = [];
 
   // Validate images if any were found
   if (detectedImageUrls.length > 0) {
-    const validation = await validateImageUrls(detectedImageUrls);
+    const validation = await validateImageUrls(detectedImageUrls, { inline: shouldInlineImages(llm) });
     validImageUrls = validation.validUrls;
   }
 
   const textOnly = removeImageUrlsFromText(userInput, detectedImageUrls);
-  const model = modelOverride || (validImageUrls.length > 0 ? 'google/gemini-2.0-flash-001' : 'openai/gpt-oss-120b');
+  const model = llm.provider.resolveModel({
+    tool: llm.tool,
+    hasImages: validImageUrls.length > 0,
+    override: llm.model ?? modelOverride
+  });
   
-  console.log(`🚀 Calling OpenRouter API for summary`);
+  console.log(`🚀 Calling ${llm.provider.name} for ${llm.tool}`);
   console.log(`   Model: ${model}`);
   console.log(`   System Prompt: ${systemPrompt}`);
   console.log(`   Valid Images: ${validImageUrls.length}/${detectedImageUrls.length}`);
 
   try {
     // Build content array
-    const messageContent: any[] = [];
+    const messageContent: MessageContent[] = [];
     
     if (textOnly) {
       messageContent.push({
@@ -255,8 +385,8 @@ async function callOpenRouterAgentWithCustomPrompt(
       });
     }
 
-    const requestPayload: any = {
-      model: model,
+    const result = await llm.provider.complete({
+      model,
       messages: [
         {
           role: 'system',
@@ -269,492 +399,204 @@ async function callOpenRouterAgentWithCustomPrompt(
             : messageContent
         }
       ]
-    };
-
-    if (model === 'openai/gpt-oss-120b') {
-      requestPayload.provider = { order: ['Groq'] };
-    } else if (model === 'x-ai/grok-2-1212') {
-      // Grok model specific configuration if needed
-      requestPayload.provider = { order: ['x-ai'] };
-    }
-
-    const response = await axios.post(
-      'https://openrouter.ai/api/v1/chat/completions',
-      requestPayload,
-      {
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://cvm-nostr-server',
-          'X-Title': 'CVM Nostr Server - Summary'
-        }
-      }
-    );
-
-    const responseContent = response.data.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error('No content received from OpenRouter API');
-    }
+    });
 
     console.log('✅ Summary generated successfully');
-    return responseContent;
+    return result.content;
   } catch (error) {
-    console.error('❌ Error calling OpenRouter for summary:', error);
+    console.error(`❌ Error calling ${llm.provider.name} for ${llm.tool}:`, error);
     throw error;
   }
 }
 
 /**
- * Publishes summary to Nostr as Kind 1 event
- * @param summary The generated summary text
- * @param privateKeyHex Server's private key in hex format
- * @param relayPool Relay pool for publishing
- * @param dayInput Original day input to extract metadata
- * @returns Promise with publication result
+ * Extracts the day from a summarise input
+ * (format: "...(day 250913):..." or "...(day 2024-09-18):...")
+ * @param dayInput Original day input
+ * @returns Date as YYYY-MM-DD, if present
  */
-async function publishSummaryToNostr(
-  summary: string,
-  subjectPubkey: string,
-  privateKeyHex: string,
-  relayPool: SimpleRelayPool,
-  powDifficulty: number = 0,
-  dayInput?: string
-): Promise<{ success: boolean; eventId: string; error?: string }> {
-  console.log('📡 Publishing summary to Nostr...');
-  console.log(`   Subject pubkey: ${subjectPubkey}`);
-  
-  try {
-    // Create signer from private key
-    const signer = new PrivateKeySigner(privateKeyHex);
-    const pubkey = await signer.getPublicKey();
-    
-    console.log(`   Publishing from: ${pubkey} 🎵`);
-    console.log(`   Summary length: ${summary.length} characters`);
-
-    // Use the passed subjectPubkey directly
-    const targetPubkey = subjectPubkey;
-    let dateStr: string | undefined;
-    
-    if (dayInput) {
-      // No longer extract npub - we get it directly as subjectPubkey parameter
-      
-      // Extract date from the input (format: "...(day 250913):..." or "...(day 2024-09-18):...")
-      const dateMatch = dayInput.match(/\(day ([0-9-]+)\)/);
-      if (dateMatch && dateMatch[1]) {
-        // Convert YYMMDD to YYYY-MM-DD if needed
-        const rawDate = dateMatch[1].replace('-events.json', '');
-        if (rawDate.length === 6 && !rawDate.includes('-')) {
-          // Format: YYMMDD -> 20YY-MM-DD
-          const year = '20' + rawDate.substring(0, 2);
-          const month = rawDate.substring(2, 4);
-          const day = rawDate.substring(4, 6);
-          dateStr = `${year}-${month}-${day}`;
-        } else if (rawDate.includes('-')) {
-          // Already in YYYY-MM-DD format
-          dateStr = rawDate;
-        } else {
-          // Try to use as-is
-          dateStr = rawDate;
-        }
-        console.log(`   Date extracted: ${dateStr}`);
-      }
-    }
-
-    // Build tags array
-    const tags: Array<[string, ...string[]]> = [
-      ['client', 'Craig David'],
-      ['t', 'daily-summary'],
-      ['t', 'humor']
-    ];
-    
-    // Add p tag if we have the target pubkey
-    if (targetPubkey) {
-      tags.push(['p', targetPubkey]);
-    }
-    
-    // Add date tag if we have the date
-    if (dateStr) {
-      tags.push(['date', dateStr]);
-    }
-
-    // Create Kind 1 event (text note)
-    const eventTemplate = {
-      kind: 1,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: tags,
-      content: `📅 Daily Summary by Craig David\n\n${summary}\n\n#dailysummary #humor #craigdavid`,
-      pubkey: pubkey
-    };
-
-    // Sign the event
-    const secretKey = Buffer.from(privateKeyHex, 'hex');
-    let signedEvent = finalizeEvent(eventTemplate, secretKey);
-    
-    console.log(`   Event ID: ${signedEvent.id}`);
-
-    // Apply Proof of Work if difficulty is specified
-    if (powDifficulty > 0) {
-      console.log(`   ⛏️  Mining PoW with difficulty ${powDifficulty}...`);
-      try {
-        const minedEvent = await mineEventPow(signedEvent, powDifficulty);
-        
-        // Re-sign the mined event since we added the nonce tag
-        const minedEventTemplate = {
-          kind: minedEvent.kind,
-          created_at: minedEvent.created_at,
-          tags: minedEvent.tags,
-          content: minedEvent.content,
-          pubkey: minedEvent.pubkey
-        };
-        
-        signedEvent = finalizeEvent(minedEventTemplate, secretKey);
-        console.log(`   ✅ PoW mining completed! New Event ID: ${signedEvent.id}`);
-      } catch (error) {
-        console.warn(`   ⚠️  PoW mining failed, publishing without PoW:`, error);
-        // Continue with original event if PoW fails
-      }
-    }
+function extractDayDate(dayInput: string): string | undefined {
+  const dateMatch = dayInput.match(/\(day ([0-9-]+)\)/);
+  if (!dateMatch || !dateMatch[1]) {
+    return undefined;
+  }
 
-    // Publish to relays using the relay pool's publish method
-    try {
-      console.log(`   📡 Publishing to ${relayPool['normalizedRelayUrls']?.length || 'unknown'} relays...`);
-      
-      const publishPromises = await relayPool.publish(signedEvent);
-      
-      // The SimpleRelayPool.publish() method returns Promise.all() results
-      // Most relay pools handle individual relay failures gracefully
-      console.log(`   ✅ Published to relay pool successfully`);
-      
-      return {
-        success: true,
-        eventId: signedEvent.id,
-        error: undefined
-      };
-    } catch (error) {
-      // Even if some relays fail, the event might still be published to others
-      // We'll consider it a partial success if at least one relay worked
-      console.warn(`   ⚠️  Some relays may have failed during publishing:`, error);
-      console.log(`   ℹ️  Event may still be available on some relays`);
-      
-      // For better user experience, we'll report this as successful with a warning
-      // The SimpleRelayPool handles retry logic automatically
-      return {
-        success: true, // Consider partial success as success
-        eventId: signedEvent.id,
-        error: `Some relays failed: ${error instanceof Error ? error.message : 'Unknown publishing error'}`
-      };
-    }
-  } catch (error) {
-    console.error('❌ Error publishing to Nostr:', error);
-    return {
-      success: false,
-      eventId: '',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
+  // Convert YYMMDD to YYYY-MM-DD if needed
+  const rawDate = dateMatch[1].replace('-events.json', '');
+  let dateStr: string;
+  if (rawDate.length === 6 && !rawDate.includes('-')) {
+    // Format: YYMMDD -> 20YY-MM-DD
+    const year = '20' + rawDate.substring(0, 2);
+    const month = rawDate.substring(2, 4);
+    const day = rawDate.substring(4, 6);
+    dateStr = `${year}-${month}-${day}`;
+  } else {
+    // Already in YYYY-MM-DD format (or use as-is)
+    dateStr = rawDate;
   }
+  console.log(`   Date extracted: ${dateStr}`);
+  return dateStr;
 }
 
-// Helper functions (simplified versions from callAgent.util.ts)
-function extractImageUrls(text: string): string[] {
-  const imageUrlRegex = /https?:\/\/[^\s]+\.(?:jpg|jpeg|png|gif|webp|bmp)\b|https?:\/\/(?:imgur\.com|i\.imgur\.com|cdn\.discordapp\.com|media\.discordapp\.net)[^\s]+/gi;
-  return text.match(imageUrlRegex) || [];
-}
+/**
+ * Builds the unsigned Kind 1 note for generated text
+ * @param text The generated text
+ * @param subjectPubkey Hex pubkey of the person the note is about
+ * @param persona Persona (signing key, client tag, topics, content template)
+ * @param extraTags Additional tags (e.g. date)
+ * @param references Subject relay hints and the note to reply to
+ * @returns Note template
+ */
+export function buildPersonaNote(
+  text: string,
+  subjectPubkey: string,
+  persona: PersonaForTool,
+  extraTags: string[][] = [],
+  references: NoteReferences = {}
+): NoteTemplate {
+  const thread = references.replyTo ? replyTags(references.replyTo, persona.pubkey) : [];
+
+  // Build tags array (NIP-10 e tags first)
+  const tags: string[][] = [
+    ...thread.filter(tag => tag[0] === 'e'),
+    ['client', persona.clientTag],
+    ...persona.topics.map(topic => ['t', topic])
+  ];
+
+  // Add p tag for the person this note is about, with a relay hint when known
+  const subjectRelays = references.subjectRelays || [];
+  if (subjectPubkey) {
+    tags.push(subjectRelays.length > 0 ? ['p', subjectPubkey, subjectRelays[0]] : ['p', subjectPubkey]);
+  }
+  tags.push(...thread.filter(tag => tag[0] === 'p' && tag[1] !== subjectPubkey));
 
-function removeImageUrlsFromText(text: string, imageUrls: string[]): string {
-  let cleanText = text;
-  imageUrls.forEach(url => {
-    cleanText = cleanText.replace(url, '').trim();
-  });
-  return cleanText.replace(/\s+/g, ' ').trim();
-}
+  tags.push(...extraTags);
 
-async function validateImageUrls(imageUrls: string[]): Promise<{
-  validUrls: string[];
-  results: Array<{ url: string; valid: boolean; error?: string }>;
-}> {
-  // Simplified validation - just return all as valid for now
-  // In production, you'd want to implement the full validation from callAgent.util.ts
   return {
-    validUrls: imageUrls,
-    results: imageUrls.map(url => ({ url, valid: true }))
+    kind: 1,
+    pubkey: persona.pubkey,
+    tags,
+    content: renderPersonaContent(persona, text, subjectPubkey ? mentionFor(subjectPubkey, subjectRelays) : '')
   };
 }
 
 /**
- * Generates a weekly rap using OpenRouter API
- * @param weeklyContent The week description input
- * @param apiToken OpenRouter API token
- * @returns Promise with generated rap
+ * Replaces the text of a note, keeping its format, tags and subject mention
+ * @param note Note built by buildPersonaNote or buildPersonaArticle
+ * @param persona Persona the note is signed as
+ * @param text Replacement text
+ * @param subjectPubkey Hex pubkey of the person the note is about
+ * @returns Note template with the new content
  */
-async function generateWeeklyRap(
-  weeklyContent: string,
-  apiToken: string
-): Promise<string> {
-  console.log('🎤 Generating weekly rap with AI...');
-  
-  const systemPrompt = `You are Craig David, the legendary R&B artist. Create a humorous rap that follows the day-by-day structure of your famous song "7 Days" (Monday through Sunday progression). Transform the user's weekly activities into a catchy, rhythmic rap that captures the essence of your original song's flow and style.
-
-Structure your response as a rap with:
-- A day-by-day progression (Monday through Sunday)
-- Rhythmic flow similar to "7 Days" 
-- Humorous comparisons between the user's actual week and the romantic adventures of craig david
-- Feel free to "take the piss" and "roast" the user
-- The iconic "Monday, Tuesday, Wednesday, Thursday, Friday, Saturday, Sunday" structure
-- Some highlights from craigs week for comparison
-
-Craig's Wild Week in a Nutshell:Monday: Craigs strutting through the subway at 3:15 PM when he spots a total bombshell. She asks for the time; he slickly demands her name, number, and a date tomorrow at nine. Shes game—score!
-Tuesday: They hit a bar, probably sipping something fancy like Moët, and Craigs smooth-talking her into a frenzy. Sparks are flying!
-Wednesday: Things get steamy. Theyre not just making eyes anymore—theyre making love like its an Olympic sport.
-Thursday-Saturday: Its a full-on bedroom marathon. Craigs getting more action than a rom-com montage, and shes flipping it front to back like a pro.
-Sunday: They finally chill, probably binge-watching something with takeout, exhausted from their week-long love-fest.
-
-
-
-Keep it fun, family-friendly, and true to Craig David's musical style! Start with "You know what? Got something to say..." and follow the classic progression.`;
-  
-  return await callOpenRouterAgentWithCustomPrompt(
-    weeklyContent,
-    systemPrompt,
-    apiToken,
-    'x-ai/grok-4'
-  );
+export function rewritePersonaNote(note: NoteTemplate, persona: PersonaForTool, text: string, subjectPubkey: string): NoteTemplate {
+  const relay = note.tags.find(tag => tag[0] === 'p' && tag[1] === subjectPubkey)?.[2];
+  const mention = mentionFor(subjectPubkey, relay ? [relay] : []);
+  if (note.kind === LONG_FORM_KIND) {
+    return {
+      ...note,
+      tags: note.tags.map(tag => tag[0] === 'summary' ? ['summary', articleSummary(text)] : tag),
+      content: renderArticleContent(text, mention)
+    };
+  }
+  return { ...note, content: renderPersonaContent(persona, text, mention) };
 }
 
 /**
- * Publishes weekly rap to Nostr as Kind 1 event
- * @param weeklyRap The generated rap text
- * @param privateKeyHex Server's private key in hex format
+ * Signs and publishes a persona note to Nostr
+ * @param note Unsigned note (see buildPersonaNote)
+ * @param persona Persona whose key signs the note
  * @param relayPool Relay pool for publishing
- * @returns Promise with publication result
+ * @param powDifficulty Minimum PoW difficulty (raised to what the relays require)
+ * @param quorum Publish quorum policy
+ * @param mining PoW cancellation signal, progress callback and publishing hook
+ * @returns Promise with per-relay publication report
  */
-async function publishWeeklyRapToNostr(
-  weeklyRap: string,
-  subjectPubkey: string,
-  privateKeyHex: string,
+export async function publishPersonaNote(
+  note: NoteTemplate,
+  persona: PersonaForTool,
   relayPool: SimpleRelayPool,
-  powDifficulty: number = 0
-): Promise<{ success: boolean; eventId: string; error?: string }> {
-  console.log('📡 Publishing weekly rap to Nostr...');
-  console.log(`   Subject pubkey: ${subjectPubkey}`);
-  
+  powDifficulty: number = 0,
+  quorum?: QuorumPolicy,
+  mining: PublishOptions = {}
+): Promise<PublishReport> {
+  console.log(`📡 Publishing ${persona.tool} note to Nostr...`);
+
   try {
-    // Create signer from private key
-    const signer = new PrivateKeySigner(privateKeyHex);
-    const pubkey = await signer.getPublicKey();
-    
-    console.log(`   Publishing from: ${pubkey} 🎵`);
-    console.log(`   Rap length: ${weeklyRap.length} characters`);
-
-    // Build tags array for weekly rap
-    const tags: Array<[string, ...string[]]> = [
-      ['client', 'Craig David'],
-      ['p', subjectPubkey],  // Person this rap is about
-      ['t', 'weekly-song'],
-      ['t', 'humor'],
-      ['t', 'craigdavid']
-    ];
+    if (note.pubkey !== persona.pubkey) {
+      throw new Error(`Note was prepared for ${note.pubkey.substring(0, 16)}... but persona ${persona.id} signs as ${persona.pubkey.substring(0, 16)}...`);
+    }
+
+    console.log(`   Publishing from: ${persona.pubkey} (${persona.displayName})`);
+    console.log(`   Text length: ${note.content.length} characters`);
 
     // Create Kind 1 event (text note)
     const eventTemplate = {
-      kind: 1,
+      kind: note.kind,
       created_at: Math.floor(Date.now() / 1000),
-      tags: tags,
-      content: `🎵 Weekly Rap by Craig David\n\n${weeklyRap}\n\n#weeklysong #humor #craigdavid #7days`,
-      pubkey: pubkey
+      tags: note.tags,
+      content: note.content
     };
 
     // Sign the event
-    const secretKey = Buffer.from(privateKeyHex, 'hex');
+    const secretKey = Buffer.from(persona.privateKey, 'hex');
     let signedEvent = finalizeEvent(eventTemplate, secretKey);
     
     console.log(`   Event ID: ${signedEvent.id}`);
 
+    // Mine to what the target relays require (NIP-11), within the tool's cost cap
+    const relayUrls = getPoolRelayUrls(relayPool);
+    const powPlan = await planRelayPow(relayUrls, powDifficulty, powCapForTool(persona.tool));
+    powPlan.skipped.forEach(receipt => console.warn(`   ⏭️  ${receipt.relay}: ${receipt.message}`));
+    if (powPlan.relays.length === 0 && powPlan.skipped.length > 0) {
+      return {
+        ...failedPublishReport(new Error('Every relay requires more PoW than the configured cap')),
+        total: powPlan.skipped.length,
+        receipts: powPlan.skipped
+      };
+    }
+
     // Apply Proof of Work if difficulty is specified
-    if (powDifficulty > 0) {
-      console.log(`   ⛏️  Mining PoW with difficulty ${powDifficulty}...`);
+    let minedDifficulty = 0;
+    if (powPlan.difficulty > 0) {
+      console.log(`   ⛏️  Mining PoW with difficulty ${powPlan.difficulty}...`);
       try {
-        const minedEvent = await mineEventPow(signedEvent, powDifficulty);
+        const minedEvent = await mineEventPow(signedEvent, powPlan.difficulty, mining);
         
         // Re-sign the mined event since we added the nonce tag
         const minedEventTemplate = {
           kind: minedEvent.kind,
           created_at: minedEvent.created_at,
           tags: minedEvent.tags,
-          content: minedEvent.content,
-          pubkey: minedEvent.pubkey
+          content: minedEvent.content
         };
         
         signedEvent = finalizeEvent(minedEventTemplate, secretKey);
+        minedDifficulty = powPlan.difficulty;
         console.log(`   ✅ PoW mining completed! New Event ID: ${signedEvent.id}`);
       } catch (error) {
+        // A cancelled request must not publish anything
+        if (mining.signal?.aborted) {
+          throw error;
+        }
         console.warn(`   ⚠️  PoW mining failed, publishing without PoW:`, error);
+        // Continue with original event if PoW fails
       }
     }
 
-    // Publish to relays
-    try {
-      console.log(`   📡 Publishing to ${relayPool['normalizedRelayUrls']?.length || 'unknown'} relays...`);
-      
-      const publishPromises = await relayPool.publish(signedEvent);
-      console.log(`   ✅ Published weekly rap to relay pool successfully`);
-      
-      return {
-        success: true,
-        eventId: signedEvent.id,
-        error: undefined
-      };
-    } catch (error) {
-      console.warn(`   ⚠️  Some relays may have failed during publishing:`, error);
-      
-      return {
-        success: true, // Consider partial success as success
-        eventId: signedEvent.id,
-        error: `Some relays failed: ${error instanceof Error ? error.message : 'Unknown publishing error'}`
-      };
-    }
-  } catch (error) {
-    console.error('❌ Error publishing weekly rap to Nostr:', error);
-    return {
-      success: false,
-      eventId: '',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
-}
-
-/**
- * Generates a roast using OpenRouter API with custom system prompt
- * @param socialPosts The social media posts to roast
- * @param apiToken OpenRouter API token
- * @returns Promise with generated roast
- */
-async function generateRoast(socialPosts: string, apiToken: string): Promise<string> {
-  const systemPrompt = `You are a witty comedy roasting assistant inspired by the observational and roasting styles of stand-up comedians. Your job is to provide humorous, clever commentary on social media posts in a roasting format.
-
-Core Guidelines:
-- Focus on obvious contradictions, humble brags, or amusing patterns in the posts
-- Use observational humor rather than personal attacks
-- Keep roasts clever and witty, not cruel or genuinely hurtful
-- Avoid comments about physical appearance, serious personal struggles, or protected characteristics
-- Channel a dry, sarcastic delivery style with unexpected punchlines
-- Use callbacks and escalating observations when you spot patterns
-
-Roasting Techniques:
-- Point out ironic contradictions between posts
-- Call out obvious fishing for compliments or attention
-- Mock overly dramatic reactions to minor inconveniences
-- Highlight when someone's trying too hard to appear sophisticated/cool
-- Notice when posts reveal more than the person intended
-
-Boundaries:
-- Never roast posts about genuine hardship, loss, or mental health struggles
-- Keep it playful, not vicious
-- Be funny and friendly
-
-Format: Provide 2-3 short roasting observations, each 1-2 sentences maximum.`;
-  
-  return await callOpenRouterAgentWithCustomPrompt(
-    socialPosts,
-    systemPrompt,
-    apiToken,
-    'x-ai/grok-4'
-  );
-}
-
-/**
- * Publishes roast to Nostr as Kind 1 event
- * @param roast The generated roast content
- * @param subjectPubkey Hex pubkey of person being roasted
- * @param privateKeyHex Roast account's private key
- * @param relayPool Relay pool for publishing
- * @param powDifficulty PoW difficulty
- * @returns Promise with publication result
- */
-async function publishRoastToNostr(
-  roast: string,
-  subjectPubkey: string,
-  privateKeyHex: string,
-  relayPool: SimpleRelayPool,
-  powDifficulty: number = 0
-): Promise<{ success: boolean; eventId: string; error?: string }> {
-  console.log('📡 Publishing roast to Nostr...');
-  console.log(`   Subject pubkey: ${subjectPubkey}`);
-  
-  try {
-    // Create signer from private key
-    const signer = new PrivateKeySigner(privateKeyHex);
-    const pubkey = await signer.getPublicKey();
-    
-    console.log(`   Publishing from: ${pubkey} 🔥`);
-    console.log(`   Roast length: ${roast.length} characters`);
-
-    // Build tags array for roast
-    const tags: Array<[string, ...string[]]> = [
-      ['client', 'Roast Bot'],
-      ['p', subjectPubkey],  // Person being roasted
-      ['t', 'roast'],
-      ['t', 'comedy'],
-      ['t', 'humor']
-    ];
-
-    // Create Kind 1 event (text note)
-    const eventTemplate = {
-      kind: 1,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: tags,
-      content: `🔥 Roast Time!\n\n${roast}\n\n#roast #comedy #humor`,
-      pubkey: pubkey
-    };
-
-    console.log(`   Event template created for roast`);
-    console.log(`   Tags: ${JSON.stringify(tags)}`);
-
-    // Sign the event first, then mine if needed
-    const signedEventInitial = await signer.signEvent(eventTemplate);
-    
-    // Mine event with PoW if difficulty > 0
-    let finalEvent;
-    if (powDifficulty > 0) {
-      console.log(`⛏️  Mining event with difficulty ${powDifficulty}...`);
-      const minedEvent = await mineEventPow(signedEventInitial, powDifficulty);
-      // Re-sign the mined event since nonce tag changed the hash
-      const minedEventTemplate = {
-        kind: minedEvent.kind,
-        created_at: minedEvent.created_at,
-        tags: minedEvent.tags,
-        content: minedEvent.content,
-        pubkey: minedEvent.pubkey
-      };
-      finalEvent = await signer.signEvent(minedEventTemplate);
-      console.log(`✅ Event mined and re-signed`);
-    } else {
-      // Use the signed event as-is
-      finalEvent = signedEventInitial;
+    if (mining.signal?.aborted) {
+      throw new Error('Publishing cancelled');
     }
+    // Once sent, the event may be stored even if we never see the OKs
+    await mining.onPublishing?.(signedEvent.id);
 
-    // Log the final event details
-    console.log(`   Final event ID: ${finalEvent.id}`);
-    console.log(`   Event content preview: ${finalEvent.content.substring(0, 100)}...`);
-
-    // Publish to all relays
-    console.log('📡 Publishing to Nostr relays...');
-    await relayPool.publish(finalEvent);
-    
-    console.log(`✅ Roast published successfully!`);
-    console.log(`   Event ID: ${finalEvent.id}`);
-    console.log(`   📡 Publishing to ${relayPool['normalizedRelayUrls']?.length || 'unknown'} relays...`);
-
-    return {
-      success: true,
-      eventId: finalEvent.id
-    };
-
+    // Publish to each relay and collect per-relay receipts
+    const report = await publishWithReceipts(relayPool, signedEvent, quorum, {
+      relays: relayUrls.length > 0 ? powPlan.relays : undefined,
+      skipped: powPlan.skipped
+    });
+    return { ...report, powDifficulty: minedDifficulty };
   } catch (error) {
-    console.error('❌ Error publishing roast to Nostr:', error);
-    return {
-      success: false,
-      eventId: '',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
+    console.error('❌ Error publishing to Nostr:', error);
+    return failedPublishReport(error);
   }
-}
\ No newline at end of file
+}
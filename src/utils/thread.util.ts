@@ -0,0 +1,134 @@
+/**
+ * Utility for referencing Nostr users and events in published notes
+ *
+ * - NIP-27: the subject is mentioned in the content as `nostr:npub...`, or
+ *   `nostr:nprofile...` when relay hints are known, so clients render a
+ *   visible, clickable mention rather than relying on the bare `p` tag
+ * - NIP-10: a note replying to another kind 1 note carries marked `e` tags
+ *   (`root`, and `reply` when the parent is itself a reply) with relay hints,
+ *   and `p` tags for the parent's author and the people the parent tagged
+ *   (minus opt-outs and capped, see resolveReplyTo in tools/thread.ts)
+ */
+
+import { SimpleRelayPool } from '@contextvm/sdk';
+import { nip19, type Event as NostrEvent, type Filter } from 'nostr-tools';
+import { getPoolQueries, getPoolRelayUrls } from './publish.util.js';
+import { withRelayHints } from './relayHints.util.js';
+
+/**
+ * An event a note replies to
+ */
+export interface ReplyTarget {
+  event: NostrEvent;
+  /** Relay the event can be found on (from the nevent, else one of the pool's relays) */
+  relay: string;
+  /** Pubkeys the reply tags (default: every candidate from replyCandidates) */
+  mentions?: string[];
+}
+
+const HEX_EVENT_ID = /^[0-9a-f]{64}$/;
+
+/**
+ * Decodes an event reference given as a hex id, note1 or nevent
+ * @param value Reference as given by the client (a `nostr:` prefix is allowed)
+ * @returns Hex event id and relay hints, or undefined if the value is not a reference
+ */
+export function parseEventReference(value: string): { id: string; relays: string[] } | undefined {
+  const trimmed = value.trim().replace(/^nostr:/i, '');
+  if (HEX_EVENT_ID.test(trimmed.toLowerCase())) {
+    return { id: trimmed.toLowerCase(), relays: [] };
+  }
+  try {
+    const decoded = nip19.decode(trimmed.toLowerCase());
+    if (decoded.type === 'note') return { id: decoded.data, relays: [] };
+    if (decoded.type === 'nevent') return { id: decoded.data.id, relays: decoded.data.relays || [] };
+  } catch {
+    // Not a NIP-19 reference
+  }
+  return undefined;
+}
+
+/**
+ * Fetches one event by id from the pool's relays and any hinted relays
+ * @param relayPool Relay pool
+ * @param id Hex event id
+ * @param hints Extra relays to ask (client-supplied; vetted by withRelayHints)
+ * @returns Promise with the event, or undefined if no relay has it
+ */
+export async function fetchEventById(relayPool: SimpleRelayPool, id: string, hints: string[] = []): Promise<NostrEvent | undefined> {
+  const pool = getPoolQueries(relayPool);
+  if (!pool) return undefined;
+  return withRelayHints(relayPool, hints, async extraRelays => {
+    const relayUrls = [...getPoolRelayUrls(relayPool), ...extraRelays];
+    if (relayUrls.length === 0) return undefined;
+    const filter: Filter = { ids: [id] };
+    const events: NostrEvent[] = await pool.querySync(relayUrls, filter, { maxWait: 5000 });
+    return events.find(event => event.id === id);
+  });
+}
+
+/**
+ * NIP-27 mention of a user
+ * @param pubkey Hex pubkey
+ * @param relays Relay hints (the first three are kept)
+ * @returns `nostr:nprofile...` with relay hints, otherwise `nostr:npub...`
+ */
+export function mentionFor(pubkey: string, relays: string[] = []): string {
+  return relays.length > 0
+    ? `nostr:${nip19.nprofileEncode({ pubkey, relays: relays.slice(0, 3) })}`
+    : `nostr:${nip19.npubEncode(pubkey)}`;
+}
+
+/**
+ * Pubkeys NIP-10 says a reply should tag: the parent's author, then everyone the parent tagged
+ * @param parent Event being replied to
+ * @returns Unique hex pubkeys, author first
+ */
+export function replyCandidates(parent: NostrEvent): string[] {
+  return [...new Set([parent.pubkey, ...parent.tags.filter(tag => tag[0] === 'p' && tag[1]).map(tag => tag[1])])];
+}
+
+/**
+ * NIP-10 tags for a reply
+ * @param target Parent event and its relay hint
+ * @param authorPubkey Pubkey the reply is signed with (never tagged)
+ * @returns Marked `e` tags followed by `p` tags
+ */
+export function replyTags(target: ReplyTarget, authorPubkey: string): string[][] {
+  const parent = target.event;
+  const mentions = target.mentions ?? replyCandidates(parent);
+  // The author hint on the e tag is left out too if the author isn't tagged
+  const author = mentions.includes(parent.pubkey) ? [parent.pubkey] : [];
+  const eTags = parent.tags.filter(tag => tag[0] === 'e' && tag[1]);
+  // Marked root, else the deprecated positional form (first e tag is the root)
+  const root = eTags.find(tag => tag[3] === 'root') || (eTags.some(tag => tag[3]) ? undefined : eTags[0]);
+
+  const tags: string[][] = root
+    ? [
+      ['e', root[1], root[2] || '', 'root', ...(root[4] ? [root[4]] : [])],
+      ['e', parent.id, target.relay, 'reply', ...author]
+    ]
+    : [['e', parent.id, target.relay, 'root', ...author]];
+
+  for (const pubkey of new Set(mentions)) {
+    if (pubkey !== authorPubkey) tags.push(['p', pubkey]);
+  }
+  return tags;
+}
+
+/**
+ * Id of the note a kind 1 note replies to (NIP-10)
+ * @param event Note
+ * @returns Parent event id and relay hint, or undefined if the note is not a reply
+ */
+export function replyParentOf(event: Pick<NostrEvent, 'tags'>): { id: string; relay?: string } | undefined {
+  const eTags = event.tags.filter(tag => tag[0] === 'e' && tag[1] && HEX_EVENT_ID.test(tag[1]));
+  const marked = eTags.filter(tag => tag[3] === 'reply' || tag[3] === 'root');
+  const unmarked = eTags.filter(tag => !tag[3]);
+  // Marked tags: "reply" wins, a lone "root" is a direct reply to the root;
+  // otherwise the deprecated positional form (last e tag is the parent)
+  const parent = marked.length > 0
+    ? marked.find(tag => tag[3] === 'reply') || marked[0]
+    : unmarked[unmarked.length - 1];
+  return parent ? { id: parent[1], relay: parent[2] || undefined } : undefined;
+}